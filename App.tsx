@@ -1,13 +1,27 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { UserProfile, DistanceUnit, WeeklyPlan, DayType, UserSchedule, IntervalsIcuConfig, WorkoutSession, WorkoutType, TrainingSport } from './types';
-import { calculateVDOTFromRace, formatThresholdSessionTitle, formatThresholdTimeTitle, generatePlan, calculateThresholdPace, getEasyRunPaceRange, getIntervalPaceRange, getThresholdDurationAnchorDistance, getWeatherPaceDeltaSeconds, secondsToTime, getTreadmillPaceDeltaSeconds, DEFAULT_TREADMILL_INCLINE, MIN_TREADMILL_INCLINE, MAX_TREADMILL_INCLINE } from './utils/calculations';
-import { deleteWorkoutFromIcu, syncWorkoutToIcu, syncWorkoutsBulkToIcu } from './services/intervalsService';
+import { UserProfile, DistanceUnit, WeeklyPlan, DailyPlan, DayType, UserSchedule, IntervalsIcuConfig, WorkoutSession, WorkoutType, TrainingSport, TrainingPhase, RacePriority, RacePredictionModel, LactateReading, DailyForecast, WeatherOverrides } from './types';
+import { fitRiegelExponent, formatLocalDate, formatThresholdIntervalsTitle, getPaceOffsetSec, getProfileVdot, PREDICTION_MODEL_LABELS, generatePlan, generateTrainingBlock, getDaySessions, normalizeBlockWeeks, getGoalRaceTimeline, formatRaceDistanceLabel, calculateThresholdPace, getEasyRunPaceRange, getIntervalPaceRange, getThresholdDurationAnchorDistance, secondsToTime, describeTrailPlan, getTrailFlatPaceSec, getTrailTimeFactor, getAltitudePaceDeltaSeconds, getTreadmillPaceDeltaSeconds, DEFAULT_TREADMILL_INCLINE, MIN_TREADMILL_INCLINE, MAX_TREADMILL_INCLINE, DEFAULT_BLOCK_WEEKS, DEFAULT_DELOAD_EVERY, MIN_BLOCK_WEEKS, MAX_BLOCK_WEEKS } from './utils/calculations';
+import { displayToKm, distanceUnitLabel, formatDistance, formatPace, formatPaceDelta, formatSpeed, kmToDisplay, paceToDisplaySec, paceUnitLabel } from './utils/units';
+import { deleteWorkoutFromIcu, describeIcuEvent, fetchIcuActivities, fetchIcuActivityIntervals, fetchIcuActivityStreams, fetchIcuEvents, syncWorkoutToIcu, syncWorkoutsBulkToIcu, writeLactateToIcuActivity } from './services/intervalsService';
+import { DEFAULT_LACTATE_TARGET, loadLactateReadings, saveLactateReadings } from './utils/lactate';
+import { applyDayWeatherOverride, DEVICE_LOCATION_ID, describeWeatherAdjustment, EMPTY_WEATHER_OVERRIDES, getSessionWeatherAdjustment, loadWeatherOverrides, resolveWeatherLocationId, saveWeatherOverrides, suggestWeatherSlot, WeatherPaceAdjustment, WeatherSlotSuggestion } from './utils/weather';
+import { fetchLocationForecast, loadWeatherCache, LocationForecast, saveWeatherCache } from './services/weatherService';
+import { DatedWorkout, downloadWorkoutCalendar, downloadWorkoutFile, downloadWorkoutsFitZip } from './services/workoutExportService';
+import { readFitWorkoutFile } from './services/workoutImportService';
+import { describeTreadmillTargets } from './utils/treadmill';
+import { buildSyncDiff, SyncChange, SyncChangeKind } from './utils/syncDiff';
+import { getComplianceKey, getComplianceTargets, getComplianceTone, getTimeInBandSec, matchActivitiesToSessions, PlannedSessionRef, scoreSessionCompliance, SessionCompliance, summarizeWeekCompliance } from './utils/compliance';
 import PacingTable from './components/PacingTable';
 import IntervalsModal from './components/IntervalsModal';
-import ScheduleWeekModal from './components/ScheduleWeekModal';
+import ThresholdTemplateEditor from './components/ThresholdTemplateEditor';
+import BenchmarkResultsEditor from './components/BenchmarkResultsEditor';
+import WeatherLocationsEditor from './components/WeatherLocationsEditor';
+import TreadmillSettingsEditor from './components/TreadmillSettingsEditor';
+import ScheduleWeekModal, { ScheduleScope } from './components/ScheduleWeekModal';
+import SyncPreviewModal from './components/SyncPreviewModal';
 import SortableDayItem from './components/SortableDayItem';
 import InsightsPortal from './components/InsightsPortal';
-import { Settings, X, PlayCircle, LogOut, Check, Globe, RefreshCw, CloudSun, Moon, Sun } from 'lucide-react';
+import { Settings, X, PlayCircle, LogOut, Check, Globe, RefreshCw, CloudSun, Moon, Sun, Download, CalendarDays } from 'lucide-react';
 import { DndContext, DragEndEvent, KeyboardSensor, PointerSensor, TouchSensor, closestCenter, useSensor, useSensors } from '@dnd-kit/core';
 import { SortableContext, arrayMove, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
 
@@ -19,16 +33,40 @@ declare global {
 
 const RUN_STORAGE_KEY_PREFIX = 'norskflow_run_profile';
 const ICU_CONFIG_KEY_PREFIX = 'norskflow_icu_config';
+const BLOCK_START_KEY_PREFIX = 'norskflow_block_start';
 const THEME_STORAGE_KEY = 'norskflow_theme';
 const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID as string | undefined;
 const FIVE_K_DISTANCE = 5000;
 const WEEKDAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
-const formatLocalDate = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+const PHASE_LABELS: Record<TrainingPhase, string> = {
+  build: 'Build',
+  deload: 'Deload',
+  taper: 'Taper',
+  race: 'Race',
+  recovery: 'Recovery',
+};
+const GOAL_RACE_DISTANCES = [
+  { label: '5K', dist: 5000 },
+  { label: '10K', dist: 10000 },
+  { label: 'Half', dist: 21097 },
+  { label: 'Marathon', dist: 42195 },
+];
+
+const describePredictionModel = (profile: UserProfile): string => {
+  switch (profile.predictionModel) {
+    case 'riegel-fitted': {
+      const fit = fitRiegelExponent(profile);
+      return fit
+        ? `Your exponent is ${fit.exponent.toFixed(3)}, fitted from ${fit.count} results.`
+        : 'Add a dated result at another distance to fit your own exponent. Using 1.06 until then.';
+    }
+    case 'vdot':
+      return `Daniels equivalents for VDOT ${getProfileVdot(profile).toFixed(1)}.`;
+    case 'cameron':
+      return "Cameron's race-equivalence curve, averaged over your results.";
+    default:
+      return 'Standard exponent. Critical speed covers 10K and shorter once two results fit.';
+  }
 };
 
 const parseLocalDate = (isoDate: string): Date => {
@@ -36,6 +74,35 @@ const parseLocalDate = (isoDate: string): Date => {
   if (!year || !month || !day) return new Date(isoDate);
   return new Date(year, month - 1, day);
 };
+const getNextMondayDate = (): string => {
+  const d = new Date();
+  d.setDate(d.getDate() + (1 - d.getDay() + 7) % 7); // Next Monday
+  return formatLocalDate(d);
+};
+const IMPORTED_DAY_TYPES: Partial<Record<WorkoutType, DayType>> = {
+  [WorkoutType.EASY]: DayType.EASY,
+  [WorkoutType.THRESHOLD]: DayType.THRESHOLD,
+  [WorkoutType.LONG_RUN]: DayType.LONG_RUN,
+  [WorkoutType.RACE]: DayType.RACE,
+};
+const withDaySession = (day: DailyPlan, sessionIdx: number, session: WorkoutSession): DailyPlan => {
+  if (sessionIdx === 0) return { ...day, session };
+  const extraSessions = [...(day.extraSessions || [])];
+  extraSessions[sessionIdx - 1] = session;
+  return { ...day, extraSessions };
+};
+// Synced events of sessions a rebuilt block no longer has (e.g. the PM half of a former double day).
+const getOrphanedEventIds = (prevBlock: WeeklyPlan[], nextBlock: WeeklyPlan[]): number[] => (
+  prevBlock.flatMap((week, w) => week.days.flatMap((day, d) => {
+    const keptSessions = nextBlock[w]?.days[d] ? getDaySessions(nextBlock[w].days[d]).length : 0;
+    return getDaySessions(day).slice(keptSessions).map((s) => s.icuEventId).filter((id): id is number => !!id);
+  }))
+);
+const getPlanDate = (blockStartDate: string, weekIdx: number, dayIdx: number): string => {
+  const date = parseLocalDate(blockStartDate);
+  date.setDate(date.getDate() + (weekIdx * 7) + dayIdx);
+  return formatLocalDate(date);
+};
 const parseTimeToSec = (timeStr: string): number => {
   const cleaned = (timeStr || '').trim();
   if (!cleaned) return 0;
@@ -107,11 +174,14 @@ const INTERMEDIATE_PROFILE_TEMPLATE: UserProfile = {
   scheduleSport: DEFAULT_SPORT_SCHEDULE,
   warmupDist: 2,
   cooldownDist: 1,
+  blockWeeks: DEFAULT_BLOCK_WEEKS,
+  deloadEvery: DEFAULT_DELOAD_EVERY,
 };
 
 const EMPTY_RUN_PROFILE: UserProfile = {
   name: '', raceDistance: FIVE_K_DISTANCE, raceTime: '', maxHR: 0, weeklyVolume: 0,
-  ftp: 0, unit: DistanceUnit.KM, schedule: EMPTY_RUN_SCHEDULE, scheduleSport: DEFAULT_SPORT_SCHEDULE, warmupDist: 0, cooldownDist: 0
+  ftp: 0, unit: DistanceUnit.KM, schedule: EMPTY_RUN_SCHEDULE, scheduleSport: DEFAULT_SPORT_SCHEDULE, warmupDist: 0, cooldownDist: 0,
+  blockWeeks: 1, deloadEvery: DEFAULT_DELOAD_EVERY
 };
 
 const normalizeTo5kProfile = (profile: UserProfile): UserProfile => ({
@@ -119,47 +189,74 @@ const normalizeTo5kProfile = (profile: UserProfile): UserProfile => ({
   raceDistance: FIVE_K_DISTANCE,
   ftp: Number(profile.ftp) || 0,
   scheduleSport: { ...DEFAULT_SPORT_SCHEDULE, ...(profile.scheduleSport || {}) },
+  blockWeeks: normalizeBlockWeeks(profile.blockWeeks ?? DEFAULT_BLOCK_WEEKS),
+  deloadEvery: profile.deloadEvery === 3 ? 3 : DEFAULT_DELOAD_EVERY,
 });
 
 const getProfileStorageKey = (uid: string): string => `${RUN_STORAGE_KEY_PREFIX}_${uid}`;
 const getIcuStorageKey = (uid: string): string => `${ICU_CONFIG_KEY_PREFIX}_${uid}`;
+const getBlockStartStorageKey = (uid: string): string => `${BLOCK_START_KEY_PREFIX}_${uid}`;
+const loadBlockStartDate = (uid: string): string => {
+  const saved = localStorage.getItem(getBlockStartStorageKey(uid)) || '';
+  return /^\d{4}-\d{2}-\d{2}$/.test(saved) ? saved : getNextMondayDate();
+};
+
+type ThemeMode = 'light' | 'dark';
 
-interface WeatherSnapshot {
-  temperatureC: number;
-  dewPointC: number;
-  humidityPct: number;
-  windKmh: number;
+interface SyncPreviewItem {
+  weekIdx: number;
+  index: number;
+  sessionIdx: number;
+  dayLabel: string;
+  externalId: string;
+  dateStr: string;
+  session: WorkoutSession;
 }
-interface DailyForecast {
-  date: string;
-  temperatureC: number;
-  humidityPct: number;
-  windKmh: number;
-  weatherCode: number;
+
+// Dry run of a schedule, held until the user confirms it.
+interface SyncPreview {
+  blockStartDate: string;
+  sourceBlock: WeeklyPlan[];
+  weekIndexes: number[];
+  items: SyncPreviewItem[];
+  changes: SyncChange[];
+  rangeLabel: string;
 }
 
-type ThemeMode = 'light' | 'dark';
+const getDeviceCoordinates = (): Promise<{ latitude: number; longitude: number }> => new Promise((resolve, reject) => {
+  if (!navigator.geolocation) {
+    reject(new Error('location_blocked'));
+    return;
+  }
+  navigator.geolocation.getCurrentPosition(
+    (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+    () => reject(new Error('location_blocked')),
+    { enableHighAccuracy: false, timeout: 12000, maximumAge: 15 * 60 * 1000 }
+  );
+});
 
 const App: React.FC = () => {
   const googleInitializedRef = useRef(false);
   const googleButtonRenderedRef = useRef(false);
   const [profile, setProfile] = useState<UserProfile>(EMPTY_RUN_PROFILE);
-  const [plan, setPlan] = useState<WeeklyPlan | null>(null);
+  const [block, setBlock] = useState<WeeklyPlan[]>([]);
+  const [activeWeekIdx, setActiveWeekIdx] = useState(0);
   const [activeTab, setActiveTab] = useState<'plan' | 'pacing' | 'insights' | 'settings'>('plan'); 
   const [showIntervalsModal, setShowIntervalsModal] = useState(false);
   const [showScheduleWeekModal, setShowScheduleWeekModal] = useState(false);
   const [intervalsConfig, setIntervalsConfig] = useState<IntervalsIcuConfig>({ athleteId: '', apiKey: '', connected: false });
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'error' | 'success'>('idle');
   const [syncMessage, setSyncMessage] = useState('');
+  const [syncPreview, setSyncPreview] = useState<SyncPreview | null>(null);
+  // Plan-vs-actual results keyed by `${date}:${sessionIdx}`.
+  const [compliance, setCompliance] = useState<Record<string, SessionCompliance>>({});
+  const [complianceLoading, setComplianceLoading] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [weather, setWeather] = useState<WeatherSnapshot | null>(null);
-  const [forecastByDate, setForecastByDate] = useState<Record<string, DailyForecast>>({});
-  const [weatherStatus, setWeatherStatus] = useState<'idle' | 'loading' | 'ready' | 'error' | 'blocked'>('idle');
-  const [startDate, setStartDate] = useState(() => {
-    const d = new Date();
-    d.setDate(d.getDate() + (1 - d.getDay() + 7) % 7); // Next Monday
-    return formatLocalDate(d);
-  });
+  const [forecasts, setForecasts] = useState<Record<string, LocationForecast>>(loadWeatherCache);
+  const [weatherOverrides, setWeatherOverrides] = useState<WeatherOverrides>(EMPTY_WEATHER_OVERRIDES);
+  const [weatherStatus, setWeatherStatus] = useState<'idle' | 'loading' | 'ready' | 'cached' | 'error' | 'blocked'>('idle');
+  const [startDate, setStartDate] = useState(getNextMondayDate);
+  const [lactateReadings, setLactateReadings] = useState<LactateReading[]>([]);
   const [theme, setTheme] = useState<ThemeMode>(() => {
     const saved = localStorage.getItem(THEME_STORAGE_KEY);
     return saved === 'dark' ? 'dark' : 'light';
@@ -168,83 +265,143 @@ const App: React.FC = () => {
   // Logged-out default: empty profile and no connected integrations.
   useEffect(() => {
     setProfile(EMPTY_RUN_PROFILE);
-    setPlan(generatePlan(EMPTY_RUN_PROFILE, 0));
+    setBlock(generateTrainingBlock(EMPTY_RUN_PROFILE, 0));
+    setActiveWeekIdx(0);
     setIntervalsConfig({ athleteId: '', apiKey: '', connected: false });
     setIsAuthenticated(false);
   }, []);
 
-  const fetchWeather = useCallback(() => {
-    if (!navigator.geolocation) {
-      setWeatherStatus('blocked');
-      return;
-    }
-
+  const plan: WeeklyPlan | null = block[activeWeekIdx] || null;
+  const setPlan = useCallback((next: WeeklyPlan) => {
+    setBlock((prev) => prev.map((week, idx) => (idx === (next.weekIndex ?? activeWeekIdx) ? next : week)));
+  }, [activeWeekIdx]);
+
+  const weatherLocations = profile.weatherLocations;
+  // Refetch only when coordinates change, not on name or altitude edits.
+  const weatherLocationsKey = (weatherLocations || []).map((l) => `${l.id}:${l.latitude},${l.longitude}`).join('|');
+  const weatherFetchTargets = useMemo(() => weatherLocations || [], [weatherLocationsKey]);
+  const defaultWeatherLocationId = resolveWeatherLocationId(profile, EMPTY_WEATHER_OVERRIDES, '', '');
+  const fetchWeather = useCallback(async () => {
     setWeatherStatus('loading');
-    navigator.geolocation.getCurrentPosition(
-      async (position) => {
-        try {
-          const lat = position.coords.latitude;
-          const lon = position.coords.longitude;
-          const currentUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,dew_point_2m,relative_humidity_2m,wind_speed_10m&timezone=auto&forecast_days=1`;
-          const dailyUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=weather_code,temperature_2m_max,temperature_2m_min,relative_humidity_2m_mean,wind_speed_10m_max&forecast_days=16&timezone=auto`;
-          const [res, dailyRes] = await Promise.all([fetch(currentUrl), fetch(dailyUrl)]);
-          if (!res.ok) throw new Error('weather_fetch_failed');
-          if (!dailyRes.ok) throw new Error('weather_forecast_fetch_failed');
-          const data = await res.json();
-          const dailyData = await dailyRes.json();
-          const current = data?.current;
-          const temperatureC = Number(current?.temperature_2m);
-          const dewPointC = Number(current?.dew_point_2m);
-          const humidityPct = Number(current?.relative_humidity_2m);
-          const windKmh = Number(current?.wind_speed_10m);
-
-          if (![temperatureC, dewPointC, humidityPct, windKmh].every(v => isFinite(v))) throw new Error('weather_parse_failed');
-
-          setWeather({ temperatureC, dewPointC, humidityPct, windKmh });
-
-          const daily = dailyData?.daily;
-          const dates: string[] = Array.isArray(daily?.time) ? daily.time : [];
-          const weatherCodes: number[] = Array.isArray(daily?.weather_code) ? daily.weather_code : [];
-          const maxTemps: number[] = Array.isArray(daily?.temperature_2m_max) ? daily.temperature_2m_max : [];
-          const minTemps: number[] = Array.isArray(daily?.temperature_2m_min) ? daily.temperature_2m_min : [];
-          const humidities: number[] = Array.isArray(daily?.relative_humidity_2m_mean) ? daily.relative_humidity_2m_mean : [];
-          const winds: number[] = Array.isArray(daily?.wind_speed_10m_max) ? daily.wind_speed_10m_max : [];
-          const nextForecast: Record<string, DailyForecast> = {};
-
-          for (let i = 0; i < dates.length; i += 1) {
-            const date = String(dates[i] || '');
-            if (!date) continue;
-            const maxT = Number(maxTemps[i]);
-            const minT = Number(minTemps[i]);
-            const meanTemp = Number.isFinite(maxT) && Number.isFinite(minT) ? (maxT + minT) / 2 : maxT;
-            const humidity = Number(humidities[i]);
-            const wind = Number(winds[i]);
-            const weatherCode = Number(weatherCodes[i]);
-            if (!Number.isFinite(meanTemp) || !Number.isFinite(humidity)) continue;
-
-            nextForecast[date] = {
-              date,
-              temperatureC: meanTemp,
-              humidityPct: humidity,
-              windKmh: Number.isFinite(wind) ? wind : 0,
-              weatherCode: Number.isFinite(weatherCode) ? weatherCode : 0,
-            };
-          }
-          setForecastByDate(nextForecast);
-          setWeatherStatus('ready');
-        } catch (e) {
-          setWeatherStatus('error');
-        }
-      },
-      () => setWeatherStatus('blocked'),
-      { enableHighAccuracy: false, timeout: 12000, maximumAge: 15 * 60 * 1000 }
-    );
-  }, []);
+    const targets = [
+      { id: DEVICE_LOCATION_ID, getCoordinates: getDeviceCoordinates },
+      ...weatherFetchTargets.map((location) => ({ id: location.id, getCoordinates: async () => location })),
+    ];
+    const results = await Promise.all(targets.map(async ({ id, getCoordinates }) => {
+      try {
+        const { latitude, longitude } = await getCoordinates();
+        return { id, forecast: await fetchLocationForecast(latitude, longitude), error: '' };
+      } catch (e) {
+        return { id, forecast: null, error: e instanceof Error ? e.message : 'weather_fetch_failed' };
+      }
+    }));
+
+    const fetched: Record<string, LocationForecast> = {};
+    results.forEach((r) => { if (r.forecast) fetched[r.id] = r.forecast; });
+    // Failed locations keep their cached forecast so plans still get corrections offline.
+    setForecasts((prev) => {
+      const next = { ...prev, ...fetched };
+      saveWeatherCache(next);
+      return next;
+    });
+    const defaultResult = results.find((r) => r.id === defaultWeatherLocationId);
+    if (defaultResult?.forecast) setWeatherStatus('ready');
+    else if (loadWeatherCache()[defaultWeatherLocationId]) setWeatherStatus('cached');
+    else setWeatherStatus(defaultResult?.error === 'location_blocked' ? 'blocked' : 'error');
+  }, [defaultWeatherLocationId, weatherFetchTargets]);
 
   useEffect(() => {
     fetchWeather();
   }, [fetchWeather]);
 
+  useEffect(() => {
+    setLactateReadings(loadLactateReadings(profile.uid));
+    setWeatherOverrides(loadWeatherOverrides(profile.uid));
+  }, [profile.uid]);
+
+  const updateLactateReadings = useCallback((update: (prev: LactateReading[]) => LactateReading[]) => {
+    setLactateReadings((prev) => {
+      const next = update(prev);
+      saveLactateReadings(profile.uid, next);
+      return next;
+    });
+  }, [profile.uid]);
+
+  const updateWeatherOverrides = useCallback((update: (prev: WeatherOverrides) => WeatherOverrides) => {
+    setWeatherOverrides((prev) => {
+      const next = update(prev);
+      saveWeatherOverrides(profile.uid, next);
+      return next;
+    });
+  }, [profile.uid]);
+
+  const activeWeekStartDate = getPlanDate(startDate, activeWeekIdx, 0);
+  const currentWeather = forecasts[defaultWeatherLocationId]?.current || null;
+  const defaultWeatherLocationName = weatherLocations?.find((l) => l.id === defaultWeatherLocationId)?.name || 'Current location';
+  const getDayAltitudeM = useCallback((date: string, weekStartDate: string): number => {
+    const locationId = resolveWeatherLocationId(profile, weatherOverrides, weekStartDate, date);
+    const location = profile.weatherLocations?.find((l) => l.id === locationId);
+    return Number(location?.altitudeM ?? profile.altitudeM) || 0;
+  }, [profile, weatherOverrides]);
+  const getDayForecast = useCallback((date: string, weekStartDate: string): DailyForecast | undefined => {
+    const locationId = resolveWeatherLocationId(profile, weatherOverrides, weekStartDate, date);
+    return applyDayWeatherOverride(date, weatherOverrides.days[date], forecasts[locationId]?.daily[date]);
+  }, [forecasts, profile, weatherOverrides]);
+
+  const weekCompliance = useMemo(() => summarizeWeekCompliance(
+    (plan?.days || []).flatMap((day, idx) => getDaySessions(day).map((session) => (
+      compliance[getComplianceKey(getPlanDate(startDate, activeWeekIdx, idx), session)]
+    ))).filter((c): c is SessionCompliance => !!c)
+  ), [compliance, plan, startDate, activeWeekIdx]);
+
+  const handleImportWorkoutFile = async (dayIdx: number, file: File) => {
+    const day = plan?.days[dayIdx];
+    if (!plan || !day) return;
+    const existing = getDaySessions(day)[0];
+    const imported = await readFitWorkoutFile(file, { id: existing?.id || day.day.toLowerCase(), ftp: profile.ftp });
+    if (!imported) {
+      setSyncStatus('error');
+      setSyncMessage(`${file.name} is not a FIT workout file.`);
+      return;
+    }
+    // The slot keeps its start time and Intervals.icu event so the next sync updates it in place;
+    // a rest day's leftover event is taken over by the imported session instead of being orphaned.
+    const session = { ...imported, startTime: existing?.startTime, icuEventId: existing?.icuEventId || day.icuEventId };
+    const dayType = IMPORTED_DAY_TYPES[imported.type] || DayType.EASY;
+    const newDays = [...plan.days];
+    newDays[dayIdx] = {
+      ...withDaySession(day, 0, session),
+      type: day.type === DayType.DOUBLE_THRESHOLD && dayType === DayType.THRESHOLD ? day.type : dayType,
+      icuEventId: undefined,
+    };
+    setPlan({ ...plan, days: newDays });
+    setSyncStatus('success');
+    setSyncMessage(`Imported ${imported.title} on ${WEEKDAY_ORDER[dayIdx] || day.day}.`);
+    setTimeout(() => {
+      setSyncStatus('idle');
+      setSyncMessage('');
+    }, 4000);
+  };
+
+  const handleWriteLactateToIcu = async (session: WorkoutSession, sessionIdx: number, date: string) => {
+    const readings = lactateReadings.filter((r) => r.date === date && r.sessionId === session.id);
+    setSyncStatus('syncing');
+    const result = await writeLactateToIcuActivity(intervalsConfig, date, { startTime: session.startTime, sessionIdx }, readings, profile.lactateIcuField);
+    if (result.ok) {
+      const written = new Set(readings.map((r) => r.id));
+      updateLactateReadings((prev) => prev.map((r) => (written.has(r.id) ? { ...r, syncedToIcu: true } : r)));
+      setSyncStatus('success');
+      setSyncMessage(`Lactate readings for ${date} written to Intervals.icu.`);
+      setTimeout(() => {
+        setSyncStatus('idle');
+        setSyncMessage('');
+      }, 4000);
+    } else {
+      setSyncStatus('error');
+      setSyncMessage(`Failed to write lactate readings: ${result.error || 'unknown error'}`);
+    }
+  };
+
   useEffect(() => {
     document.documentElement.classList.toggle('dark', theme === 'dark');
     localStorage.setItem(THEME_STORAGE_KEY, theme);
@@ -275,8 +432,11 @@ const App: React.FC = () => {
         name: userData.name || userProfile.name
       };
 
+      const blockStartDate = loadBlockStartDate(uid);
       setProfile(nextProfile);
-      setPlan(generatePlan(nextProfile, 0));
+      setStartDate(blockStartDate);
+      setBlock(generateTrainingBlock(nextProfile, 0, blockStartDate));
+      setActiveWeekIdx(0);
       setIntervalsConfig(savedIcu ? JSON.parse(savedIcu) : { athleteId: '', apiKey: '', connected: false });
       setIsAuthenticated(true);
       googleButtonRenderedRef.current = false;
@@ -337,28 +497,38 @@ const App: React.FC = () => {
       [name]: parseFloat(value) || 0
     }));
   };
+  // Distance inputs are shown in the profile unit but always stored in km.
+  const handleDistanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setProfile(prev => ({
+      ...prev,
+      [name]: displayToKm(parseFloat(value) || 0, prev.unit)
+    }));
+  };
+  const toDisplayInput = (km: number): number => Math.round(kmToDisplay(km, profile.unit) * 10) / 10;
 
   const handleLogout = () => {
     setIsAuthenticated(false);
     setProfile(EMPTY_RUN_PROFILE);
-    setPlan(generatePlan(EMPTY_RUN_PROFILE, 0));
+    setStartDate(getNextMondayDate());
+    setBlock(generateTrainingBlock(EMPTY_RUN_PROFILE, 0));
+    setActiveWeekIdx(0);
     setIntervalsConfig({ athleteId: '', apiKey: '', connected: false });
     googleButtonRenderedRef.current = false;
     if (window.google) window.google.accounts.id.disableAutoSelect();
   };
 
   const currentThreshold = calculateThresholdPace(profile.raceDistance, profile.raceTime, profile);
-  const vdot = calculateVDOTFromRace(profile.raceDistance, profile.raceTime);
+  const vdot = getProfileVdot(profile);
   const correctedThreshold = currentThreshold;
   const totalTrainingMinutes = useMemo(() => {
     if (!plan) return 0;
-    return plan.days.reduce((sum, d) => sum + (d.session?.duration || 0), 0);
+    return plan.days.reduce((sum, d) => sum + getDaySessions(d).reduce((acc, s) => acc + (s.duration || 0), 0), 0);
   }, [plan]);
   const subThresholdMinutes = useMemo(() => {
     if (!plan) return 0;
-    return plan.days.reduce((sum, day) => {
-      const session = day.session;
-      if (!session || !session.intervals?.length) return sum;
+    return plan.days.flatMap(getDaySessions).reduce((sum, session) => {
+      if (!session.intervals?.length) return sum;
 
       const isThresholdDay = session.type === WorkoutType.THRESHOLD;
       const isFiveKmLongRunVariant = session.type === WorkoutType.LONG_RUN && (
@@ -392,7 +562,7 @@ const App: React.FC = () => {
   }, [subThresholdMinutes, totalTrainingMinutes]);
   const estimatedMinutesFromTarget = useMemo(() => {
     const draft = generatePlan(normalizeTo5kProfile({ ...profile }), 0);
-    return Math.round(draft.days.reduce((sum, d) => sum + (d.session?.duration || 0), 0));
+    return Math.round(draft.days.reduce((sum, d) => sum + getDaySessions(d).reduce((acc, s) => acc + (s.duration || 0), 0), 0));
   }, [profile]);
   const getHrRangeForZone = useCallback((zone: 'Z2' | 'Z3'): { low?: number; high?: number; label: string } => {
     const maxHr = Number(profile.maxHR) || 0;
@@ -407,12 +577,18 @@ const App: React.FC = () => {
     const high = Math.round(maxHr * 0.78);
     return { low, high, label: `Zone 2 (${low}-${high} bpm)` };
   }, [profile.maxHR]);
-  const resolveSessionPaceCorrection = useCallback((session: WorkoutSession, weatherDeltaSec: number): number => {
+  const getSessionBasePaceSec = useCallback((session: WorkoutSession): number => (
+    session.type === WorkoutType.EASY || session.type === WorkoutType.LONG_RUN
+      ? getEasyRunPaceRange(profile, 0).center
+      : currentThreshold
+  ), [currentThreshold, profile]);
+  const resolveSessionPaceCorrection = useCallback((session: WorkoutSession, weatherDeltaSec: number, altitudeM = 0): number => {
     if ((session.sport || 'run') === 'bike') return 0;
     const env = session.environment || 'road';
     if (env === 'trail') {
       return 0;
     }
+    const altitudeDeltaSec = getAltitudePaceDeltaSeconds(altitudeM, getSessionBasePaceSec(session));
     if (env === 'treadmill') {
       const basePaceSec = (() => {
         if (session.type === WorkoutType.THRESHOLD && session.intervals?.length) {
@@ -426,11 +602,11 @@ const App: React.FC = () => {
         }
         return currentThreshold;
       })();
-      return weatherDeltaSec + getTreadmillPaceDeltaSeconds(session.treadmillInclinePct ?? DEFAULT_TREADMILL_INCLINE, basePaceSec);
+      return weatherDeltaSec + altitudeDeltaSec + getTreadmillPaceDeltaSeconds(session.treadmillInclinePct ?? DEFAULT_TREADMILL_INCLINE, basePaceSec);
     }
-    return weatherDeltaSec;
-  }, [currentThreshold, profile]);
-  const applyDayWeatherToSession = useCallback((session: WorkoutSession, dayDeltaSec: number): WorkoutSession => {
+    return weatherDeltaSec + altitudeDeltaSec;
+  }, [currentThreshold, getSessionBasePaceSec, profile]);
+  const applyDayWeatherToSession = useCallback((session: WorkoutSession, dayDeltaSec: number, altitudeM = 0): WorkoutSession => {
     if ((session.sport || 'run') === 'bike') {
       return session;
     }
@@ -440,7 +616,9 @@ const App: React.FC = () => {
     const hrRange = getHrRangeForZone(hrZone);
     const targetHrLow = useHeartRateTarget ? hrRange.low : undefined;
     const targetHrHigh = useHeartRateTarget ? hrRange.high : undefined;
-    const effectiveDeltaSec = resolveSessionPaceCorrection(session, dayDeltaSec);
+    const effectiveDeltaSec = resolveSessionPaceCorrection(session, dayDeltaSec, altitudeM);
+    const trailFactor = env === 'trail' ? getTrailTimeFactor(session) : 1;
+    const trailNote = env === 'trail' ? describeTrailPlan(session, getTrailFlatPaceSec(session, profile), profile.unit) : '';
     if (session.type === WorkoutType.EASY) {
       const easyRange = getEasyRunPaceRange(profile, effectiveDeltaSec);
       const easyCenter = easyRange.center;
@@ -449,9 +627,9 @@ const App: React.FC = () => {
         useHeartRateTarget,
         targetHrLow,
         targetHrHigh,
-        duration: Math.round(session.distance * (easyCenter / 60)),
+        duration: Math.round(session.distance * (easyCenter / 60) * trailFactor),
         description: useHeartRateTarget
-          ? `Target HR: ${hrRange.label}.`
+          ? `Target HR: ${hrRange.label}.${trailNote ? ` ${trailNote}` : ''}`
           : `Target Pace: ${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}/km${env === 'treadmill' ? ` · ${normalizeIncline(session.treadmillInclinePct)}% incline` : ''}`,
       };
     }
@@ -460,8 +638,11 @@ const App: React.FC = () => {
       const newIntervals = (session.intervals || []).map((int) => {
         const dist = Number(int.distance) || 0;
         const durationSec = Number(int.durationSec) || 0;
-        const anchorDist = durationSec > 0 ? getThresholdDurationAnchorDistance(durationSec) : dist;
-        const paceData = getIntervalPaceRange(profile, anchorDist, effectiveDeltaSec);
+        const anchorDist = int.anchorDist || (durationSec > 0 ? getThresholdDurationAnchorDistance(durationSec) : dist);
+        // Imported paces are kept; weather and altitude still shift them.
+        const paceData = int.customPace && int.pace
+          ? { range: shiftPaceText(int.pace, effectiveDeltaSec), effort: int.description }
+          : getIntervalPaceRange(profile, anchorDist, effectiveDeltaSec);
         const paceMidSec = parsePaceRangeMidSec(paceData.range);
         const derivedDist = durationSec > 0 && paceMidSec > 0
           ? Math.round((durationSec / paceMidSec) * 1000)
@@ -500,29 +681,32 @@ const App: React.FC = () => {
         return sum + (perRest * Math.max(0, reps - 1));
       }, 0);
       const sessionDistance = Math.round((wuKm + cdKm + intervalKm) * 10) / 10;
-      const sessionDuration = Math.round((workSec + restSec + ((wuKm + cdKm) * easyCenter)) / 60);
+      const sessionDuration = Math.round(((workSec + restSec + ((wuKm + cdKm) * easyCenter)) / 60) * trailFactor);
 
       return {
         ...session,
         useHeartRateTarget,
         targetHrLow,
         targetHrHigh,
-        title: newIntervals.length
-          ? ((Number(newIntervals[0].durationSec) || 0) > 0
-            ? formatThresholdTimeTitle(Math.max(1, Number(newIntervals[0].count) || 1), Number(newIntervals[0].durationSec))
-            : formatThresholdSessionTitle(Math.max(1, Number(newIntervals[0].count) || 1), Math.max(0, Number(newIntervals[0].distance) || 0)))
-          : session.title,
+        title: newIntervals.length ? formatThresholdIntervalsTitle(newIntervals) : session.title,
         intervals: newIntervals,
         distance: sessionDistance,
         duration: sessionDuration,
         description: useHeartRateTarget
-          ? `Subthreshold session in trail mode. Target HR: ${hrRange.label}.`
+          ? `Subthreshold session in trail mode. Target HR: ${hrRange.label}.${trailNote ? ` ${trailNote}` : ''}`
           : `${session.description}${env === 'treadmill' ? ` Treadmill ${normalizeIncline(session.treadmillInclinePct)}% incline.` : ''}`,
         warmup: useHeartRateTarget ? `${wuKm}km Z2 HR` : `${wuKm}km easy pace`,
         cooldown: useHeartRateTarget ? `${cdKm}km Z2 HR` : `${cdKm}km easy pace`,
       };
     }
 
+    if (session.type === WorkoutType.RACE) {
+      return {
+        ...session,
+        intervals: (session.intervals || []).map((int) => ({ ...int, pace: shiftPaceText(int.pace || '', effectiveDeltaSec) })),
+      };
+    }
+
     if (session.type === WorkoutType.LONG_RUN) {
       const easyRange = getEasyRunPaceRange(profile, effectiveDeltaSec);
       const easyCenter = easyRange.center;
@@ -543,7 +727,7 @@ const App: React.FC = () => {
       }, 0);
       const warmupSec = parsePaceRangeMidSec(easyRange.low > 0 && easyRange.high > 0 ? `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}` : '') * Math.max(0, Number(profile.warmupDist) || 0);
       const cooldownSec = parsePaceRangeMidSec(easyRange.low > 0 && easyRange.high > 0 ? `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}` : '') * Math.max(0, Number(profile.cooldownDist) || 0);
-      const estimatedDuration = workSec > 0 ? Math.round((workSec + restSec + warmupSec + cooldownSec) / 60) : Math.round(session.distance * (easyCenter / 60));
+      const estimatedDuration = Math.round((workSec > 0 ? (workSec + restSec + warmupSec + cooldownSec) / 60 : session.distance * (easyCenter / 60)) * trailFactor);
       return {
         ...session,
         useHeartRateTarget,
@@ -552,100 +736,316 @@ const App: React.FC = () => {
         intervals: adjustedIntervals,
         duration: estimatedDuration,
         description: useHeartRateTarget
-          ? `Long run in trail mode. Target HR: ${hrRange.label}.`
+          ? `Long run in trail mode. Target HR: ${hrRange.label}.${trailNote ? ` ${trailNote}` : ''}`
           : `${session.description}${env === 'treadmill' ? ` Treadmill ${normalizeIncline(session.treadmillInclinePct)}% incline.` : ''}`,
       };
     }
 
     return session;
   }, [getHrRangeForZone, profile, resolveSessionPaceCorrection]);
+  const getSessionWeather = useCallback((session: WorkoutSession, forecast?: DailyForecast): WeatherPaceAdjustment | null => {
+    if (!forecast || (session.sport || 'run') === 'bike') return null;
+    return getSessionWeatherAdjustment(forecast, session, getSessionBasePaceSec(session));
+  }, [getSessionBasePaceSec]);
+  const getSessionWeatherSlot = useCallback((session: WorkoutSession, forecast?: DailyForecast): WeatherSlotSuggestion | null => {
+    if (!forecast || session.startTime || (session.sport || 'run') === 'bike' || (session.environment || 'road') !== 'road') return null;
+    return suggestWeatherSlot(forecast, session, getSessionBasePaceSec(session));
+  }, [getSessionBasePaceSec]);
+  const getSessionAltitudeDeltaSec = useCallback((session: WorkoutSession, altitudeM: number): number => {
+    if ((session.sport || 'run') === 'bike' || (session.environment || 'road') === 'trail') return 0;
+    return getAltitudePaceDeltaSeconds(altitudeM, getSessionBasePaceSec(session));
+  }, [getSessionBasePaceSec]);
+  const applySessionWeather = useCallback((session: WorkoutSession, forecast: DailyForecast | undefined, altitudeM: number): WorkoutSession => {
+    const weather = getSessionWeather(session, forecast);
+    const corrected = applyDayWeatherToSession(session, weather?.totalSec || 0, altitudeM);
+    const isTrail = (session.environment || 'road') === 'trail';
+    const weatherNote = weather && !isTrail
+      ? `Weather: ${describeWeatherAdjustment(weather, profile.unit)}`
+      : undefined;
+    const altitudeDeltaSec = getSessionAltitudeDeltaSec(session, altitudeM);
+    const altitudeNote = altitudeDeltaSec
+      ? `Altitude: ${formatPaceDelta(altitudeDeltaSec, profile.unit)} (${Math.round(altitudeM)} m)`
+      : undefined;
+    const treadmillNote = (session.environment || 'road') === 'treadmill' && (session.sport || 'run') === 'run'
+      ? describeTreadmillTargets(corrected, profile) || undefined
+      : undefined;
+    return { ...corrected, weatherNote, altitudeNote, treadmillNote };
+  }, [applyDayWeatherToSession, getSessionAltitudeDeltaSec, getSessionWeather, profile]);
+
+  // Weather-corrected sessions of the given weeks; uids follow the Intervals.icu external ids.
+  const getDatedWorkouts = (weekIndexes: number[]): DatedWorkout[] => weekIndexes.flatMap((w) => (
+    (block[w]?.days || []).flatMap((day, idx) => {
+      const dateStr = getPlanDate(startDate, w, idx);
+      const weekStartDate = getPlanDate(startDate, w, 0);
+      const dayForecast = getDayForecast(dateStr, weekStartDate);
+      const dayAltitudeM = getDayAltitudeM(dateStr, weekStartDate);
+      return getDaySessions(day).map((session, sessionIdx) => ({
+        session: applySessionWeather(session, dayForecast, dayAltitudeM),
+        date: dateStr,
+        uid: `norskflow-${profile.uid || 'anon'}-${dateStr}-${idx}${sessionIdx > 0 ? `-${sessionIdx}` : ''}`,
+      }));
+    })
+  ));
 
-  const handleGeneratePlan = () => {
-    const normalized = normalizeTo5kProfile(profile);
-    const newPlan = generatePlan(normalized, 0);
+  const handleDownloadWeek = () => {
+    if (!downloadWorkoutsFitZip(getDatedWorkouts([activeWeekIdx]), `norskflow_week_${activeWeekStartDate}`)) {
+      setSyncStatus('error');
+      setSyncMessage('This week has no workouts to download.');
+    }
+  };
+
+  const handleDownloadCalendar = (scope: ScheduleScope) => {
+    const weekIndexes = scope === 'block' ? block.map((_, w) => w) : [activeWeekIdx];
+    const name = scope === 'block' ? `NorskFlow block ${startDate}` : `NorskFlow week ${activeWeekStartDate}`;
+    if (!downloadWorkoutCalendar(getDatedWorkouts(weekIndexes), profile.unit, name)) {
+      setSyncStatus('error');
+      setSyncMessage(`This ${scope} has no workouts to export.`);
+    }
+  };
+
+  const externalIdPrefix = `norskflow:${profile.uid || 'anon'}:`;
+  const getExternalId = (dateStr: string, dayIdx: number, sessionIdx: number): string => (
+    `${externalIdPrefix}${dateStr}:${dayIdx}${sessionIdx > 0 ? `:${sessionIdx}` : ''}`
+  );
+
+  const handleLoadCompliance = async () => {
+    const today = formatLocalDate(new Date());
+    if (!plan || !intervalsConfig.connected || activeWeekStartDate > today) return;
+    const weekEnd = getPlanDate(startDate, activeWeekIdx, 6);
+    const newest = weekEnd < today ? weekEnd : today;
+    setComplianceLoading(true);
+    const [activitiesResult, eventsResult] = await Promise.all([
+      fetchIcuActivities(intervalsConfig, activeWeekStartDate, newest),
+      fetchIcuEvents(intervalsConfig, activeWeekStartDate, weekEnd),
+    ]);
+    if (!activitiesResult.ok) {
+      setComplianceLoading(false);
+      setSyncStatus('error');
+      setSyncMessage(`Failed to load completed activities: ${activitiesResult.error || 'unknown error'}`);
+      return;
+    }
+    // Sessions synced from another device carry no local event id; the external id still identifies them.
+    const eventIdByExternalId = new Map(eventsResult.events.map((e) => [e.externalId, e.id]));
+    const refs: PlannedSessionRef[] = plan.days.flatMap((day, idx) => {
+      const date = getPlanDate(startDate, activeWeekIdx, idx);
+      const forecast = getDayForecast(date, activeWeekStartDate);
+      const altitudeM = getDayAltitudeM(date, activeWeekStartDate);
+      return getDaySessions(day).map((session, sessionIdx) => ({
+        key: getComplianceKey(date, session),
+        date,
+        session: {
+          ...applySessionWeather(session, forecast, altitudeM),
+          icuEventId: session.icuEventId || eventIdByExternalId.get(getExternalId(date, idx, sessionIdx)),
+        },
+      }));
+    });
+    const matches = matchActivitiesToSessions(refs, activitiesResult.activities);
+    const results = await Promise.all(refs.map(async (ref) => {
+      const activity = matches[ref.key];
+      const targets = getComplianceTargets(ref.session);
+      if (!activity || targets.kind === 'none') return scoreSessionCompliance(ref, activity, today);
+      const streams = await fetchIcuActivityStreams(intervalsConfig, activity.id, ['time', targets.kind === 'hr' ? 'heartrate' : 'velocity_smooth']);
+      return scoreSessionCompliance(ref, activity, today, getTimeInBandSec(targets, streams));
+    }));
+    setCompliance((prev) => ({ ...prev, ...Object.fromEntries(results.map((r) => [r.key, r])) }));
+    setComplianceLoading(false);
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'plan' || !intervalsConfig.connected) return;
+    void handleLoadCompliance();
+  }, [activeTab, activeWeekStartDate, intervalsConfig.connected]);
+
+  // Saves the profile and rebuilds the block from it.
+  const applyProfile = (nextProfile: UserProfile) => {
+    const normalized = normalizeTo5kProfile(nextProfile);
+    const newBlock = generateTrainingBlock(normalized, 0, startDate);
+    const orphanedEventIds = intervalsConfig.connected ? getOrphanedEventIds(block, newBlock) : [];
     setProfile(normalized);
-    setPlan(newPlan);
-    setActiveTab('plan');
+    setBlock(newBlock);
+    setActiveWeekIdx((prev) => Math.min(prev, newBlock.length - 1));
     if (isAuthenticated && normalized.uid) {
       localStorage.setItem(getProfileStorageKey(normalized.uid), JSON.stringify(normalized));
     }
+    if (orphanedEventIds.length) void handleDeleteOrphanedEvents(orphanedEventIds);
+  };
+
+  const handleDeleteOrphanedEvents = async (eventIds: number[]) => {
+    const results = await Promise.all(eventIds.map((id) => deleteWorkoutFromIcu(intervalsConfig, id)));
+    const failed = results.filter((ok) => !ok).length;
+    if (failed) {
+      setSyncStatus('error');
+      setSyncMessage(`Failed to remove ${failed} dropped ${failed === 1 ? 'session' : 'sessions'} from Intervals.icu.`);
+    }
   };
 
-  const handleSyncEntireWeekToIcu = async (weekStartDate: string) => {
-    if (!plan || !intervalsConfig.connected || !isAuthenticated) return;
+  const handleGeneratePlan = () => {
+    applyProfile(profile);
+    setActiveTab('plan');
+  };
+
+  // Builds the dry run: what a schedule would create, update and delete on Intervals.icu. Nothing is sent here.
+  const handleScheduleToIcu = async (selectedDate: string, scope: ScheduleScope, sourceBlock: WeeklyPlan[] = block) => {
+    if (!sourceBlock.length || !intervalsConfig.connected || !isAuthenticated) return;
     setSyncStatus('syncing');
     setSyncMessage('');
-    const workoutDayCount = plan.days.filter((d) => !!d.session).length;
-    
+    // The modal date is the first day of the scheduled range; weeks always stay anchored to the block start.
+    const blockStartDate = scope === 'block' ? selectedDate : getPlanDate(selectedDate, -activeWeekIdx, 0);
+    const weekIndexes = scope === 'block' ? sourceBlock.map((_, w) => w) : [activeWeekIdx];
+
     try {
-      const newDays = [...plan.days];
-      const failedDays: string[] = [];
-      const workoutItems: Array<{ index: number; dayLabel: string; externalId: string; dateStr: string }> = [];
-
-      for (let i = 0; i < newDays.length; i++) {
-        const day = newDays[i];
-        const targetDate = parseLocalDate(weekStartDate);
-        targetDate.setDate(targetDate.getDate() + i);
-        const dateStr = formatLocalDate(targetDate);
-        const dayLabel = WEEKDAY_ORDER[i] || day.day;
-        const dayForecast = forecastByDate[dateStr];
-        const weatherDeltaSec = dayForecast
-          ? getWeatherPaceDeltaSeconds(currentThreshold, dayForecast.temperatureC, dayForecast.humidityPct, dayForecast.windKmh)
-          : 0;
-
-        // User preference: do not write rest days to Intervals/Garmin.
-        if (!day.session) {
-          if (day.icuEventId) {
-            await deleteWorkoutFromIcu(intervalsConfig, day.icuEventId);
+      const items: SyncPreviewItem[] = [];
+      const staleEventIds: number[] = [];
+
+      for (const w of weekIndexes) {
+        const days = sourceBlock[w].days;
+        for (let i = 0; i < days.length; i++) {
+          const day = days[i];
+          const dateStr = getPlanDate(blockStartDate, w, i);
+          const dayLabel = `${scope === 'block' ? `W${w + 1} ` : ''}${WEEKDAY_ORDER[i] || day.day}`;
+          const dayForecast = getDayForecast(dateStr, getPlanDate(blockStartDate, w, 0));
+          const dayAltitudeM = getDayAltitudeM(dateStr, getPlanDate(blockStartDate, w, 0));
+
+          // User preference: do not write rest days to Intervals/Garmin.
+          if (!getDaySessions(day).length) {
+            if (day.icuEventId) staleEventIds.push(day.icuEventId);
+            continue;
           }
-          newDays[i] = { ...day, icuEventId: undefined };
-          continue;
+
+          getDaySessions(day).forEach((session, sessionIdx) => {
+            const corrected = applySessionWeather(session, dayForecast, dayAltitudeM);
+            items.push({
+              weekIdx: w,
+              index: i,
+              sessionIdx,
+              dayLabel: `${dayLabel}${session.startTime ? ` ${session.startTime}` : ''}`,
+              // The first session keeps the original id so previously synced events are upserted in place.
+              externalId: getExternalId(dateStr, i, sessionIdx),
+              dateStr,
+              session: corrected,
+            });
+          });
         }
+      }
 
-        const externalId = `norskflow:${profile.uid || 'anon'}:${dateStr}:${i}`;
-        workoutItems.push({ index: i, dayLabel, externalId, dateStr });
-        newDays[i] = { ...day, session: applyDayWeatherToSession(day.session, weatherDeltaSec) };
+      const rangeEnd = getPlanDate(blockStartDate, weekIndexes[weekIndexes.length - 1], 6);
+      const rangeStart = getPlanDate(blockStartDate, weekIndexes[0], 0);
+      const eventsResult = await fetchIcuEvents(intervalsConfig, rangeStart, rangeEnd);
+      if (!eventsResult.ok) {
+        setSyncStatus('error');
+        setSyncMessage(eventsResult.error || 'Failed to load existing Intervals.icu events.');
+        return;
       }
 
-      const bulkResult = await syncWorkoutsBulkToIcu(
-        intervalsConfig,
-        workoutItems.map((w) => ({
-          externalId: w.externalId,
-          date: w.dateStr,
-          session: newDays[w.index].session!,
-        }))
+      const changes = buildSyncDiff(
+        items.map((item) => ({
+          externalId: item.externalId,
+          date: item.dateStr,
+          label: item.dayLabel,
+          eventId: item.session.icuEventId,
+          ...describeIcuEvent(item.session, item.dateStr, profile.unit),
+        })),
+        eventsResult.events,
+        externalIdPrefix,
+        staleEventIds
       );
+      setShowScheduleWeekModal(false);
+      setSyncPreview({
+        blockStartDate,
+        sourceBlock,
+        weekIndexes,
+        items,
+        changes,
+        rangeLabel: scope === 'block' ? `${rangeStart} to ${rangeEnd}` : `Week ${activeWeekIdx + 1} (${rangeStart})`,
+      });
+      setSyncStatus('idle');
+    } catch (e) {
+      setSyncStatus('error');
+      setSyncMessage(e instanceof Error ? e.message : 'Unexpected error while preparing the schedule.');
+    }
+  };
 
-      if (!bulkResult.ok) {
-        setSyncStatus('error');
-        setSyncMessage(bulkResult.error || 'Failed to bulk sync workouts.');
-        return;
+  // Sends only what the confirmed preview marked as created, updated or deleted.
+  const handleConfirmSchedule = async () => {
+    if (!syncPreview) return;
+    const { blockStartDate, sourceBlock, weekIndexes, items, changes } = syncPreview;
+    setSyncStatus('syncing');
+    setSyncMessage('');
+
+    try {
+      const nextBlock = sourceBlock.map((week) => ({ ...week, days: [...week.days] }));
+      const failedDays: string[] = [];
+      const changeByExternalId = new Map<string, SyncChange>();
+      changes.forEach((c) => {
+        if (c.kind !== 'delete' && c.externalId) changeByExternalId.set(c.externalId, c);
+      });
+      const deletes = changes.filter((c) => c.kind === 'delete' && c.eventId);
+
+      for (const change of deletes) {
+        const ok = await deleteWorkoutFromIcu(intervalsConfig, change.eventId!);
+        if (!ok) failedDays.push(`${change.date} ${change.label}: delete failed`);
+      }
+      weekIndexes.forEach((w) => {
+        nextBlock[w].days = nextBlock[w].days.map((day) => (getDaySessions(day).length || !day.icuEventId ? day : { ...day, icuEventId: undefined }));
+      });
+
+      const eventIds: Record<string, number> = {};
+      const bulkItems = items.filter((item) => {
+        const change = changeByExternalId.get(item.externalId);
+        return change?.kind === 'create' || (change?.kind === 'update' && !change.matchedById);
+      });
+      if (bulkItems.length) {
+        const bulkResult = await syncWorkoutsBulkToIcu(
+          intervalsConfig,
+          bulkItems.map((w) => ({ externalId: w.externalId, date: w.dateStr, session: w.session })),
+          profile.unit
+        );
+        if (!bulkResult.ok) {
+          setSyncStatus('error');
+          setSyncMessage(bulkResult.error || 'Failed to bulk sync workouts.');
+          return;
+        }
+        Object.assign(eventIds, bulkResult.eventIdsByExternalId);
+      }
+      // Events created by a single-session sync carry no external id; update those in place by id.
+      for (const item of items) {
+        const change = changeByExternalId.get(item.externalId);
+        if (change?.kind !== 'update' || !change.matchedById) continue;
+        const result = await syncWorkoutToIcu(intervalsConfig, { ...item.session, icuEventId: change.eventId }, item.dateStr, profile.unit);
+        if (result.ok && result.eventId) eventIds[item.externalId] = result.eventId;
       }
 
       let syncedCount = 0;
-      for (const w of workoutItems) {
-        const eventId = bulkResult.eventIdsByExternalId[w.externalId];
+      for (const w of items) {
+        const change = changeByExternalId.get(w.externalId);
+        const eventId = eventIds[w.externalId] || (change?.kind === 'unchanged' ? change.eventId : undefined);
         if (eventId) {
-          const day = newDays[w.index];
-          if (day.session) {
-            newDays[w.index] = { ...day, session: { ...day.session, icuEventId: eventId }, icuEventId: undefined };
-            syncedCount += 1;
-          }
+          // Only the event id is stored; the plan keeps its base paces so corrections never compound.
+          const day = nextBlock[w.weekIdx].days[w.index];
+          const planned = getDaySessions(day)[w.sessionIdx];
+          nextBlock[w.weekIdx].days[w.index] = {
+            ...withDaySession(day, w.sessionIdx, { ...(planned || w.session), icuEventId: eventId }),
+            icuEventId: undefined,
+          };
+          if (change?.kind !== 'unchanged') syncedCount += 1;
         } else {
-          failedDays.push(`${w.dayLabel}: missing event id from bulk response`);
+          failedDays.push(`${w.dayLabel}: missing event id from Intervals.icu response`);
         }
       }
 
-      setPlan({ ...plan, days: newDays });
-      setStartDate(weekStartDate);
+      setBlock(nextBlock);
+      setStartDate(blockStartDate);
+      if (profile.uid) localStorage.setItem(getBlockStartStorageKey(profile.uid), blockStartDate);
+      setSyncPreview(null);
 
+      const count = (kind: SyncChangeKind) => changes.filter((c) => c.kind === kind).length;
+      const summary = `Created ${count('create')}, updated ${count('update')}, deleted ${count('delete')}; ${count('unchanged')} unchanged.`;
       if (failedDays.length === 0) {
         setSyncStatus('success');
-        setSyncMessage(`Scheduled ${syncedCount}/${workoutDayCount} workouts to Intervals.icu.`);
-        setShowScheduleWeekModal(false);
+        setSyncMessage(syncedCount || deletes.length ? summary : 'Intervals.icu was already up to date.');
       } else {
         setSyncStatus('error');
-        setSyncMessage(`Scheduled ${syncedCount}/${workoutDayCount} workouts. Failed: ${failedDays.join(' | ')}`);
+        setSyncMessage(`${summary} Failed: ${failedDays.join(' | ')}`);
       }
 
       setTimeout(() => {
@@ -654,7 +1054,7 @@ const App: React.FC = () => {
       }, 7000);
     } catch (e) {
       setSyncStatus('error');
-      setSyncMessage(e instanceof Error ? e.message : 'Unexpected error while scheduling week.');
+      setSyncMessage(e instanceof Error ? e.message : 'Unexpected error while scheduling.');
     }
   };
 
@@ -674,11 +1074,13 @@ const App: React.FC = () => {
     if (oldIndex < 0 || newIndex < 0) return;
 
     const reordered = arrayMove(plan.days, oldIndex, newIndex);
-    setPlan({ ...plan, days: reordered });
+    const nextBlock = block.map((week, w) => (w === activeWeekIdx ? { ...week, days: reordered } : week));
+    setBlock(nextBlock);
 
-    const movedSynced = reordered[oldIndex]?.session?.icuEventId || reordered[newIndex]?.session?.icuEventId;
+    // Moving synced days only opens the sync preview; nothing is sent until it is confirmed.
+    const movedSynced = [reordered[oldIndex], reordered[newIndex]].some((d) => d && getDaySessions(d).some((s) => !!s.icuEventId));
     if (intervalsConfig.connected && movedSynced) {
-      handleSyncEntireWeekToIcu(startDate);
+      void handleScheduleToIcu(getPlanDate(startDate, activeWeekIdx, 0), 'week', nextBlock);
     }
   };
 
@@ -843,7 +1245,11 @@ const App: React.FC = () => {
               <div className="relative flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
                 <div className="min-w-0">
                   <h2 className="text-2xl md:text-3xl font-semibold tracking-tight text-slate-900 dark:text-slate-100">NorskFlow</h2>
-                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">Week target {Math.round(profile.weeklyVolume)} km. Total training {Math.round(totalTrainingMinutes)} min.</p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+                    {block.length > 1 ? `Week ${activeWeekIdx + 1}/${block.length} (${PHASE_LABELS[plan?.phase || 'build'].toLowerCase()}) · ${formatDistance(plan?.totalDistance || 0, profile.unit, 0)} planned. ` : ''}
+                    {profile.goalRace?.date ? `${formatRaceDistanceLabel(profile.goalRace.distance)} goal race on ${profile.goalRace.date}. ` : ''}
+                    Week target {formatDistance(profile.weeklyVolume, profile.unit, 0)}. Total training {Math.round(totalTrainingMinutes)} min.
+                  </p>
                   <div className="mt-3 flex flex-wrap gap-2">
                     <span className="inline-flex items-center px-3 py-1.5 rounded-full border border-slate-200/80 dark:border-slate-700 bg-slate-50/90 dark:bg-slate-800/80 text-xs font-medium text-slate-600 dark:text-slate-300">
                       VDOT {vdot > 0 ? vdot.toFixed(1) : '--'}
@@ -859,21 +1265,24 @@ const App: React.FC = () => {
 
                 <div className="lg:text-center rounded-2xl border border-norway-blue/15 dark:border-sky-500/30 bg-norway-blue/[0.04] dark:bg-sky-500/[0.12] px-5 py-4">
                   <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Subthreshold Pace</p>
-                  <p className="text-4xl md:text-5xl leading-none font-bold text-norway-blue dark:text-sky-300 mt-1">{secondsToTime(correctedThreshold)}<span className="text-xl md:text-2xl text-slate-500 dark:text-slate-300 font-medium">/km</span></p>
-                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">Base {secondsToTime(currentThreshold)}</p>
+                  <p className="text-4xl md:text-5xl leading-none font-bold text-norway-blue dark:text-sky-300 mt-1">{formatPace(correctedThreshold, profile.unit)}<span className="text-xl md:text-2xl text-slate-500 dark:text-slate-300 font-medium">{paceUnitLabel(profile.unit)}</span></p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">Base {formatPace(currentThreshold, profile.unit)}</p>
                 </div>
 
                 <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50/95 dark:bg-slate-800/90 px-5 py-3 min-w-[250px]">
                   <div className="flex items-start justify-between gap-4">
                     <div>
-                      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Weather</p>
-                      {weather ? (
+                      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Weather · {defaultWeatherLocationName}</p>
+                      {currentWeather ? (
                         <>
-                          <p className="text-3xl font-semibold text-slate-900 dark:text-slate-100 mt-0.5">{Math.round(weather.temperatureC)}C</p>
-                          <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-1">Humidity {Math.round(weather.humidityPct)}% · Dew {Math.round(weather.dewPointC)}C · Wind {Math.round(weather.windKmh)} km/h</p>
+                          <p className="text-3xl font-semibold text-slate-900 dark:text-slate-100 mt-0.5">{Math.round(currentWeather.temperatureC)}C</p>
+                          <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-1">Humidity {Math.round(currentWeather.humidityPct)}% · Dew {Math.round(currentWeather.dewPointC)}C · Wind {formatSpeed(currentWeather.windKmh, profile.unit)}</p>
+                          {weatherStatus === 'cached' && (
+                            <p className="text-[11px] text-amber-600 dark:text-amber-300 mt-1">Offline · cached {new Date(forecasts[defaultWeatherLocationId].fetchedAt).toLocaleString()}</p>
+                          )}
                         </>
                       ) : (
-                        <p className="text-xs text-slate-400 mt-1">{weatherStatus === 'loading' ? 'Loading...' : weatherStatus === 'blocked' ? 'Location blocked' : weatherStatus === 'error' ? 'Weather unavailable' : 'No weather data'}</p>
+                        <p className="text-xs text-slate-400 mt-1">{weatherStatus === 'loading' ? 'Loading...' : weatherStatus === 'blocked' ? 'Location blocked · add a location in Settings' : weatherStatus === 'error' ? 'Weather unavailable' : 'No weather data'}</p>
                       )}
                     </div>
                     <button onClick={fetchWeather} className="p-2 rounded-full border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white hover:bg-white dark:hover:bg-slate-700">
@@ -899,7 +1308,7 @@ const App: React.FC = () => {
                         className={`flex items-center gap-2 text-xs font-bold transition-all ${syncStatus === 'syncing' ? 'text-slate-300' : 'text-norway-red hover:text-red-700'}`}
                       >
                         {syncStatus === 'syncing' ? <RefreshCw className="animate-spin" size={14} /> : syncStatus === 'success' ? <Check size={14} /> : <Globe size={14} />}
-                        {syncStatus === 'syncing' ? 'Scheduling...' : syncStatus === 'success' ? 'Scheduled!' : 'Schedule Week'}
+                        {syncStatus === 'syncing' ? 'Scheduling...' : syncStatus === 'success' ? 'Scheduled!' : block.length > 1 ? 'Schedule' : 'Schedule Week'}
                       </button>
                    </div>
                  )}
@@ -921,23 +1330,24 @@ const App: React.FC = () => {
                     className="w-full max-w-[180px] px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 font-semibold text-slate-900 dark:text-slate-100"
                   />
                   <p className="mt-2 text-xs text-slate-600 dark:text-slate-300">
-                    Your threshold pace is <span className="font-bold">{secondsToTime(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile))}/km</span>
+                    Your threshold pace is <span className="font-bold">{formatPace(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile), profile.unit)}{paceUnitLabel(profile.unit)}</span>
                   </p>
                 </div>
                 <div className="flex-1">
                   <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Core Input</p>
-                  <label className="block text-[11px] font-semibold text-slate-500 dark:text-slate-400 mt-2 mb-1">Weekly Target (km)</label>
+                  <label className="block text-[11px] font-semibold text-slate-500 dark:text-slate-400 mt-2 mb-1">Weekly Target ({distanceUnitLabel(profile.unit)})</label>
                   <input
                     type="range"
-                    min={20}
-                    max={180}
+                    min={Math.round(kmToDisplay(20, profile.unit))}
+                    max={Math.round(kmToDisplay(180, profile.unit))}
                     step={1}
-                    value={profile.weeklyVolume}
-                    onChange={(e) => setProfile((p) => ({ ...p, weeklyVolume: Number(e.target.value) || 0 }))}
+                    value={Math.round(kmToDisplay(profile.weeklyVolume, profile.unit))}
+                    name="weeklyVolume"
+                    onChange={handleDistanceChange}
                     className="w-full accent-norway-blue"
                   />
                   <p className="mt-2 text-xs text-slate-600 dark:text-slate-300">
-                    {Math.round(profile.weeklyVolume)} km target · ~{estimatedMinutesFromTarget} min
+                    {formatDistance(profile.weeklyVolume, profile.unit, 0)} target · ~{estimatedMinutesFromTarget} min
                   </p>
                 </div>
                 <button
@@ -957,19 +1367,89 @@ const App: React.FC = () => {
 
             {activeTab === 'plan' && plan && (
               <div className="animate-in fade-in slide-in-from-bottom-2 space-y-4">
+                {block.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto scrollbar-hide pb-1">
+                    {block.map((week, w) => (
+                      <button
+                        key={w}
+                        type="button"
+                        onClick={() => setActiveWeekIdx(w)}
+                        className={`shrink-0 px-3 py-2 rounded-xl border text-left transition-all ${activeWeekIdx === w ? 'bg-norway-blue dark:bg-sky-500 border-norway-blue dark:border-sky-500 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-norway-blue'}`}
+                      >
+                        <p className="text-xs font-bold">W{w + 1} · {getPlanDate(startDate, w, 0).slice(5)}</p>
+                        <p className={`text-[10px] font-semibold uppercase ${activeWeekIdx === w ? 'text-white/80' : week.phase === 'race' ? 'text-norway-red' : week.phase && week.phase !== 'build' ? 'text-teal-600 dark:text-teal-300' : 'text-slate-400'}`}>
+                          {PHASE_LABELS[week.phase || 'build']} · {formatDistance(week.totalDistance, profile.unit, 0)}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                  {(weatherLocations?.length || 0) > 0 ? (
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold uppercase text-[10px]">Week weather</span>
+                      <select
+                        value={weatherOverrides.weeks[activeWeekStartDate] || ''}
+                        onChange={(e) => updateWeatherOverrides((prev) => {
+                          const weeks = { ...prev.weeks };
+                          if (e.target.value) weeks[activeWeekStartDate] = e.target.value;
+                          else delete weeks[activeWeekStartDate];
+                          return { ...prev, weeks };
+                        })}
+                        className="px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg font-semibold text-slate-700 dark:text-slate-200"
+                      >
+                        <option value="">Default ({defaultWeatherLocationName})</option>
+                        {(weatherLocations || []).map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+                      </select>
+                    </div>
+                  ) : <span />}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {intervalsConfig.connected && activeWeekStartDate <= formatLocalDate(new Date()) && (
+                      <div className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-[10px] font-bold uppercase ${getComplianceTone(weekCompliance.score)}`}>
+                        <span>
+                          {weekCompliance.score !== undefined ? `Compliance ${weekCompliance.score}%` : 'Compliance'}
+                          {` · ${weekCompliance.done}/${weekCompliance.planned} done`}
+                          {weekCompliance.missed > 0 ? ` · ${weekCompliance.missed} missed` : ''}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => void handleLoadCompliance()}
+                          disabled={complianceLoading}
+                          className="opacity-70 hover:opacity-100 disabled:opacity-40"
+                          title="Match completed Intervals.icu activities to this week"
+                          aria-label="Refresh compliance"
+                        >
+                          <RefreshCw size={12} className={complianceLoading ? 'animate-spin' : ''} />
+                        </button>
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      onClick={handleDownloadWeek}
+                      className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-[10px] font-bold uppercase text-slate-600 dark:text-slate-300 hover:border-norway-blue"
+                      title="Zip of .fit workouts for this week"
+                    >
+                      <Download size={12} /> Download week (.zip)
+                    </button>
+                    {(['week', 'block'] as ScheduleScope[]).map((scope) => (
+                      <button
+                        key={scope}
+                        type="button"
+                        onClick={() => handleDownloadCalendar(scope)}
+                        className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-[10px] font-bold uppercase text-slate-600 dark:text-slate-300 hover:border-norway-blue"
+                        title={`Calendar file for this ${scope}; re-importing updates the same events`}
+                      >
+                        <CalendarDays size={12} /> {scope} (.ics)
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
                   <SortableContext items={plan.days.map((d) => `day-${d.day}`)} strategy={verticalListSortingStrategy}>
                     {plan.days.map((day, idx) => {
-                      const dayDate = parseLocalDate(startDate);
-                      dayDate.setDate(dayDate.getDate() + idx);
-                      const dayDateStr = formatLocalDate(dayDate);
-                      const dayForecast = forecastByDate[dayDateStr];
-                      const weatherDeltaSec = dayForecast
-                        ? getWeatherPaceDeltaSeconds(currentThreshold, dayForecast.temperatureC, dayForecast.humidityPct, dayForecast.windKmh)
-                        : 0;
-                      const dayPaceCorrection = day.session
-                        ? resolveSessionPaceCorrection(day.session, weatherDeltaSec)
-                        : weatherDeltaSec;
+                      const dayDateStr = getPlanDate(startDate, activeWeekIdx, idx);
+                      const dayForecast = getDayForecast(dayDateStr, activeWeekStartDate);
+                      const dayAltitudeM = getDayAltitudeM(dayDateStr, activeWeekStartDate);
                       return (
                       <SortableDayItem
                         key={day.day}
@@ -977,48 +1457,65 @@ const App: React.FC = () => {
                         dayLabel={WEEKDAY_ORDER[idx] || day.day}
                         day={day}
                         profile={profile}
-                        paceCorrectionSec={dayPaceCorrection}
+                        getPaceCorrectionSec={(session) => resolveSessionPaceCorrection(session, getSessionWeather(session, dayForecast)?.totalSec || 0, dayAltitudeM)}
+                        getAltitudeAdjustment={(session) => ({ altitudeM: dayAltitudeM, deltaSec: getSessionAltitudeDeltaSec(session, dayAltitudeM) })}
+                        getWeatherAdjustment={(session) => getSessionWeather(session, dayForecast)}
+                        getWeatherSlot={(session) => getSessionWeatherSlot(session, dayForecast)}
                         forecast={dayForecast}
-                        isSynced={!!day.session?.icuEventId}
-                        onSyncSession={async () => {
-                          if (!day.session) return;
+                        weatherOverride={weatherOverrides.days[dayDateStr]}
+                        onChangeWeatherOverride={(override) => updateWeatherOverrides((prev) => {
+                          const days = { ...prev.days };
+                          if (override) days[dayDateStr] = override;
+                          else delete days[dayDateStr];
+                          return { ...prev, days };
+                        })}
+                        onDownloadSession={(sessionIdx, format) => {
+                          const session = getDaySessions(day)[sessionIdx];
+                          if (session) downloadWorkoutFile(applySessionWeather(session, dayForecast, dayAltitudeM), dayDateStr, format, profile);
+                        }}
+                        onImportWorkoutFile={(file) => void handleImportWorkoutFile(idx, file)}
+                        compliance={getDaySessions(day).map((session) => compliance[getComplianceKey(dayDateStr, session)])}
+                        onLoadActivityIntervals={(activityId) => fetchIcuActivityIntervals(intervalsConfig, activityId)}
+                        onSyncSession={async (sessionIdx) => {
+                          const session = getDaySessions(day)[sessionIdx];
+                          if (!session) return;
                           if (!intervalsConfig.connected) {
                             if (!isAuthenticated) return;
                             setShowIntervalsModal(true);
                             return;
                           }
-                          const targetDate = parseLocalDate(startDate);
-                          targetDate.setDate(targetDate.getDate() + idx);
-                          const dateStr = formatLocalDate(targetDate);
-                          const dayForecast = forecastByDate[dateStr];
-                          const weatherDeltaSec = dayForecast
-                            ? getWeatherPaceDeltaSeconds(currentThreshold, dayForecast.temperatureC, dayForecast.humidityPct, dayForecast.windKmh)
-                            : 0;
-                          const correctedSession = applyDayWeatherToSession(day.session, weatherDeltaSec);
-                          const result = await syncWorkoutToIcu(intervalsConfig, correctedSession, dateStr);
+                          const dateStr = dayDateStr;
+                          const sessionLabel = `${WEEKDAY_ORDER[idx] || day.day}${session.startTime ? ` ${session.startTime}` : ''}`;
+                          const correctedSession = applySessionWeather(session, dayForecast, dayAltitudeM);
+                          const result = await syncWorkoutToIcu(intervalsConfig, correctedSession, dateStr, profile.unit);
                           if (result.ok && result.eventId) {
                             const newDays = [...plan.days];
-                            newDays[idx].session = { ...correctedSession, icuEventId: result.eventId };
+                            newDays[idx] = withDaySession(newDays[idx], sessionIdx, { ...session, icuEventId: result.eventId });
                             setPlan({ ...plan, days: newDays });
                             setSyncStatus('success');
-                            setSyncMessage(`${WEEKDAY_ORDER[idx] || day.day} synced to Intervals.icu.`);
+                            setSyncMessage(`${sessionLabel} synced to Intervals.icu.`);
                             setTimeout(() => {
                               setSyncStatus('idle');
                               setSyncMessage('');
                             }, 4000);
                           } else {
                             setSyncStatus('error');
-                            setSyncMessage(`Failed to sync ${WEEKDAY_ORDER[idx] || day.day}: ${result.error || 'unknown error'}`);
+                            setSyncMessage(`Failed to sync ${sessionLabel}: ${result.error || 'unknown error'}`);
                           }
                         }}
-                        onUpdateSession={(updated: WorkoutSession) => {
+                        onUpdateSession={(updated: WorkoutSession, sessionIdx: number) => {
                           const newDays = [...plan.days];
-                          const existingEventId = day.session?.icuEventId;
-                          newDays[idx].session = existingEventId
+                          const existingEventId = getDaySessions(day)[sessionIdx]?.icuEventId;
+                          newDays[idx] = withDaySession(newDays[idx], sessionIdx, existingEventId
                             ? { ...updated, icuEventId: existingEventId }
-                            : updated;
+                            : updated);
                           setPlan({ ...plan, days: newDays });
                         }}
+                        date={dayDateStr}
+                        lactateReadings={lactateReadings}
+                        onAddLactateReading={(reading) => updateLactateReadings((prev) => [...prev, reading])}
+                        onRemoveLactateReading={(id) => updateLactateReadings((prev) => prev.filter((r) => r.id !== id))}
+                        onWriteLactateToIcu={intervalsConfig.connected ? (session, sessionIdx) => void handleWriteLactateToIcu(session, sessionIdx, dayDateStr) : undefined}
                       />
                     )})}
                   </SortableContext>
@@ -1034,7 +1531,7 @@ const App: React.FC = () => {
 
             {activeTab === 'insights' && (
               <div className="animate-in fade-in slide-in-from-bottom-2">
-                <InsightsPortal intervalsConfig={intervalsConfig} active={activeTab === 'insights'} targetSubthresholdPct={subThresholdPct} />
+                <InsightsPortal intervalsConfig={intervalsConfig} active={activeTab === 'insights'} targetSubthresholdPct={subThresholdPct} unit={profile.unit} profile={profile} onUpdateProfile={(patch) => applyProfile({ ...profile, ...patch })} />
               </div>
             )}
 
@@ -1059,45 +1556,194 @@ const App: React.FC = () => {
                                 <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">5K Time (M:S)</label>
                                 <input type="text" value={profile.raceTime} onChange={(e) => setProfile(p => ({...p, raceTime: e.target.value}))} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-slate-900 dark:text-slate-100" />
                                 <p className="mt-2 text-xs text-slate-600 dark:text-slate-300">
-                                  Your threshold pace is <span className="font-bold">{secondsToTime(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile))}/km</span>
+                                  Your threshold pace is <span className="font-bold">{formatPace(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile), profile.unit)}{paceUnitLabel(profile.unit)}</span>
                                 </p>
+                                {getPaceOffsetSec(profile) !== 0 && (
+                                  <div className="mt-2 flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                                    <span>Includes a calibration offset of {getPaceOffsetSec(profile) > 0 ? '+' : ''}{Math.round(paceToDisplaySec(getPaceOffsetSec(profile), profile.unit))}s{paceUnitLabel(profile.unit)}.</span>
+                                    <button
+                                      type="button"
+                                      onClick={() => setProfile((p) => ({ ...p, paceOffsetSec: undefined }))}
+                                      className="px-2 py-1 rounded-lg text-[10px] font-bold uppercase text-slate-500 dark:text-slate-300 border border-slate-200 dark:border-slate-700"
+                                    >
+                                      Clear
+                                    </button>
+                                  </div>
+                                )}
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Race Prediction</label>
+                                <div className="grid grid-cols-2 gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+                                  {(Object.keys(PREDICTION_MODEL_LABELS) as RacePredictionModel[]).map((model) => (
+                                    <button
+                                      key={model}
+                                      type="button"
+                                      onClick={() => setProfile((p) => ({ ...p, predictionModel: model === 'riegel' ? undefined : model }))}
+                                      className={`px-2.5 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${(profile.predictionModel || 'riegel') === model ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                                    >
+                                      {PREDICTION_MODEL_LABELS[model]}
+                                    </button>
+                                  ))}
+                                </div>
+                                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">{describePredictionModel(profile)} Also sets the 60-minute threshold anchor for training paces.</p>
                             </div>
                         </div>
 
                         <div className="space-y-6">
                             <h4 className="text-xs font-bold text-slate-400 dark:text-slate-400 uppercase tracking-widest border-b border-slate-200 dark:border-slate-700 pb-2">Volume Settings</h4>
                             <div>
-                                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Weekly Target (km)</label>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Units</label>
+                                <div className="inline-flex gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+                                  {[DistanceUnit.KM, DistanceUnit.MILES].map((unit) => (
+                                    <button
+                                      key={unit}
+                                      type="button"
+                                      onClick={() => setProfile((p) => ({ ...p, unit }))}
+                                      className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${profile.unit === unit ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                                    >
+                                      {unit === DistanceUnit.KM ? 'Kilometers' : 'Miles'}
+                                    </button>
+                                  ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Weekly Target ({distanceUnitLabel(profile.unit)})</label>
                                 <div className="space-y-2">
                                   <input
                                     type="range"
-                                    min={20}
-                                    max={180}
+                                    min={Math.round(kmToDisplay(20, profile.unit))}
+                                    max={Math.round(kmToDisplay(180, profile.unit))}
                                     step={1}
-                                    value={profile.weeklyVolume}
-                                    onChange={(e) => setProfile((p) => ({ ...p, weeklyVolume: Number(e.target.value) || 0 }))}
+                                    value={Math.round(kmToDisplay(profile.weeklyVolume, profile.unit))}
+                                    name="weeklyVolume"
+                                    onChange={handleDistanceChange}
                                     className="w-full accent-norway-blue"
                                   />
                                   <div className="flex items-center gap-2">
-                                    <input type="number" name="weeklyVolume" value={profile.weeklyVolume} onChange={handleNumberChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-slate-900 dark:text-slate-100" />
+                                    <input type="number" name="weeklyVolume" value={toDisplayInput(profile.weeklyVolume)} onChange={handleDistanceChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-slate-900 dark:text-slate-100" />
                                     <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
                                       ~{estimatedMinutesFromTarget} min
                                     </span>
                                   </div>
                                 </div>
                             </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Training Block (weeks)</label>
+                                <div className="flex items-center gap-2">
+                                  <input
+                                    type="number"
+                                    min={MIN_BLOCK_WEEKS}
+                                    max={MAX_BLOCK_WEEKS}
+                                    value={profile.blockWeeks === 0 ? '' : profile.blockWeeks ?? DEFAULT_BLOCK_WEEKS}
+                                    onChange={(e) => setProfile((p) => ({ ...p, blockWeeks: Math.round(Number(e.target.value)) || 0 }))}
+                                    onBlur={() => setProfile((p) => ({ ...p, blockWeeks: normalizeBlockWeeks(p.blockWeeks || DEFAULT_BLOCK_WEEKS) }))}
+                                    className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-slate-900 dark:text-slate-100"
+                                  />
+                                  <div className="flex gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+                                    {[3, 4].map((n) => (
+                                      <button
+                                        key={n}
+                                        type="button"
+                                        onClick={() => setProfile((p) => ({ ...p, deloadEvery: n }))}
+                                        className={`px-2.5 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${(profile.deloadEvery ?? DEFAULT_DELOAD_EVERY) === n ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                                      >
+                                        {n - 1}:1
+                                      </button>
+                                    ))}
+                                  </div>
+                                </div>
+                                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Deload every {profile.deloadEvery ?? DEFAULT_DELOAD_EVERY} weeks. Threshold reps build gradually between deloads.</p>
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Goal Race (Optional)</label>
+                                <div className="space-y-2">
+                                  <div className="flex items-center gap-2">
+                                    <input
+                                      type="date"
+                                      value={profile.goalRace?.date || ''}
+                                      onChange={(e) => setProfile((p) => ({
+                                        ...p,
+                                        goalRace: e.target.value
+                                          ? { distance: 21097, priority: 'A', ...p.goalRace, date: e.target.value }
+                                          : undefined,
+                                      }))}
+                                      className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-slate-900 dark:text-slate-100"
+                                    />
+                                    {profile.goalRace && (
+                                      <button
+                                        type="button"
+                                        onClick={() => setProfile((p) => ({ ...p, goalRace: undefined }))}
+                                        className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase text-slate-500 dark:text-slate-300 border border-slate-200 dark:border-slate-700"
+                                      >
+                                        Clear
+                                      </button>
+                                    )}
+                                  </div>
+                                  {profile.goalRace && (
+                                    <>
+                                      <div className="flex flex-wrap gap-2">
+                                        <div className="flex gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+                                          {GOAL_RACE_DISTANCES.map((opt) => (
+                                            <button
+                                              key={opt.dist}
+                                              type="button"
+                                              onClick={() => setProfile((p) => (p.goalRace ? { ...p, goalRace: { ...p.goalRace, distance: opt.dist } } : p))}
+                                              className={`px-2.5 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${profile.goalRace?.distance === opt.dist ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                                            >
+                                              {opt.label}
+                                            </button>
+                                          ))}
+                                        </div>
+                                        <div className="flex gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+                                          {(['A', 'B', 'C'] as RacePriority[]).map((priority) => (
+                                            <button
+                                              key={priority}
+                                              type="button"
+                                              onClick={() => setProfile((p) => (p.goalRace ? { ...p, goalRace: { ...p.goalRace, priority } } : p))}
+                                              className={`px-2.5 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${profile.goalRace?.priority === priority ? 'bg-norway-red text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                                            >
+                                              {priority}
+                                            </button>
+                                          ))}
+                                        </div>
+                                      </div>
+                                      <input
+                                        type="text"
+                                        placeholder="Race name"
+                                        value={profile.goalRace.name || ''}
+                                        onChange={(e) => setProfile((p) => (p.goalRace ? { ...p, goalRace: { ...p.goalRace, name: e.target.value || undefined } } : p))}
+                                        className="w-full p-3 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl text-sm font-semibold text-slate-900 dark:text-slate-100"
+                                      />
+                                      {(() => {
+                                        const timeline = getGoalRaceTimeline(profile.goalRace, startDate);
+                                        if (!timeline) {
+                                          return <p className="text-xs text-norway-red">Race date must fall on or after the block start ({startDate}).</p>;
+                                        }
+                                        if (timeline.raceWeekIndex >= MAX_BLOCK_WEEKS) {
+                                          return <p className="text-xs text-slate-500 dark:text-slate-400">Race is more than {MAX_BLOCK_WEEKS} weeks out; taper will be added once it is in range.</p>;
+                                        }
+                                        return (
+                                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            Race in week {timeline.raceWeekIndex + 1}. {timeline.taperWeeks}-week taper before race week, {timeline.recoveryWeeks}-week recovery afterwards.
+                                          </p>
+                                        );
+                                      })()}
+                                    </>
+                                  )}
+                                </div>
+                            </div>
                             <div>
                                 <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">FTP (Optional)</label>
                                 <input type="number" name="ftp" value={profile.ftp || 0} onChange={handleNumberChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-slate-900 dark:text-slate-100" />
                             </div>
                             <div className="flex gap-2">
                                 <div className="w-1/2">
-                                  <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Warmup (km)</label>
-                                  <input type="number" name="warmupDist" value={profile.warmupDist} onChange={handleNumberChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-center text-slate-900 dark:text-slate-100" />
+                                  <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Warmup ({distanceUnitLabel(profile.unit)})</label>
+                                  <input type="number" name="warmupDist" value={toDisplayInput(profile.warmupDist)} onChange={handleDistanceChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-center text-slate-900 dark:text-slate-100" />
                                 </div>
                                 <div className="w-1/2">
-                                  <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Cooldown (km)</label>
-                                  <input type="number" name="cooldownDist" value={profile.cooldownDist} onChange={handleNumberChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-center text-slate-900 dark:text-slate-100" />
+                                  <label className="block text-[10px] font-bold text-slate-400 uppercase mb-2 ml-1">Cooldown ({distanceUnitLabel(profile.unit)})</label>
+                                  <input type="number" name="cooldownDist" value={toDisplayInput(profile.cooldownDist)} onChange={handleDistanceChange} className="w-full p-4 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl font-bold text-center text-slate-900 dark:text-slate-100" />
                                 </div>
                             </div>
                         </div>
@@ -1127,7 +1773,7 @@ const App: React.FC = () => {
                                       <div className="text-[10px] font-semibold uppercase text-slate-400 dark:text-slate-500">Rest</div>
                                     )}
                                     <div className="flex gap-1 overflow-x-auto scrollbar-hide">
-                                        {[DayType.REST, DayType.EASY, DayType.THRESHOLD, DayType.LONG_RUN].map(type => (
+                                        {[DayType.REST, DayType.EASY, DayType.THRESHOLD, DayType.DOUBLE_THRESHOLD, DayType.LONG_RUN].map(type => (
                                             <button 
                                               key={type} 
                                               onClick={() => setProfile(p => ({ ...p, schedule: { ...p.schedule, [day]: type } }))}
@@ -1137,6 +1783,7 @@ const App: React.FC = () => {
                                                   const sport = profile.scheduleSport?.[day] || 'run';
                                                   if (type === DayType.EASY) return sport === 'bike' ? 'Easy Ride' : 'Easy Run';
                                                   if (type === DayType.THRESHOLD) return sport === 'bike' ? 'SubT Bike' : 'SubT';
+                                                  if (type === DayType.DOUBLE_THRESHOLD) return sport === 'bike' ? 'AM/PM Bike' : 'AM/PM SubT';
                                                   if (type === DayType.LONG_RUN) return sport === 'bike' ? 'Long Ride' : 'Long Run';
                                                   return 'Rest';
                                                 })()}
@@ -1148,6 +1795,91 @@ const App: React.FC = () => {
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">Recent Results</label>
+                        <p className="mb-4 ml-1 text-xs text-slate-500 dark:text-slate-400">Dated races and time trials are fitted together with your 5K for critical speed. Older results count for less.</p>
+                        <BenchmarkResultsEditor
+                          profile={profile}
+                          onChange={(benchmarkResults) => setProfile((p) => ({ ...p, benchmarkResults }))}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">Weather Locations</label>
+                        <p className="mb-4 ml-1 text-xs text-slate-500 dark:text-slate-400">Forecasts come from the selected default. Weeks and days can override it on the plan, and forecasts are cached for offline use.</p>
+                        <WeatherLocationsEditor
+                          profile={profile}
+                          onChange={(patch) => setProfile((p) => ({ ...p, ...patch }))}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">Treadmills</label>
+                        <p className="mb-4 ml-1 text-xs text-slate-500 dark:text-slate-400">Treadmill sessions show console speeds in this unit. Enter how much faster (+) or slower (−) each belt runs than its display.</p>
+                        <TreadmillSettingsEditor
+                          profile={profile}
+                          onChange={(patch) => setProfile((p) => ({ ...p, ...patch }))}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">Lactate-Guided Mode</label>
+                        <p className="mb-4 ml-1 text-xs text-slate-500 dark:text-slate-400">Log readings on threshold sessions. Later sessions suggest pace changes when readings leave the target band.</p>
+                        <div className="flex flex-wrap items-center gap-3">
+                          <div className="inline-flex gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+                            {[false, true].map((enabled) => (
+                              <button
+                                key={String(enabled)}
+                                type="button"
+                                onClick={() => setProfile((p) => ({ ...p, lactateMode: enabled || undefined }))}
+                                className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${!!profile.lactateMode === enabled ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                              >
+                                {enabled ? 'On' : 'Off'}
+                              </button>
+                            ))}
+                          </div>
+                          {profile.lactateMode && (
+                            <>
+                              <div className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                                {(['low', 'high'] as const).map((bound) => (
+                                  <input
+                                    key={bound}
+                                    type="number"
+                                    min={0.5}
+                                    max={8}
+                                    step={0.1}
+                                    value={profile.lactateTarget?.[bound] ?? DEFAULT_LACTATE_TARGET[bound]}
+                                    onChange={(e) => setProfile((p) => ({
+                                      ...p,
+                                      lactateTarget: { ...DEFAULT_LACTATE_TARGET, ...p.lactateTarget, [bound]: Number(e.target.value) || DEFAULT_LACTATE_TARGET[bound] },
+                                    }))}
+                                    className="w-16 px-2 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl font-bold text-center text-slate-900 dark:text-slate-100"
+                                    aria-label={`Lactate target ${bound}`}
+                                  />
+                                ))}
+                                <span>mmol/L</span>
+                              </div>
+                              <input
+                                type="text"
+                                value={profile.lactateIcuField || ''}
+                                placeholder="Intervals.icu field code (optional)"
+                                onChange={(e) => setProfile((p) => ({ ...p, lactateIcuField: e.target.value.trim() || undefined }))}
+                                className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl text-xs text-slate-900 dark:text-slate-100"
+                              />
+                            </>
+                          )}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">Threshold Sessions</label>
+                        <p className="mb-4 ml-1 text-xs text-slate-500 dark:text-slate-400">Threshold days rotate through these templates in order. Times are in seconds, distances in meters.</p>
+                        <ThresholdTemplateEditor
+                          templates={profile.thresholdTemplates}
+                          onChange={(thresholdTemplates) => setProfile((p) => ({ ...p, thresholdTemplates }))}
+                        />
+                    </div>
+
                     <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50/90 dark:bg-slate-800/80 p-4 text-sm text-slate-600 dark:text-slate-300">
                       <p className="font-semibold text-slate-800 dark:text-slate-100">How to use NorskFlow</p>
                       <ol className="mt-2 space-y-1 list-decimal list-inside">
@@ -1155,7 +1887,7 @@ const App: React.FC = () => {
                         <li>For each day, choose session type first. If not Rest, choose Run or Bike.</li>
                         <li>Generate the plan, then adjust workout details directly on each card.</li>
                         <li>Select surface/environment per card (road, trail, treadmill, stationary bike).</li>
-                        <li>Sync single days or schedule the full week to Intervals.icu for Garmin.</li>
+                        <li>Sync single days or schedule the week or the whole block to Intervals.icu for Garmin.</li>
                       </ol>
                     </div>
 
@@ -1195,10 +1927,21 @@ const App: React.FC = () => {
       />
       <ScheduleWeekModal
         isOpen={showScheduleWeekModal}
-        initialDate={startDate}
+        initialWeekDate={getPlanDate(startDate, activeWeekIdx, 0)}
+        initialBlockDate={startDate}
+        weekNumber={activeWeekIdx + 1}
+        blockWeeks={block.length}
         isScheduling={syncStatus === 'syncing'}
         onClose={() => setShowScheduleWeekModal(false)}
-        onConfirm={handleSyncEntireWeekToIcu}
+        onConfirm={(date, scope) => handleScheduleToIcu(date, scope)}
+      />
+      <SyncPreviewModal
+        isOpen={!!syncPreview}
+        rangeLabel={syncPreview?.rangeLabel || ''}
+        changes={syncPreview?.changes || []}
+        isSending={syncStatus === 'syncing'}
+        onClose={() => setSyncPreview(null)}
+        onConfirm={() => void handleConfirmSchedule()}
       />
     </div>
   );
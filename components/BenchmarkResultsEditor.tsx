@@ -0,0 +1,95 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { BenchmarkResult, UserProfile } from '../types';
+import { fitCriticalSpeed, formatLocalDate, formatRaceDistanceLabel, secondsToTime } from '../utils/calculations';
+import { formatPace, paceUnitLabel } from '../utils/units';
+
+interface BenchmarkResultsEditorProps {
+  profile: UserProfile;
+  onChange: (results: BenchmarkResult[] | undefined) => void;
+}
+
+const DISTANCE_OPTIONS = [1500, 1609, 3000, 5000, 8000, 10000, 15000, 21097];
+
+const newResultId = (): string => `bm-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const BenchmarkResultsEditor: React.FC<BenchmarkResultsEditorProps> = ({ profile, onChange }) => {
+  const results = profile.benchmarkResults || [];
+  const fit = fitCriticalSpeed(profile);
+
+  const updateResult = (idx: number, patch: Partial<BenchmarkResult>) => {
+    onChange(results.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+  };
+  const removeResult = (idx: number) => {
+    const next = results.filter((_, i) => i !== idx);
+    onChange(next.length ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      {results.map((result, idx) => (
+        <div key={result.id} className="flex flex-wrap items-center gap-1.5 text-xs">
+          <input
+            type="date"
+            value={result.date}
+            onChange={(e) => updateResult(idx, { date: e.target.value })}
+            className="px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-semibold text-slate-900 dark:text-slate-100"
+            aria-label="Result date"
+          />
+          <select
+            value={result.distance}
+            onChange={(e) => updateResult(idx, { distance: Number(e.target.value) })}
+            className="px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-semibold text-slate-700 dark:text-slate-200"
+            aria-label="Result distance"
+          >
+            {DISTANCE_OPTIONS.map((d) => <option key={d} value={d}>{formatRaceDistanceLabel(d)}</option>)}
+          </select>
+          <input
+            type="text"
+            value={result.time}
+            placeholder="M:SS"
+            onChange={(e) => updateResult(idx, { time: e.target.value })}
+            className="w-20 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-bold text-center text-slate-900 dark:text-slate-100"
+            aria-label="Result time"
+          />
+          <input
+            type="text"
+            value={result.label || ''}
+            placeholder="Label (optional)"
+            onChange={(e) => updateResult(idx, { label: e.target.value || undefined })}
+            className="flex-1 min-w-[8rem] px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg text-slate-900 dark:text-slate-100"
+            aria-label="Result label"
+          />
+          <button type="button" onClick={() => removeResult(idx)} className="p-1.5 text-slate-400 hover:text-norway-red" aria-label="Remove result">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...results, { id: newResultId(), date: formatLocalDate(new Date()), distance: 3000, time: '' }])}
+        className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+      >
+        <Plus size={12} /> Add result
+      </button>
+
+      <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 p-3 text-xs text-slate-600 dark:text-slate-300 space-y-1">
+        <p className="font-semibold text-slate-800 dark:text-slate-100">
+          {fit.cs > 0
+            ? `Critical speed ${formatPace(1000 / fit.cs, profile.unit)}${paceUnitLabel(profile.unit)} · D′ ${Math.round(fit.dPrime)}m`
+            : 'Using the main benchmark only (needs two consistent results between 2 and 45 minutes).'}
+        </p>
+        {fit.points.map((point) => (
+          <div key={point.id} className="flex items-center justify-between gap-2">
+            <span>{point.label} · {point.date || 'current'} · {point.timeSec > 0 ? secondsToTime(point.timeSec) : '—'}</span>
+            <span className={point.weight > 0 ? 'font-bold text-norway-blue dark:text-sky-300' : 'text-slate-400'}>
+              {point.weight > 0 ? `${fit.cs > 0 ? 'Used' : 'Usable'} · ${Math.round(point.weight * 100)}%` : point.excludedReason}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkResultsEditor;
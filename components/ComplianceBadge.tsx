@@ -0,0 +1,43 @@
+import React from 'react';
+import { CheckCircle2, CircleSlash } from 'lucide-react';
+import { getComplianceTone, SessionCompliance } from '../utils/compliance';
+import { DistanceUnit } from '../types';
+import { formatDistance } from '../utils/units';
+import { secondsToTime } from '../utils/calculations';
+
+interface ComplianceBadgeProps {
+  compliance: SessionCompliance;
+  unit: DistanceUnit;
+}
+
+const ComplianceBadge: React.FC<ComplianceBadgeProps> = ({ compliance, unit }) => {
+  if (compliance.status === 'pending') return null;
+  if (compliance.status === 'missed') {
+    return (
+      <div className={`inline-flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-[10px] font-bold uppercase ${getComplianceTone(0)}`}>
+        <CircleSlash size={12} /> Missed
+      </div>
+    );
+  }
+  const metrics = [
+    compliance.durationPct !== undefined ? `Time ${compliance.durationPct}%` : '',
+    compliance.distancePct !== undefined ? `Dist ${compliance.distancePct}%` : '',
+    compliance.inBandPct !== undefined ? `In band ${compliance.inBandPct}%` : '',
+  ].filter(Boolean);
+  return (
+    <div
+      className={`inline-flex flex-wrap items-center gap-x-2 gap-y-0.5 rounded-full border px-2.5 py-1 text-[10px] font-semibold ${getComplianceTone(compliance.score)}`}
+      title={compliance.activityName ? `Matched: ${compliance.activityName}` : undefined}
+    >
+      <span className="inline-flex items-center gap-1 font-bold uppercase">
+        <CheckCircle2 size={12} /> {compliance.score !== undefined ? `${compliance.score}%` : 'Done'}
+      </span>
+      {compliance.actualSec !== undefined && compliance.actualSec > 0 && (
+        <span>{secondsToTime(compliance.actualSec)}{compliance.actualM ? ` · ${formatDistance(compliance.actualM / 1000, unit)}` : ''}</span>
+      )}
+      {metrics.map((m) => <span key={m} className="opacity-80">{m}</span>)}
+    </div>
+  );
+};
+
+export default ComplianceBadge;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { DayWeatherOverride, DistanceUnit, ManualWeather, WeatherLocation } from '../types';
+import { displayToKm, kmToDisplay, speedUnitLabel } from '../utils/units';
+
+interface DayWeatherControlsProps {
+  locations: WeatherLocation[];
+  override?: DayWeatherOverride;
+  unit?: DistanceUnit;
+  onChange: (override: DayWeatherOverride | undefined) => void;
+}
+
+const DEFAULT_MANUAL_WEATHER: ManualWeather = { temperatureC: 15, humidityPct: 60, windKmh: 10 };
+
+const DayWeatherControls: React.FC<DayWeatherControlsProps> = ({ locations, override, unit, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const locationName = locations.find((l) => l.id === override?.locationId)?.name;
+  const manual = override?.manual;
+  const summary = manual
+    ? `Manual ${Math.round(manual.temperatureC)}C · ${Math.round(manual.humidityPct)}% · ${Math.round(kmToDisplay(manual.windKmh, unit))} ${speedUnitLabel(unit)}`
+    : locationName || 'Default location';
+
+  const update = (patch: Partial<DayWeatherOverride>) => {
+    const next = { ...override, ...patch };
+    onChange(next.locationId || next.manual ? next : undefined);
+  };
+  const updateManual = (patch: Partial<ManualWeather>) => update({ manual: { ...DEFAULT_MANUAL_WEATHER, ...manual, ...patch } });
+
+  return (
+    <div className="px-2 text-xs text-slate-500 dark:text-slate-400">
+      <button type="button" onClick={() => setOpen((v) => !v)} className="inline-flex items-center gap-1.5 hover:text-norway-blue dark:hover:text-sky-300">
+        <MapPin size={12} /> Weather: {summary}
+      </button>
+      {open && (
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          <select
+            value={override?.locationId || ''}
+            onChange={(e) => update({ locationId: e.target.value || undefined })}
+            className="px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-semibold text-slate-700 dark:text-slate-200"
+            aria-label="Weather location for this day"
+          >
+            <option value="">Week / default location</option>
+            {locations.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+          <label className="inline-flex items-center gap-1">
+            <input type="checkbox" checked={!!manual} onChange={(e) => update({ manual: e.target.checked ? DEFAULT_MANUAL_WEATHER : undefined })} />
+            Manual
+          </label>
+          {manual && (
+            <>
+              <input
+                type="number"
+                value={manual.temperatureC}
+                onChange={(e) => updateManual({ temperatureC: Number(e.target.value) || 0 })}
+                className="w-16 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg text-center text-slate-900 dark:text-slate-100"
+                aria-label="Temperature (C)"
+              />
+              <span>C</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={manual.humidityPct}
+                onChange={(e) => updateManual({ humidityPct: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                className="w-16 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg text-center text-slate-900 dark:text-slate-100"
+                aria-label="Humidity (%)"
+              />
+              <span>%</span>
+              <input
+                type="number"
+                min={0}
+                value={Math.round(kmToDisplay(manual.windKmh, unit))}
+                onChange={(e) => updateManual({ windKmh: Math.max(0, displayToKm(Number(e.target.value) || 0, unit)) })}
+                className="w-16 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg text-center text-slate-900 dark:text-slate-100"
+                aria-label={`Wind (${speedUnitLabel(unit)})`}
+              />
+              <span>{speedUnitLabel(unit)}</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DayWeatherControls;
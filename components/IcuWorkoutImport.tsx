@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardPaste } from 'lucide-react';
+import { DistanceUnit, WorkoutSession } from '../types';
+import { formatDistance } from '../utils/units';
+import { parseIcuWorkoutText } from '../utils/icuWorkoutText';
+
+interface IcuWorkoutImportProps {
+  session: WorkoutSession;
+  unit: DistanceUnit;
+  ftp?: number;
+  onApply: (session: WorkoutSession) => void;
+}
+
+const IcuWorkoutImport: React.FC<IcuWorkoutImportProps> = ({ session, unit, ftp, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const parsed = useMemo(() => (text.trim() ? parseIcuWorkoutText(text, { id: session.id, ftp }) : null), [text, session.id, ftp]);
+
+  const apply = () => {
+    if (!parsed) return;
+    // Keep the slot's context (surface, start time, treadmill) and replace the workout itself.
+    onApply({
+      ...parsed.session,
+      environment: parsed.session.sport === 'bike' ? 'road' : session.environment,
+      treadmillInclinePct: session.treadmillInclinePct,
+      treadmillId: session.treadmillId,
+      startTime: session.startTime,
+    });
+    setText('');
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-1.5 text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400 hover:text-norway-blue dark:hover:text-sky-300"
+      >
+        <ClipboardPaste size={12} /> Paste Intervals.icu workout
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50/80 dark:bg-slate-800/60 p-3 space-y-2">
+      <p className="inline-flex items-center gap-1.5 text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">
+        <ClipboardPaste size={12} /> Intervals.icu workout text
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={5}
+        placeholder={'Threshold\n\nWu 2km easy run; 5x[2km @ 4:10-4:20/km run / 60s recovery]; Cd 1km easy run'}
+        className="w-full px-2.5 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg font-mono text-xs text-slate-900 dark:text-slate-100"
+        aria-label="Intervals.icu workout text"
+      />
+      {text.trim() && (
+        <div className="text-xs text-slate-600 dark:text-slate-300">
+          {!parsed ? (
+            <span className="text-amber-600 dark:text-amber-300">No workout steps found</span>
+          ) : (
+            <>
+              <span className="font-semibold">{parsed.session.title}</span>
+              <span className="mx-2 text-slate-400">·</span>
+              <span>{parsed.session.type} · {formatDistance(parsed.session.distance, unit)} · ~{parsed.session.duration} min</span>
+              {parsed.skipped.length > 0 && (
+                <p className="mt-0.5 text-[11px] text-amber-600 dark:text-amber-300">Skipped: {parsed.skipped.join(' · ')}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      <div className="flex justify-end gap-1.5">
+        <button
+          type="button"
+          onClick={() => { setText(''); setOpen(false); }}
+          className="px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={!parsed}
+          onClick={apply}
+          className="px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase bg-norway-blue dark:bg-sky-500 text-white disabled:opacity-40"
+        >
+          Replace session
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IcuWorkoutImport;
@@ -1,13 +1,19 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { RefreshCw, Activity, HeartPulse, GaugeCircle, Timer, Zap } from 'lucide-react';
-import { IntervalsIcuConfig } from '../types';
-import { InsightsDataset, InsightsRangeKey, RunningEconomyPoint, RecoveryPoint, ThresholdProgressPoint, filterByRange, loadInsightsDataset, rangeToDays } from '../services/intervalsInsightsService';
-import { secondsToTime } from '../utils/calculations';
+import { DistanceUnit, IntervalsIcuConfig, UserProfile } from '../types';
+import { InsightsDataset, InsightsRangeKey, LocalInsightsData, RunningEconomyPoint, RecoveryPoint, ThresholdProgressPoint, filterByRange, loadInsightsDataset, rangeToDays } from '../services/intervalsInsightsService';
+import { EMPTY_LOCAL_INSIGHTS, importLocalInsightsFiles, loadLocalInsightsData, mergeLocalInsightsData, saveLocalInsightsData } from '../services/localActivityService';
+import { formatPace, kmToDisplay, paceUnitLabel, speedUnitLabel } from '../utils/units';
+import ThresholdCalibrationCard from './ThresholdCalibrationCard';
+import LocalActivityImportCard from './LocalActivityImportCard';
 
 interface InsightsPortalProps {
   intervalsConfig: IntervalsIcuConfig;
   active: boolean;
   targetSubthresholdPct?: number;
+  unit?: DistanceUnit;
+  profile?: UserProfile;
+  onUpdateProfile?: (patch: Partial<UserProfile>) => void;
 }
 
 type ChartSeries = {
@@ -133,7 +139,7 @@ const MiniLineChart: React.FC<{
   );
 };
 
-const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active, targetSubthresholdPct }) => {
+const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active, targetSubthresholdPct, unit = DistanceUnit.KM, profile, onUpdateProfile }) => {
   const [dataset, setDataset] = useState<InsightsDataset | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
@@ -145,12 +151,25 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
     [economyRange, recoveryRange, thresholdRange]
   );
 
+  const [localData, setLocalData] = useState<LocalInsightsData>(() => loadLocalInsightsData(profile?.uid));
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState('');
+  const hasLocalData = localData.activities.length > 0 || localData.wellness.length > 0;
+  const hasSource = intervalsConfig.connected || hasLocalData;
+
+  useEffect(() => {
+    setLocalData(loadLocalInsightsData(profile?.uid));
+  }, [profile?.uid]);
+
   const loadData = async () => {
-    if (!intervalsConfig.connected) return;
+    if (!hasSource) {
+      setDataset(null);
+      return;
+    }
     setLoading(true);
     setError('');
     try {
-      const next = await loadInsightsDataset(intervalsConfig, lookbackDays);
+      const next = await loadInsightsDataset(intervalsConfig, lookbackDays, localData);
       setDataset(next);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load insights');
@@ -160,9 +179,38 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
   };
 
   useEffect(() => {
-    if (!active || !intervalsConfig.connected) return;
+    if (!active) return;
     void loadData();
-  }, [active, intervalsConfig.connected, intervalsConfig.apiKey, intervalsConfig.athleteId, lookbackDays]);
+  }, [active, intervalsConfig.connected, intervalsConfig.apiKey, intervalsConfig.athleteId, lookbackDays, localData]);
+
+  const updateLocalData = (next: LocalInsightsData) => {
+    setLocalData(next);
+    saveLocalInsightsData(profile?.uid, next);
+  };
+
+  const handleImportFiles = async (files: File[]) => {
+    setImporting(true);
+    const { data, failed } = await importLocalInsightsFiles(files);
+    updateLocalData(mergeLocalInsightsData(localData, data));
+    setImportMessage([
+      `Imported ${data.activities.length} activities, ${data.wellness.length} wellness days.`,
+      failed.length ? `Could not read: ${failed.join(', ')}.` : '',
+    ].filter(Boolean).join(' '));
+    setImporting(false);
+  };
+
+  const localImportCard = (
+    <LocalActivityImportCard
+      data={localData}
+      busy={importing}
+      message={importMessage}
+      onImport={(files) => void handleImportFiles(files)}
+      onClear={() => {
+        updateLocalData(EMPTY_LOCAL_INSIGHTS);
+        setImportMessage('');
+      }}
+    />
+  );
 
   const economyRows = useMemo(() => {
     if (!dataset) return [] as RunningEconomyPoint[];
@@ -194,7 +242,7 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
   const latestRecovery = recoveryRows.length ? recoveryRows[recoveryRows.length - 1] : null;
   const latestThreshold = scoredThresholdRows.length ? scoredThresholdRows[scoredThresholdRows.length - 1] : null;
   const smoothedEconomy = useMemo(() => smoothSeries(economyRows.map((r) => r.economyScore), 7), [economyRows]);
-  const smoothedThresholdSpeed = useMemo(() => smoothSeries(scoredThresholdRows.map((r) => r.thresholdSpeedKmh), 4), [scoredThresholdRows]);
+  const smoothedThresholdSpeed = useMemo(() => smoothSeries(scoredThresholdRows.map((r) => kmToDisplay(r.thresholdSpeedKmh, unit)), 4), [scoredThresholdRows, unit]);
   const smoothedMethodScore = useMemo(() => smoothSeries(scoredThresholdRows.map((r) => r.norwegianMethodScore), 4), [scoredThresholdRows]);
   const smoothedRecovery = useMemo(() => smoothSeries(recoveryRows.map((r) => r.recoveryScore), 5), [recoveryRows]);
   const smoothedLoadRatio = useMemo(() => smoothSeries(recoveryRows.map((r) => (r.loadRatio || 1) * 45), 5), [recoveryRows]);
@@ -212,8 +260,8 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
       cards.push({
         key: 'pace',
         title: 'Pace @ Economy',
-        value: secondsToTime(latestEconomy.paceSecPerKm),
-        subtitle: 'min/km average on selected runs',
+        value: formatPace(latestEconomy.paceSecPerKm, unit),
+        subtitle: `min${paceUnitLabel(unit)} average on selected runs`,
         icon: <Timer size={13} />,
       });
     }
@@ -240,19 +288,22 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
       cards.push({
         key: 'threshold-speed',
         title: 'SubT Speed',
-        value: `${latestThreshold.thresholdSpeedKmh.toFixed(1)} km/h`,
-        subtitle: 'weekly (typical 10-22 km/h)',
+        value: `${kmToDisplay(latestThreshold.thresholdSpeedKmh, unit).toFixed(1)} ${speedUnitLabel(unit)}`,
+        subtitle: `weekly (typical ${Math.round(kmToDisplay(10, unit))}-${Math.round(kmToDisplay(22, unit))} ${speedUnitLabel(unit)})`,
         icon: <Zap size={13} />,
       });
     }
     return cards;
-  }, [latestEconomy, latestRecovery, latestThreshold]);
+  }, [latestEconomy, latestRecovery, latestThreshold, unit]);
 
-  if (!intervalsConfig.connected) {
+  if (!hasSource) {
     return (
-      <section className="rounded-3xl border border-slate-200 dark:border-slate-700 bg-white/95 dark:bg-slate-900/90 p-6 text-sm text-slate-600 dark:text-slate-300">
-        Connect Intervals.icu in Settings to unlock Recovery and Running Economy analytics.
-      </section>
+      <div className="space-y-6">
+        <section className="rounded-3xl border border-slate-200 dark:border-slate-700 bg-white/95 dark:bg-slate-900/90 p-6 text-sm text-slate-600 dark:text-slate-300">
+          Connect Intervals.icu in Settings, or import activity files below, to unlock Recovery and Running Economy analytics.
+        </section>
+        {localImportCard}
+      </div>
     );
   }
 
@@ -263,14 +314,14 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
           <div>
             <h3 className="text-2xl font-semibold tracking-tight text-slate-900 dark:text-slate-100">Performance Hub</h3>
             <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-              Simplified view of recovery and running economy based on Intervals.icu data.
+              Simplified view of recovery and running economy based on {dataset?.source === 'local' ? 'imported activity files' : dataset?.source === 'mixed' ? 'Intervals.icu data and imported files' : 'Intervals.icu data'}.
             </p>
             {dataset?.thresholdContext?.thresholdPaceSecPerKm ? (
               <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                Threshold context from Intervals: {secondsToTime(dataset.thresholdContext.thresholdPaceSecPerKm)}/km
+                Threshold context from Intervals: {formatPace(dataset.thresholdContext.thresholdPaceSecPerKm, unit)}{paceUnitLabel(unit)}
                 {dataset.thresholdContext.thresholdHrBpm ? ` · ${dataset.thresholdContext.thresholdHrBpm} bpm` : ''}
                 {dataset.thresholdContext.subTPaceLowSecPerKm && dataset.thresholdContext.subTPaceHighSecPerKm
-                  ? ` · SubT pace band ${secondsToTime(dataset.thresholdContext.subTPaceLowSecPerKm)}-${secondsToTime(dataset.thresholdContext.subTPaceHighSecPerKm)}/km`
+                  ? ` · SubT pace band ${formatPace(dataset.thresholdContext.subTPaceLowSecPerKm, unit)}-${formatPace(dataset.thresholdContext.subTPaceHighSecPerKm, unit)}${paceUnitLabel(unit)}`
                   : ''}
                 {dataset.thresholdContext.subTHrLowBpm && dataset.thresholdContext.subTHrHighBpm
                   ? ` · SubT HR band ${dataset.thresholdContext.subTHrLowBpm}-${dataset.thresholdContext.subTHrHighBpm} bpm`
@@ -294,7 +345,7 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
         ) : null}
 
         {loading && !dataset ? (
-          <p className="mt-4 text-sm text-slate-500 dark:text-slate-400">Loading data from Intervals.icu…</p>
+          <p className="mt-4 text-sm text-slate-500 dark:text-slate-400">{intervalsConfig.connected ? 'Loading data from Intervals.icu…' : 'Loading imported data…'}</p>
         ) : null}
 
         {dataset ? (
@@ -302,6 +353,16 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
         ) : null}
       </section>
 
+      {localImportCard}
+
+      {profile && onUpdateProfile && dataset?.thresholdContext?.thresholdPaceSecPerKm ? (
+        <ThresholdCalibrationCard
+          profile={profile}
+          intervalsThresholdPaceSec={dataset.thresholdContext.thresholdPaceSecPerKm}
+          onUpdateProfile={onUpdateProfile}
+        />
+      ) : null}
+
       {metricCards.length > 0 && (
         <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {metricCards.map((card) => (
@@ -356,7 +417,7 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
             <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/90 dark:bg-slate-800/80 px-3 py-2.5 text-slate-600 dark:text-slate-300">
               <p className="font-semibold text-slate-800 dark:text-slate-100">SubT Speed</p>
               <p className="mt-1">Weekly average speed from sessions classified as subthreshold using Intervals threshold context (pace/HR bands) or explicit SubT workout tags.</p>
-              <p className="mt-1">Displayed in km/h and pace/km.</p>
+              <p className="mt-1">Displayed in {speedUnitLabel(unit)} and pace{paceUnitLabel(unit)}.</p>
             </div>
             <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/90 dark:bg-slate-800/80 px-3 py-2.5 text-slate-600 dark:text-slate-300 md:col-span-2">
               <p className="font-semibold text-slate-800 dark:text-slate-100">Norwegian Method Score</p>
@@ -436,16 +497,16 @@ const InsightsPortal: React.FC<InsightsPortalProps> = ({ intervalsConfig, active
           labels={scoredThresholdRows.map((r) => r.date)}
           yLabel="Subthreshold speed and method score"
           series={[
-            { key: 'speed', label: 'SubT speed km/h (smoothed)', color: '#2563eb', values: smoothedThresholdSpeed },
+            { key: 'speed', label: `SubT speed ${speedUnitLabel(unit)} (smoothed)`, color: '#2563eb', values: smoothedThresholdSpeed },
             { key: 'method', label: 'Norwegian method score (smoothed)', color: '#7c3aed', values: smoothedMethodScore },
           ]}
         />
         <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-xs">
           <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 p-3 text-slate-600 dark:text-slate-300">
-            <span className="font-semibold text-slate-800 dark:text-slate-100">Speed trend:</span> {trendText(scoredThresholdRows.map((r) => r.thresholdSpeedKmh), 2)} km/h
+            <span className="font-semibold text-slate-800 dark:text-slate-100">Speed trend:</span> {trendText(scoredThresholdRows.map((r) => kmToDisplay(r.thresholdSpeedKmh, unit)), 2)} {speedUnitLabel(unit)}
           </div>
           <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 p-3 text-slate-600 dark:text-slate-300">
-            <span className="font-semibold text-slate-800 dark:text-slate-100">Latest pace:</span> {latestThreshold ? `${secondsToTime(latestThreshold.thresholdPaceSecPerKm)}/km` : '--'}
+            <span className="font-semibold text-slate-800 dark:text-slate-100">Latest pace:</span> {latestThreshold ? `${formatPace(latestThreshold.thresholdPaceSecPerKm, unit)}${paceUnitLabel(unit)}` : '--'}
           </div>
           <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 p-3 text-slate-600 dark:text-slate-300">
             <span className="font-semibold text-slate-800 dark:text-slate-100">SubT share:</span> {latestThreshold ? `${latestThreshold.subthresholdSharePct.toFixed(1)}%` : '--'}
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Droplet, Plus, Trash2, UploadCloud } from 'lucide-react';
+import { LactateReading, UserProfile, WorkoutSession } from '../types';
+import {
+  formatDurationBucket,
+  getDurationBucket,
+  getIntervalRepProfile,
+  getLactateHistory,
+  getLactateTarget,
+  suggestLactatePaceAdjustment,
+} from '../utils/lactate';
+import { formatPace, paceToDisplaySec, paceUnitLabel } from '../utils/units';
+
+interface LactateLogPanelProps {
+  session: WorkoutSession;
+  date: string;
+  profile: UserProfile;
+  readings: LactateReading[];
+  onAddReading: (reading: LactateReading) => void;
+  onRemoveReading: (id: string) => void;
+  onApplyAdjustment: (intervalIndex: number, deltaSec: number) => void;
+  onWriteToIcu?: () => void;
+}
+
+const HISTORY_PREVIEW_COUNT = 4;
+
+const newReadingId = (): string => `lac-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const LactateLogPanel: React.FC<LactateLogPanelProps> = ({
+  session,
+  date,
+  profile,
+  readings,
+  onAddReading,
+  onRemoveReading,
+  onApplyAdjustment,
+  onWriteToIcu,
+}) => {
+  const [intervalIndex, setIntervalIndex] = useState<number>(-1);
+  const [rep, setRep] = useState('');
+  const [mmol, setMmol] = useState('');
+  const target = getLactateTarget(profile);
+  const intervals = session.intervals || [];
+  const sessionReadings = readings.filter((r) => r.date === date && r.sessionId === session.id);
+  const formatSignedSec = (sec: number) => {
+    const display = Math.round(paceToDisplaySec(sec, profile.unit));
+    return `${display > 0 ? '+' : ''}${display}s${paceUnitLabel(profile.unit)}`;
+  };
+
+  const addReading = () => {
+    const value = Number(mmol.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) return;
+    const interval = intervals[intervalIndex >= 0 ? intervalIndex : 0];
+    const repProfile = interval ? getIntervalRepProfile(interval) : { paceSecPerKm: 0, repDurationSec: 0 };
+    onAddReading({
+      id: newReadingId(),
+      date,
+      sessionId: session.id,
+      intervalIndex: intervalIndex >= 0 ? intervalIndex : undefined,
+      rep: intervalIndex >= 0 && Number(rep) > 0 ? Math.round(Number(rep)) : undefined,
+      repDurationSec: repProfile.repDurationSec || undefined,
+      paceSecPerKm: repProfile.paceSecPerKm || undefined,
+      mmol: Math.round(value * 10) / 10,
+    });
+    setMmol('');
+    setRep('');
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50/80 dark:bg-slate-800/60 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="inline-flex items-center gap-1.5 text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">
+          <Droplet size={12} /> Lactate · target {target.low.toFixed(1)}-{target.high.toFixed(1)} mmol/L
+        </p>
+        {onWriteToIcu && sessionReadings.length > 0 && (
+          <button
+            type="button"
+            onClick={onWriteToIcu}
+            className="inline-flex items-center gap-1 text-[10px] font-bold uppercase text-norway-blue dark:text-sky-300"
+          >
+            <UploadCloud size={12} /> {sessionReadings.every((r) => r.syncedToIcu) ? 'Written' : 'Write to Intervals'}
+          </button>
+        )}
+      </div>
+
+      {intervals.map((interval, idx) => {
+        const { repDurationSec } = getIntervalRepProfile(interval);
+        const suggestion = suggestLactatePaceAdjustment(readings, repDurationSec, target, date);
+        const history = getLactateHistory(readings, repDurationSec).filter((r) => r.date < date).slice(-HISTORY_PREVIEW_COUNT);
+        const applied = !!suggestion && (interval.lactateAdjustSec || 0) === suggestion.deltaSec;
+        return (
+          <div key={idx} className="text-xs text-slate-600 dark:text-slate-300">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-semibold">Set {idx + 1} · {formatDurationBucket(getDurationBucket(repDurationSec))}</span>
+              {!suggestion ? (
+                <span className="text-slate-400">No earlier readings</span>
+              ) : suggestion.deltaSec === 0 ? (
+                <span className="text-emerald-600 dark:text-emerald-300">Last {suggestion.meanMmol.toFixed(1)} mmol/L · on target</span>
+              ) : (
+                <span className="inline-flex items-center gap-2">
+                  <span className="text-amber-600 dark:text-amber-300">
+                    Last {suggestion.meanMmol.toFixed(1)} mmol/L · {formatSignedSec(suggestion.deltaSec)}{suggestion.basis === 'default' ? ' (estimate)' : ''}
+                  </span>
+                  <button
+                    type="button"
+                    disabled={applied}
+                    onClick={() => onApplyAdjustment(idx, suggestion.deltaSec)}
+                    className="px-2 py-1 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 disabled:opacity-40"
+                  >
+                    {applied ? 'Applied' : 'Apply'}
+                  </button>
+                </span>
+              )}
+            </div>
+            {history.length > 0 && (
+              <p className="mt-0.5 text-[11px] text-slate-400">
+                {history.map((r) => `${formatPace(r.paceSecPerKm || 0, profile.unit)} → ${r.mmol.toFixed(1)}`).join(' · ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {sessionReadings.length > 0 && (
+        <div className="space-y-1">
+          {sessionReadings.map((r) => (
+            <div key={r.id} className="flex items-center justify-between text-xs text-slate-600 dark:text-slate-300">
+              <span>
+                {r.intervalIndex === undefined ? 'Session' : `Set ${r.intervalIndex + 1}${r.rep ? ` rep ${r.rep}` : ''}`}
+                {' · '}
+                <span className={`font-bold ${r.mmol > target.high || r.mmol < target.low ? 'text-amber-600 dark:text-amber-300' : 'text-emerald-600 dark:text-emerald-300'}`}>
+                  {r.mmol.toFixed(1)} mmol/L
+                </span>
+              </span>
+              <button type="button" onClick={() => onRemoveReading(r.id)} className="p-1 text-slate-400 hover:text-norway-red" aria-label="Remove reading">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <select
+          value={intervalIndex}
+          onChange={(e) => setIntervalIndex(Number(e.target.value))}
+          className="px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-semibold text-slate-700 dark:text-slate-200"
+          aria-label="Reading for"
+        >
+          <option value={-1}>Session</option>
+          {intervals.map((_, idx) => <option key={idx} value={idx}>Set {idx + 1}</option>)}
+        </select>
+        {intervalIndex >= 0 && (
+          <input
+            type="number"
+            min={1}
+            value={rep}
+            placeholder="Rep"
+            onChange={(e) => setRep(e.target.value)}
+            className="w-16 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg text-center text-slate-900 dark:text-slate-100"
+            aria-label="Rep number"
+          />
+        )}
+        <input
+          type="text"
+          inputMode="decimal"
+          value={mmol}
+          placeholder="mmol/L"
+          onChange={(e) => setMmol(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addReading(); }}
+          className="w-20 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg text-center font-bold text-slate-900 dark:text-slate-100"
+          aria-label="Lactate reading"
+        />
+        <button
+          type="button"
+          onClick={addReading}
+          className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase bg-norway-blue dark:bg-sky-500 text-white"
+        >
+          <Plus size={12} /> Log
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LactateLogPanel;
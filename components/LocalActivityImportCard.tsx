@@ -0,0 +1,69 @@
+import React, { useRef } from 'react';
+import { FileUp, HardDrive, Trash2 } from 'lucide-react';
+import { LocalInsightsData } from '../services/intervalsInsightsService';
+
+interface LocalActivityImportCardProps {
+  data: LocalInsightsData;
+  busy: boolean;
+  message: string;
+  onImport: (files: File[]) => void;
+  onClear: () => void;
+}
+
+const LocalActivityImportCard: React.FC<LocalActivityImportCardProps> = ({ data, busy, message, onImport, onClear }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const hasData = data.activities.length > 0 || data.wellness.length > 0;
+
+  return (
+    <section className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white/95 dark:bg-slate-900/95 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="inline-flex items-center gap-2 text-[11px] font-semibold uppercase text-slate-500 dark:text-slate-400">
+            <HardDrive size={13} /> Local data
+          </div>
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            {hasData
+              ? `${data.activities.length} activities · ${data.wellness.length} wellness days stored in this browser`
+              : 'Import FIT, GPX or TCX activities and wellness CSVs (date, HRV, resting HR).'}
+          </p>
+          {message ? <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">{message}</p> : null}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept=".fit,.gpx,.tcx,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              if (files.length) onImport(files);
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => inputRef.current?.click()}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-xs font-semibold text-slate-700 dark:text-slate-200 hover:border-norway-blue disabled:opacity-50"
+          >
+            <FileUp size={13} /> Import files
+          </button>
+          {hasData && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={onClear}
+              className="p-1.5 rounded-full text-slate-400 hover:text-norway-red disabled:opacity-50"
+              aria-label="Remove local data"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default LocalActivityImportCard;
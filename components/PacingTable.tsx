@@ -1,6 +1,7 @@
 import React from 'react';
-import { applyPaceCorrection, calculatePaceForDistance, secondsToTime } from '../utils/calculations';
+import { applyPaceCorrection, fitCriticalSpeed, getPredictedPaceForDistance, PREDICTION_MODEL_LABELS, RIEGEL_FATIGUE_FACTOR, secondsToTime } from '../utils/calculations';
 import { UserProfile } from '../types';
+import { formatPace, paceUnitLabel } from '../utils/units';
 
 interface PacingTableProps {
   profile: UserProfile;
@@ -18,6 +19,13 @@ const PacingTable: React.FC<PacingTableProps> = ({ profile, paceCorrectionSec =
     { label: 'Half Marathon', dist: 21097 },
     { label: 'Marathon', dist: 42195 },
   ];
+  const fit = fitCriticalSpeed(profile);
+  let footnote = `Predictions based on Riegel's Formula (f=${RIEGEL_FATIGUE_FACTOR}) referenced to your benchmark.`;
+  if (profile.predictionModel && profile.predictionModel !== 'riegel') {
+    footnote = `Predictions based on the ${PREDICTION_MODEL_LABELS[profile.predictionModel]} model across your benchmark results.`;
+  } else if (fit.cs > 0) {
+    footnote = `Critical speed ${formatPace(1000 / fit.cs, profile.unit)}${paceUnitLabel(profile.unit)}, D′ ${Math.round(fit.dPrime)}m from ${fit.points.filter((p) => p.weight > 0).length} results up to 10K; Riegel's Formula (f=${RIEGEL_FATIGUE_FACTOR}) beyond.`;
+  }
 
   return (
     <div className="space-y-8">
@@ -25,19 +33,21 @@ const PacingTable: React.FC<PacingTableProps> = ({ profile, paceCorrectionSec =
             <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-widest mb-6">Equivalent Race Times</h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                 {races.map((race) => {
-                    const basePace = calculatePaceForDistance(profile.raceDistance, profile.raceTime, race.dist);
+                    const basePace = getPredictedPaceForDistance(profile, race.dist);
                     const pSec = applyPaceCorrection(basePace, paceCorrectionSec);
                     const finishTime = pSec * (race.dist / 1000);
                     return (
                         <div key={race.label} className="bg-white border border-slate-100 rounded-xl p-5 shadow-sm hover:shadow-md transition-shadow">
                             <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">{race.label}</p>
                             <p className="text-xl font-bold text-slate-900 mb-1">{secondsToTime(finishTime)}</p>
-                            <p className="text-xs font-medium text-slate-400 font-mono">{secondsToTime(pSec)}/km</p>
+                            <p className="text-xs font-medium text-slate-400 font-mono">{formatPace(pSec, profile.unit)}{paceUnitLabel(profile.unit)}</p>
                         </div>
                     );
                 })}
             </div>
-            <p className="text-[10px] text-slate-400 mt-6 italic text-right">Predictions based on Riegel's Formula (f=1.06) referenced to your benchmark.</p>
+            <p className="text-[10px] text-slate-400 mt-6 italic text-right">
+              {footnote}
+            </p>
         </div>
     </div>
   );
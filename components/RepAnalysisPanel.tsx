@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Activity, AlertTriangle, RefreshCw } from 'lucide-react';
+import { DistanceUnit, IcuActivityInterval, Interval, WorkoutSession } from '../types';
+import { analyzeReps, RepAnalysisSummary, RepStatus } from '../utils/repAnalysis';
+import { formatPace, formatPaceDelta, formatRepDistance, paceUnitLabel } from '../utils/units';
+import { secondsToTime } from '../utils/calculations';
+
+interface RepAnalysisPanelProps {
+  session: WorkoutSession;
+  unit: DistanceUnit;
+  activityId: string;
+  activityName?: string;
+  getTargetRange: (interval: Interval) => string;
+  onLoadIntervals: (activityId: string) => Promise<IcuActivityInterval[]>;
+}
+
+const STATUS_STYLES: Record<RepStatus, string> = {
+  fast: 'text-rose-700 dark:text-rose-300 bg-rose-50 dark:bg-rose-900/30',
+  ok: 'text-emerald-700 dark:text-emerald-300',
+  slow: 'text-amber-700 dark:text-amber-300',
+  missing: 'text-slate-400',
+};
+
+const RepAnalysisPanel: React.FC<RepAnalysisPanelProps> = ({ session, unit, activityId, activityName, getTargetRange, onLoadIntervals }) => {
+  const [analysis, setAnalysis] = useState<RepAnalysisSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    setLoading(true);
+    setError('');
+    const activityIntervals = await onLoadIntervals(activityId);
+    setLoading(false);
+    if (!activityIntervals.length) {
+      setError('No intervals or laps found for this activity.');
+      return;
+    }
+    setAnalysis(analyzeReps(session.intervals || [], activityIntervals, getTargetRange, { warmup: session.warmup, cooldown: session.cooldown }));
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50/80 dark:bg-slate-800/60 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="inline-flex items-center gap-1.5 text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400">
+          <Activity size={12} /> Rep execution{activityName ? ` · ${activityName}` : ''}
+        </p>
+        <button
+          type="button"
+          onClick={() => void load()}
+          disabled={loading}
+          className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-norway-blue disabled:opacity-40"
+        >
+          <RefreshCw size={11} className={loading ? 'animate-spin' : ''} /> {analysis ? 'Reload' : 'Analyze reps'}
+        </button>
+      </div>
+      {error ? <p className="text-xs text-amber-600 dark:text-amber-300">{error}</p> : null}
+      {analysis && (
+        <>
+          <p className="text-xs text-slate-600 dark:text-slate-300">
+            {analysis.matched}/{analysis.reps.length} reps matched
+            {analysis.hrDriftBpm !== undefined ? ` · HR drift ${analysis.hrDriftBpm > 0 ? '+' : ''}${analysis.hrDriftBpm} bpm` : ''}
+          </p>
+          {analysis.tooFast > 0 && (
+            <p className="inline-flex items-center gap-1.5 text-xs font-semibold text-rose-700 dark:text-rose-300">
+              <AlertTriangle size={12} />
+              {analysis.tooFast} {analysis.tooFast === 1 ? 'rep was' : 'reps were'} faster than the band; sub-threshold reps should stay controlled.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-slate-700 dark:text-slate-200">
+              <thead>
+                <tr className="text-[10px] uppercase text-slate-400 text-left">
+                  <th className="py-1 pr-2 font-semibold">Rep</th>
+                  <th className="py-1 pr-2 font-semibold">Target{paceUnitLabel(unit)}</th>
+                  <th className="py-1 pr-2 font-semibold">Actual</th>
+                  <th className="py-1 pr-2 font-semibold">Off band</th>
+                  <th className="py-1 pr-2 font-semibold">HR</th>
+                  <th className="py-1 font-semibold">Drift</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.reps.map((rep) => (
+                  <tr key={`${rep.intervalIndex}-${rep.rep}`} className={`border-t border-slate-200/70 dark:border-slate-700/70 ${STATUS_STYLES[rep.status]}`}>
+                    <td className="py-1 pr-2 font-semibold">
+                      {rep.rep} · {rep.plannedSec > 0 ? secondsToTime(rep.plannedSec) : formatRepDistance(rep.plannedM, unit)}
+                    </td>
+                    <td className="py-1 pr-2">{rep.targetLowSec ? `${formatPace(rep.targetLowSec, unit)}-${formatPace(rep.targetHighSec, unit)}` : '—'}</td>
+                    <td className="py-1 pr-2">
+                      {rep.actual ? `${rep.paceSec ? formatPace(rep.paceSec, unit) : '—'} · ${secondsToTime(rep.actual.movingSec)}` : 'Not found'}
+                    </td>
+                    <td className="py-1 pr-2 font-semibold">
+                      {rep.paceDeltaSec === undefined ? '—' : rep.paceDeltaSec === 0 ? 'In band' : formatPaceDelta(rep.paceDeltaSec, unit)}
+                    </td>
+                    <td className="py-1 pr-2">{rep.actual?.avgHr ? Math.round(rep.actual.avgHr) : '—'}</td>
+                    <td className="py-1">{rep.hrDriftBpm !== undefined ? `${rep.hrDriftBpm > 0 ? '+' : ''}${rep.hrDriftBpm}` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RepAnalysisPanel;
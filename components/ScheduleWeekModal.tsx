@@ -1,29 +1,46 @@
 import React, { useState } from 'react';
 import { X, CalendarDays, Loader2 } from 'lucide-react';
 
+export type ScheduleScope = 'week' | 'block';
+
 interface ScheduleWeekModalProps {
   isOpen: boolean;
-  initialDate: string;
+  initialWeekDate: string;
+  initialBlockDate: string;
+  weekNumber: number;
+  blockWeeks: number;
   isScheduling: boolean;
   onClose: () => void;
-  onConfirm: (startDate: string) => Promise<void>;
+  onConfirm: (startDate: string, scope: ScheduleScope) => Promise<void>;
 }
 
 const ScheduleWeekModal: React.FC<ScheduleWeekModalProps> = ({
   isOpen,
-  initialDate,
+  initialWeekDate,
+  initialBlockDate,
+  weekNumber,
+  blockWeeks,
   isScheduling,
   onClose,
   onConfirm,
 }) => {
-  const [selectedDate, setSelectedDate] = useState(initialDate);
+  const [scope, setScope] = useState<ScheduleScope>('week');
+  const [selectedDate, setSelectedDate] = useState(initialWeekDate);
 
   React.useEffect(() => {
-    if (isOpen) setSelectedDate(initialDate);
-  }, [isOpen, initialDate]);
+    if (!isOpen) return;
+    setScope('week');
+    setSelectedDate(initialWeekDate);
+  }, [isOpen, initialWeekDate]);
 
   if (!isOpen) return null;
 
+  const isBlock = scope === 'block';
+  const selectScope = (next: ScheduleScope) => {
+    setScope(next);
+    setSelectedDate(next === 'block' ? initialBlockDate : initialWeekDate);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center backdrop-blur-md p-4">
       <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-8 w-full max-w-md relative animate-in fade-in zoom-in duration-200 border border-slate-100 dark:border-slate-700">
@@ -35,15 +52,36 @@ const ScheduleWeekModal: React.FC<ScheduleWeekModalProps> = ({
           <div className="w-16 h-16 bg-slate-900 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-lg">
             <CalendarDays size={30} className="text-white" />
           </div>
-          <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Schedule Week on Intervals.icu</h2>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Schedule on Intervals.icu</h2>
           <p className="text-slate-500 dark:text-slate-400 mt-2 text-sm px-4">
-            Pick the first day of this training week. All sessions and rest days will be scheduled automatically.
+            {isBlock
+              ? `Pick the first day of the block. All ${blockWeeks} weeks will be scheduled back to back.`
+              : 'Pick the first day of this training week. All sessions and rest days will be scheduled automatically.'}
           </p>
         </div>
 
         <div className="space-y-4">
+          {blockWeeks > 1 && (
+            <div className="grid grid-cols-2 gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-slate-50 dark:bg-slate-800">
+              <button
+                type="button"
+                onClick={() => selectScope('week')}
+                className={`py-2 rounded-lg text-xs font-bold ${!isBlock ? 'bg-white dark:bg-slate-700 shadow-sm text-norway-blue dark:text-sky-300' : 'text-slate-500 dark:text-slate-300'}`}
+              >
+                Week {weekNumber}
+              </button>
+              <button
+                type="button"
+                onClick={() => selectScope('block')}
+                className={`py-2 rounded-lg text-xs font-bold ${isBlock ? 'bg-white dark:bg-slate-700 shadow-sm text-norway-blue dark:text-sky-300' : 'text-slate-500 dark:text-slate-300'}`}
+              >
+                Entire block ({blockWeeks} weeks)
+              </button>
+            </div>
+          )}
+
           <div>
-            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">First Day of Week</label>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">{isBlock ? 'First Day of Block' : 'First Day of Week'}</label>
             <input
               type="date"
               value={selectedDate}
@@ -53,11 +91,11 @@ const ScheduleWeekModal: React.FC<ScheduleWeekModalProps> = ({
           </div>
 
           <button
-            onClick={() => onConfirm(selectedDate)}
+            onClick={() => onConfirm(selectedDate, scope)}
             disabled={isScheduling || !selectedDate}
             className="w-full bg-slate-900 hover:bg-black text-white font-bold py-4 px-4 rounded-xl flex items-center justify-center gap-3 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg mt-4"
           >
-            {isScheduling ? <Loader2 size={20} className="animate-spin" /> : 'Schedule Full Week'}
+            {isScheduling ? <Loader2 size={20} className="animate-spin" /> : isBlock ? 'Schedule Entire Block' : 'Schedule Full Week'}
           </button>
         </div>
       </div>
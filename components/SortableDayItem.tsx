@@ -1,28 +1,39 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { CSS } from '@dnd-kit/utilities';
 import { useSortable } from '@dnd-kit/sortable';
-import { DailyPlan, UserProfile, WorkoutSession } from '../types';
+import { DailyForecast, DailyPlan, DayWeatherOverride, IcuActivityInterval, LactateReading, UserProfile, WorkoutSession } from '../types';
+import { WeatherPaceAdjustment, WeatherSlotSuggestion } from '../utils/weather';
+import { WorkoutFileFormat } from '../services/workoutExportService';
 import WorkoutCard from './WorkoutCard';
-import { GripVertical, Cloud, CloudRain, CloudSun, Snowflake, Sun } from 'lucide-react';
-
-interface DailyForecast {
-  date: string;
-  temperatureC: number;
-  humidityPct: number;
-  windKmh: number;
-  weatherCode: number;
-}
+import DayWeatherControls from './DayWeatherControls';
+import ComplianceBadge from './ComplianceBadge';
+import { SessionCompliance } from '../utils/compliance';
+import { getDaySessions } from '../utils/calculations';
+import { GripVertical, Cloud, CloudRain, CloudSun, FileUp, Snowflake, Sun } from 'lucide-react';
 
 interface SortableDayItemProps {
   itemId: string;
   day: DailyPlan;
   dayLabel: string;
   profile: UserProfile;
-  paceCorrectionSec: number;
+  getPaceCorrectionSec: (session: WorkoutSession) => number;
+  getWeatherAdjustment?: (session: WorkoutSession) => WeatherPaceAdjustment | null;
+  getWeatherSlot?: (session: WorkoutSession) => WeatherSlotSuggestion | null;
+  getAltitudeAdjustment?: (session: WorkoutSession) => { altitudeM: number; deltaSec: number };
   forecast?: DailyForecast;
-  isSynced?: boolean;
-  onSyncSession: () => void;
-  onUpdateSession: (updated: WorkoutSession) => void;
+  weatherOverride?: DayWeatherOverride;
+  onChangeWeatherOverride?: (override: DayWeatherOverride | undefined) => void;
+  onSyncSession: (sessionIdx: number) => void;
+  onDownloadSession?: (sessionIdx: number, format: WorkoutFileFormat) => void;
+  onImportWorkoutFile?: (file: File) => void; // .fit workout dropped on or picked for this day
+  onUpdateSession: (updated: WorkoutSession, sessionIdx: number) => void;
+  date?: string;
+  lactateReadings?: LactateReading[];
+  onAddLactateReading?: (reading: LactateReading) => void;
+  onRemoveLactateReading?: (id: string) => void;
+  onWriteLactateToIcu?: (session: WorkoutSession, sessionIdx: number) => void;
+  compliance?: Array<SessionCompliance | undefined>; // indexed by session
+  onLoadActivityIntervals?: (activityId: string) => Promise<IcuActivityInterval[]>;
 }
 
 const SortableDayItem: React.FC<SortableDayItemProps> = ({
@@ -30,13 +41,44 @@ const SortableDayItem: React.FC<SortableDayItemProps> = ({
   day,
   dayLabel,
   profile,
-  paceCorrectionSec,
+  getPaceCorrectionSec,
+  getWeatherAdjustment,
+  getWeatherSlot,
+  getAltitudeAdjustment,
   forecast,
-  isSynced,
+  weatherOverride,
+  onChangeWeatherOverride,
   onSyncSession,
+  onDownloadSession,
+  onImportWorkoutFile,
   onUpdateSession,
+  date,
+  lactateReadings,
+  onAddLactateReading,
+  onRemoveLactateReading,
+  onWriteLactateToIcu,
+  compliance,
+  onLoadActivityIntervals,
 }) => {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging, isOver } = useSortable({ id: itemId });
+  const [isFileOver, setIsFileOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Native file drops only; day reordering goes through dnd-kit pointer events.
+  const fileDropProps = onImportWorkoutFile ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+      e.preventDefault();
+      setIsFileOver(true);
+    },
+    onDragLeave: () => setIsFileOver(false),
+    onDrop: (e: React.DragEvent) => {
+      const file = e.dataTransfer.files?.[0];
+      if (!file) return;
+      e.preventDefault();
+      setIsFileOver(false);
+      onImportWorkoutFile(file);
+    },
+  } : {};
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -50,26 +92,63 @@ const SortableDayItem: React.FC<SortableDayItemProps> = ({
     return CloudRain;
   };
 
-  if (day.session) {
+  const getCompletedActivity = (sessionIdx: number) => {
+    const item = compliance?.[sessionIdx];
+    return item?.activityId ? { id: item.activityId, name: item.activityName } : undefined;
+  };
+
+  const sessions = getDaySessions(day);
+  if (sessions.length) {
     return (
       <div
         ref={setNodeRef}
         style={style}
-        className={`${isDragging ? 'opacity-60' : 'opacity-100'} ${isOver ? 'ring-2 ring-norway-blue/20 rounded-2xl' : ''}`}
+        {...fileDropProps}
+        className={`${sessions.length > 1 || onChangeWeatherOverride || compliance?.length ? 'space-y-3' : ''} ${isDragging ? 'opacity-60' : 'opacity-100'} ${isOver || isFileOver ? 'ring-2 ring-norway-blue/20 rounded-2xl' : ''}`}
       >
-        <WorkoutCard
-          session={{ ...day.session }}
-          profile={profile}
-          paceCorrectionSec={paceCorrectionSec}
-          forecast={forecast}
-          isSynced={isSynced}
-          dayLabel={dayLabel}
-          dayTypeLabel={day.type}
-          onSync={onSyncSession}
-          onUpdateSession={onUpdateSession}
-          dragHandleAttributes={attributes}
-          dragHandleListeners={listeners}
-        />
+        {sessions.map((session, sessionIdx) => (
+          <WorkoutCard
+            key={session.id}
+            session={{ ...session }}
+            profile={profile}
+            paceCorrectionSec={getPaceCorrectionSec(session)}
+            forecast={forecast}
+            weatherAdjustment={getWeatherAdjustment?.(session) || undefined}
+            weatherSlot={getWeatherSlot?.(session) || undefined}
+            altitudeAdjustment={getAltitudeAdjustment?.(session)}
+            isSynced={!!session.icuEventId}
+            dayLabel={sessions.length > 1 ? `${dayLabel} ${sessionIdx === 0 ? 'AM' : 'PM'}` : dayLabel}
+            dayTypeLabel={day.type}
+            onSync={() => onSyncSession(sessionIdx)}
+            onDownload={onDownloadSession ? (_session, format) => onDownloadSession(sessionIdx, format) : undefined}
+            onUpdateSession={(updated) => onUpdateSession(updated, sessionIdx)}
+            dragHandleAttributes={sessionIdx === 0 ? attributes : undefined}
+            dragHandleListeners={sessionIdx === 0 ? listeners : undefined}
+            date={date}
+            lactateReadings={lactateReadings}
+            onAddLactateReading={onAddLactateReading}
+            onRemoveLactateReading={onRemoveLactateReading}
+            onWriteLactateToIcu={onWriteLactateToIcu ? () => onWriteLactateToIcu(session, sessionIdx) : undefined}
+            completedActivity={getCompletedActivity(sessionIdx)}
+            onLoadActivityIntervals={onLoadActivityIntervals}
+          />
+        ))}
+        {compliance?.some((c) => c && c.status !== 'pending') && (
+          <div className="flex flex-wrap gap-1.5">
+            {sessions.map((session, sessionIdx) => {
+              const item = compliance[sessionIdx];
+              return item ? <ComplianceBadge key={session.id} compliance={item} unit={profile.unit} /> : null;
+            })}
+          </div>
+        )}
+        {onChangeWeatherOverride && (
+          <DayWeatherControls
+            locations={profile.weatherLocations || []}
+            override={weatherOverride}
+            unit={profile.unit}
+            onChange={onChangeWeatherOverride}
+          />
+        )}
       </div>
     );
   }
@@ -78,7 +157,8 @@ const SortableDayItem: React.FC<SortableDayItemProps> = ({
     <div
       ref={setNodeRef}
       style={style}
-      className={`relative overflow-hidden bg-white/95 dark:bg-slate-900/95 border border-slate-200/80 dark:border-slate-700/90 rounded-3xl shadow-[0_1px_0_0_rgba(15,23,42,0.05),0_10px_24px_-18px_rgba(15,23,42,0.35)] px-6 py-5 flex items-center justify-between gap-4 ${isDragging ? 'opacity-60' : ''} ${isOver ? 'ring-2 ring-norway-blue/20' : ''}`}
+      {...fileDropProps}
+      className={`relative overflow-hidden bg-white/95 dark:bg-slate-900/95 border border-slate-200/80 dark:border-slate-700/90 rounded-3xl shadow-[0_1px_0_0_rgba(15,23,42,0.05),0_10px_24px_-18px_rgba(15,23,42,0.35)] px-6 py-5 flex items-center justify-between gap-4 ${isDragging ? 'opacity-60' : ''} ${isOver || isFileOver ? 'ring-2 ring-norway-blue/20' : ''}`}
     >
       <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-slate-400/90 dark:bg-slate-500/90" />
       <div>
@@ -100,6 +180,29 @@ const SortableDayItem: React.FC<SortableDayItemProps> = ({
         ) : null}
       </div>
       <div className="flex items-center gap-2">
+        {onImportWorkoutFile && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".fit"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportWorkoutFile(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center gap-1 text-[10px] font-semibold px-2.5 py-1 rounded-full border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+              title="Import a .fit workout (or drop the file on this day)"
+            >
+              <FileUp size={12} /> Import .fit
+            </button>
+          </>
+        )}
         <span className="text-[10px] font-semibold px-2.5 py-1 rounded-full border bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700">Not synced</span>
         <button
           type="button"
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { X, GitCompare, Loader2 } from 'lucide-react';
+import { DiffLine, SyncChange, SyncChangeKind } from '../utils/syncDiff';
+
+interface SyncPreviewModalProps {
+  isOpen: boolean;
+  rangeLabel: string;
+  changes: SyncChange[];
+  isSending: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+const COLUMNS: Array<{ kind: SyncChangeKind; label: string; tone: string }> = [
+  { kind: 'create', label: 'Create', tone: 'text-emerald-700 dark:text-emerald-300' },
+  { kind: 'update', label: 'Update', tone: 'text-amber-700 dark:text-amber-300' },
+  { kind: 'delete', label: 'Delete', tone: 'text-rose-700 dark:text-rose-300' },
+];
+
+const DIFF_LINE_STYLES: Record<DiffLine['kind'], string> = {
+  same: 'text-slate-500 dark:text-slate-400',
+  add: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200',
+  remove: 'bg-rose-50 dark:bg-rose-900/30 text-rose-800 dark:text-rose-200 line-through',
+};
+
+const ChangeItem: React.FC<{ change: SyncChange }> = ({ change }) => {
+  const [showText, setShowText] = useState(change.kind === 'update');
+  const renamed = change.changedFields.includes('name') && change.before && change.after;
+  const moved = change.changedFields.includes('start') && change.before && change.after;
+  const formatStart = (startLocal: string) => startLocal.replace('T', ' ') || 'no start time';
+  const lines = change.kind === 'update' ? change.textDiff : change.textDiff.filter((l) => l.text);
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-2.5 space-y-1">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-[10px] font-bold uppercase text-slate-400">{change.date} · {change.label}</p>
+          <p className="text-xs font-semibold text-slate-800 dark:text-slate-100">{change.after?.name || change.before?.name}</p>
+          {renamed && <p className="text-[11px] text-slate-400 line-through">{change.before!.name}</p>}
+          {moved && (
+            <p className="text-[11px] text-amber-600 dark:text-amber-300">
+              Start {formatStart(change.before!.startLocal)} → {formatStart(change.after!.startLocal)}
+            </p>
+          )}
+        </div>
+        {lines.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowText((v) => !v)}
+            className="shrink-0 text-[10px] font-bold uppercase text-slate-400 hover:text-norway-blue"
+          >
+            {showText ? 'Hide text' : 'Text'}
+          </button>
+        )}
+      </div>
+      {showText && lines.length > 0 && (
+        <pre className="max-h-48 overflow-auto rounded-lg bg-slate-50 dark:bg-slate-800 p-2 text-[11px] leading-snug font-mono whitespace-pre-wrap">
+          {lines.map((line, idx) => (
+            <div key={idx} className={change.kind === 'update' ? DIFF_LINE_STYLES[line.kind] : 'text-slate-600 dark:text-slate-300'}>
+              {change.kind === 'update' ? `${line.kind === 'add' ? '+ ' : line.kind === 'remove' ? '- ' : '  '}` : ''}{line.text || ' '}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+const SyncPreviewModal: React.FC<SyncPreviewModalProps> = ({ isOpen, rangeLabel, changes, isSending, onClose, onConfirm }) => {
+  if (!isOpen) return null;
+  const pending = changes.filter((c) => c.kind !== 'unchanged').length;
+  const unchanged = changes.length - pending;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center backdrop-blur-md p-4">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col relative animate-in fade-in zoom-in duration-200 border border-slate-100 dark:border-slate-700">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800">
+          <X size={20} />
+        </button>
+
+        <div className="mb-4 pr-10">
+          <h2 className="inline-flex items-center gap-2 text-xl font-bold text-slate-900 dark:text-slate-100">
+            <GitCompare size={20} /> Review changes · {rangeLabel}
+          </h2>
+          <p className="text-slate-500 dark:text-slate-400 mt-1 text-sm">
+            {pending
+              ? `Nothing is sent until you confirm. ${unchanged} unchanged ${unchanged === 1 ? 'workout' : 'workouts'} will be skipped.`
+              : 'Intervals.icu already matches the plan for this range.'}
+          </p>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-3 overflow-y-auto min-h-0 flex-1">
+          {COLUMNS.map((column) => {
+            const items = changes.filter((c) => c.kind === column.kind);
+            return (
+              <div key={column.kind} className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50/80 dark:bg-slate-800/60 p-3 space-y-2">
+                <p className={`text-[10px] font-bold uppercase ${column.tone}`}>{column.label} · {items.length}</p>
+                {items.length ? items.map((change) => (
+                  <ChangeItem key={`${change.kind}-${change.externalId || change.eventId}`} change={change} />
+                )) : <p className="text-xs text-slate-400">None</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSending}
+            className="px-4 py-3 rounded-xl text-sm font-bold border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={isSending}
+            className="bg-slate-900 hover:bg-black text-white font-bold py-3 px-5 rounded-xl flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+          >
+            {isSending ? <Loader2 size={18} className="animate-spin" /> : pending ? `Send ${pending} ${pending === 1 ? 'change' : 'changes'}` : 'Done'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncPreviewModal;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import { UserProfile } from '../types';
+import { getPaceOffsetSec, getThresholdCalibration } from '../utils/calculations';
+import { formatPace, paceToDisplaySec, paceUnitLabel } from '../utils/units';
+
+interface ThresholdCalibrationCardProps {
+  profile: UserProfile;
+  intervalsThresholdPaceSec: number;
+  onUpdateProfile: (patch: Partial<UserProfile>) => void;
+}
+
+// Differences this small are within the noise of either estimate.
+const CALIBRATION_TOLERANCE_SEC = 3;
+
+const formatSignedSec = (sec: number, profile: UserProfile): string => {
+  const display = Math.round(paceToDisplaySec(sec, profile.unit));
+  return `${display > 0 ? '+' : ''}${display}s${paceUnitLabel(profile.unit)}`;
+};
+
+const ThresholdCalibrationCard: React.FC<ThresholdCalibrationCardProps> = ({ profile, intervalsThresholdPaceSec, onUpdateProfile }) => {
+  const calibration = getThresholdCalibration(profile, intervalsThresholdPaceSec);
+  if (!calibration) return null;
+
+  const currentOffset = getPaceOffsetSec(profile);
+  const inSync = Math.abs(calibration.deltaSec) <= CALIBRATION_TOLERANCE_SEC;
+
+  return (
+    <section className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white/95 dark:bg-slate-900/95 p-4">
+      <div className="inline-flex items-center gap-2 text-[11px] font-semibold uppercase text-slate-500 dark:text-slate-400">
+        <Crosshair size={13} /> Threshold Calibration
+      </div>
+      <div className="mt-3 grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <p className="text-[10px] font-bold uppercase text-slate-400">Planner</p>
+          <p className="font-bold text-slate-900 dark:text-slate-100">{formatPace(calibration.plannerPaceSec, profile.unit)}{paceUnitLabel(profile.unit)}</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-bold uppercase text-slate-400">Intervals.icu</p>
+          <p className="font-bold text-slate-900 dark:text-slate-100">{formatPace(calibration.intervalsPaceSec, profile.unit)}{paceUnitLabel(profile.unit)}</p>
+        </div>
+        <div>
+          <p className="text-[10px] font-bold uppercase text-slate-400">Difference</p>
+          <p className={`font-bold ${inSync ? 'text-emerald-600 dark:text-emerald-300' : 'text-amber-600 dark:text-amber-300'}`}>
+            {formatSignedSec(calibration.deltaSec, profile)}
+          </p>
+        </div>
+      </div>
+      <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+        {inSync
+          ? 'Your benchmark matches recent Intervals.icu data.'
+          : calibration.deltaSec < 0
+          ? 'Intervals.icu suggests you are fitter than your benchmark.'
+          : 'Intervals.icu suggests your benchmark is faster than current fitness.'}
+        {currentOffset ? ` A ${formatSignedSec(currentOffset, profile)} offset is currently applied.` : ''}
+      </p>
+      {!inSync && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            type="button"
+            disabled={!calibration.suggestedRaceTime}
+            onClick={() => calibration.suggestedRaceTime && onUpdateProfile({ raceTime: calibration.suggestedRaceTime, paceOffsetSec: undefined })}
+            className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase bg-norway-blue dark:bg-sky-500 text-white disabled:opacity-40"
+            title={calibration.suggestedRaceTime ? undefined : 'Other benchmark results dominate the fit; use an offset instead.'}
+          >
+            {calibration.suggestedRaceTime ? `Set benchmark to ${calibration.suggestedRaceTime}` : 'Benchmark update unavailable'}
+          </button>
+          <button
+            type="button"
+            onClick={() => onUpdateProfile({ paceOffsetSec: calibration.suggestedOffsetSec || undefined })}
+            className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+          >
+            Apply {formatSignedSec(calibration.suggestedOffsetSec, profile)} offset
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ThresholdCalibrationCard;
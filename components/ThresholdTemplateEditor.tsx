@@ -0,0 +1,168 @@
+import React from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+import { ThresholdTemplate, ThresholdTemplateStep } from '../types';
+import { DEFAULT_THRESHOLD_TEMPLATES, formatThresholdIntervalsTitle } from '../utils/calculations';
+
+interface ThresholdTemplateEditorProps {
+  templates?: ThresholdTemplate[];
+  onChange: (templates: ThresholdTemplate[] | undefined) => void;
+}
+
+const ANCHOR_OPTIONS = [400, 600, 800, 1000, 2000, 3000, 5000];
+const NEW_TEMPLATE_STEP: ThresholdTemplateStep = { reps: 5, durationSec: 6 * 60, anchorDist: 2000, rest: '60s' };
+const EXTRA_STEP: ThresholdTemplateStep = { reps: 5, durationSec: 60, anchorDist: 1000, rest: '60s' };
+
+const newTemplateId = (): string => `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const formatAnchorLabel = (meters: number): string => (meters >= 1000 ? `${meters / 1000}K pace` : `${meters}m pace`);
+
+const ThresholdTemplateEditor: React.FC<ThresholdTemplateEditorProps> = ({ templates, onChange }) => {
+  const isCustom = !!templates?.length;
+  const list = isCustom ? templates! : DEFAULT_THRESHOLD_TEMPLATES;
+
+  // Editing the built-in rotation copies it into the profile first.
+  const commit = (next: ThresholdTemplate[]) => onChange(next);
+  const updateTemplate = (idx: number, patch: Partial<ThresholdTemplate>) => {
+    commit(list.map((tpl, i) => (i === idx ? { ...tpl, ...patch } : tpl)));
+  };
+  const updateStep = (tplIdx: number, stepIdx: number, patch: Partial<ThresholdTemplateStep>) => {
+    const tpl = list[tplIdx];
+    updateTemplate(tplIdx, { steps: tpl.steps.map((step, i) => (i === stepIdx ? { ...step, ...patch } : step)) });
+  };
+  const moveTemplate = (idx: number, dir: -1 | 1) => {
+    const target = idx + dir;
+    if (target < 0 || target >= list.length) return;
+    const next = [...list];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    commit(next);
+  };
+  const removeTemplate = (idx: number) => {
+    const next = list.filter((_, i) => i !== idx);
+    onChange(next.length ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      {list.map((tpl, tplIdx) => (
+        <div key={tpl.id} className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold text-slate-400 w-5">{tplIdx + 1}.</span>
+            <input
+              type="text"
+              value={tpl.name}
+              onChange={(e) => updateTemplate(tplIdx, { name: e.target.value })}
+              className="flex-1 min-w-0 px-3 py-2 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl text-sm font-bold text-slate-900 dark:text-slate-100"
+            />
+            <button type="button" onClick={() => moveTemplate(tplIdx, -1)} disabled={tplIdx === 0} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-30" aria-label="Move up">
+              <ArrowUp size={14} />
+            </button>
+            <button type="button" onClick={() => moveTemplate(tplIdx, 1)} disabled={tplIdx === list.length - 1} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-30" aria-label="Move down">
+              <ArrowDown size={14} />
+            </button>
+            <button type="button" onClick={() => removeTemplate(tplIdx)} className="p-1.5 text-slate-400 hover:text-norway-red" aria-label="Remove template">
+              <Trash2 size={14} />
+            </button>
+          </div>
+          {tpl.steps.map((step, stepIdx) => {
+            const isTime = (Number(step.durationSec) || 0) > 0 || !(Number(step.distance) || 0);
+            return (
+              <div key={stepIdx} className="flex flex-wrap items-center gap-1.5 text-xs">
+                <input
+                  type="number"
+                  min={1}
+                  value={step.reps}
+                  onChange={(e) => updateStep(tplIdx, stepIdx, { reps: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-14 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-bold text-center text-slate-900 dark:text-slate-100"
+                  aria-label="Reps"
+                />
+                <span className="text-slate-400">x</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={isTime ? (Number(step.durationSec) || 0) : (Number(step.distance) || 0)}
+                  onChange={(e) => {
+                    const v = Math.max(1, Number(e.target.value) || 1);
+                    updateStep(tplIdx, stepIdx, isTime ? { durationSec: v, distance: undefined } : { distance: v, durationSec: undefined });
+                  }}
+                  className="w-16 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-bold text-center text-slate-900 dark:text-slate-100"
+                  aria-label={isTime ? 'Rep duration (seconds)' : 'Rep distance (meters)'}
+                />
+                <div className="flex gap-0.5 rounded-lg border border-slate-200 dark:border-slate-700 p-0.5 bg-white dark:bg-slate-900">
+                  {(['sec', 'm'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => updateStep(tplIdx, stepIdx, mode === 'sec'
+                        ? { durationSec: Number(step.durationSec) || 60, distance: undefined }
+                        : { distance: Number(step.distance) || step.anchorDist, durationSec: undefined })}
+                      className={`px-1.5 py-1 rounded-md text-[9px] font-bold uppercase ${(mode === 'sec') === isTime ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={step.anchorDist}
+                  onChange={(e) => updateStep(tplIdx, stepIdx, { anchorDist: Number(e.target.value) })}
+                  className="px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-semibold text-slate-700 dark:text-slate-200"
+                  aria-label="Pace anchor"
+                >
+                  {ANCHOR_OPTIONS.map((d) => <option key={d} value={d}>{formatAnchorLabel(d)}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={step.rest}
+                  onChange={(e) => updateStep(tplIdx, stepIdx, { rest: e.target.value })}
+                  className="w-14 px-2 py-1.5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-lg font-bold text-center text-slate-900 dark:text-slate-100"
+                  aria-label="Rest"
+                />
+                {tpl.steps.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => updateTemplate(tplIdx, { steps: tpl.steps.filter((_, i) => i !== stepIdx) })}
+                    className="p-1 text-slate-400 hover:text-norway-red"
+                    aria-label="Remove step"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => updateTemplate(tplIdx, { steps: [...tpl.steps, { ...EXTRA_STEP }] })}
+              className="inline-flex items-center gap-1 text-[10px] font-bold uppercase text-norway-blue dark:text-sky-300"
+            >
+              <Plus size={12} /> Add step
+            </button>
+            <span className="text-[10px] text-slate-400">
+              {formatThresholdIntervalsTitle(tpl.steps.map((step) => ({ count: step.reps, durationSec: step.durationSec, distance: Number(step.distance) || 0 })))}
+            </span>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => commit([...list, { id: newTemplateId(), name: 'New session', steps: [{ ...NEW_TEMPLATE_STEP }] }])}
+          className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+        >
+          <Plus size={12} /> Add template
+        </button>
+        {isCustom && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-[10px] font-bold uppercase text-slate-500 dark:text-slate-400"
+          >
+            <RotateCcw size={12} /> Reset to defaults
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThresholdTemplateEditor;
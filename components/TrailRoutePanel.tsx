@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Mountain, Trash2, UploadCloud } from 'lucide-react';
+import { DistanceUnit, WorkoutSession } from '../types';
+import { formatDistance, formatPace, paceUnitLabel } from '../utils/units';
+import { getGradeCostFactor, getSessionElevationGainM, getTrailTimeFactor } from '../utils/calculations';
+import { parseGpxRoute } from '../utils/gpx';
+
+interface TrailRoutePanelProps {
+  session: WorkoutSession;
+  unit?: DistanceUnit;
+  flatPaceSec: number;
+  hrLabel: string;
+  onChange: (patch: Partial<Pick<WorkoutSession, 'elevationGainM' | 'route' | 'distance'>>) => void;
+}
+
+const GRADE_GUIDE_PCT = [-10, -5, 0, 5, 10, 15];
+const MAX_PLANNED_GAIN_M = 5000;
+
+const TrailRoutePanel: React.FC<TrailRoutePanelProps> = ({ session, unit, flatPaceSec, hrLabel, onChange }) => {
+  const [importError, setImportError] = useState('');
+  const route = session.route;
+  const gainM = getSessionElevationGainM(session);
+  const avgPaceSec = flatPaceSec * getTrailTimeFactor(session);
+  const paceSuffix = paceUnitLabel(unit);
+
+  const importGpx = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const parsed = parseGpxRoute(String(reader.result || ''), file.name.replace(/\.gpx$/i, ''));
+      if (!parsed) {
+        setImportError('No elevation data found in this GPX file.');
+        return;
+      }
+      setImportError('');
+      onChange({ route: parsed, distance: parsed.distanceKm });
+    };
+    reader.onerror = () => setImportError('Could not read this file.');
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-2.5 text-xs text-slate-500 dark:text-slate-300">
+      <p>Trail mode · HR {hrLabel} target · grade-adjusted time estimate</p>
+      <div className="flex flex-wrap items-end gap-3">
+        {route ? (
+          <div className="flex items-center gap-2 rounded-lg border border-slate-200 dark:border-slate-700 px-2.5 py-1.5">
+            <Mountain size={13} />
+            <span className="font-semibold text-slate-700 dark:text-slate-200">{route.name}</span>
+            <span>{formatDistance(route.distanceKm, unit)} · +{route.elevationGainM} m / −{route.elevationLossM} m</span>
+            <button type="button" onClick={() => onChange({ route: undefined })} className="opacity-70 hover:opacity-100" aria-label="Remove route">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <span className="text-[10px] text-slate-500 font-semibold uppercase">Elevation gain (m)</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_PLANNED_GAIN_M}
+              step={50}
+              value={session.elevationGainM ?? ''}
+              placeholder="0"
+              onChange={(e) => {
+                const v = Math.round(Number(e.target.value));
+                onChange({ elevationGainM: e.target.value.trim() && v > 0 ? Math.min(MAX_PLANNED_GAIN_M, v) : undefined });
+              }}
+              className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 text-sm font-semibold text-slate-900 dark:text-slate-100 w-28"
+            />
+          </div>
+        )}
+        <label className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 font-semibold cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800">
+          <UploadCloud size={13} />
+          {route ? 'Replace GPX' : 'Import GPX'}
+          <input
+            type="file"
+            accept=".gpx,application/gpx+xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importGpx(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {importError && <p className="text-norway-red">{importError}</p>}
+      {flatPaceSec > 0 && (
+        <>
+          {gainM > 0 && (
+            <p>
+              Grade-adjusted avg <span className="font-semibold text-slate-700 dark:text-slate-200">{formatPace(avgPaceSec, unit)}{paceSuffix}</span> (flat {formatPace(flatPaceSec, unit)}{paceSuffix})
+            </p>
+          )}
+          <div className="flex flex-wrap gap-1.5">
+            {GRADE_GUIDE_PCT.map((pct) => (
+              <span key={pct} className="rounded-md bg-slate-100 dark:bg-slate-800 px-2 py-1">
+                {pct > 0 ? '+' : ''}{pct}% · {formatPace(flatPaceSec * getGradeCostFactor(pct / 100), unit)}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrailRoutePanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DistanceUnit, Treadmill, UserProfile } from '../types';
+import { getTreadmillUnit, MAX_TREADMILL_CALIBRATION, MIN_TREADMILL_CALIBRATION, normalizeTreadmillCalibration } from '../utils/treadmill';
+
+interface TreadmillSettingsEditorProps {
+  profile: UserProfile;
+  onChange: (patch: Partial<Pick<UserProfile, 'treadmillUnit' | 'treadmills' | 'treadmillId'>>) => void;
+}
+
+const newTreadmillId = (): string => `tm-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const TreadmillSettingsEditor: React.FC<TreadmillSettingsEditorProps> = ({ profile, onChange }) => {
+  const [name, setName] = useState('');
+  const treadmills = profile.treadmills || [];
+  const treadmillUnit = getTreadmillUnit(profile);
+
+  const addTreadmill = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const next: Treadmill = { id: newTreadmillId(), name: trimmed, calibration: 1 };
+    onChange({ treadmills: [...treadmills, next], treadmillId: profile.treadmillId || next.id });
+    setName('');
+  };
+
+  const removeTreadmill = (id: string) => {
+    const next = treadmills.filter((t) => t.id !== id);
+    onChange({
+      treadmills: next.length ? next : undefined,
+      treadmillId: profile.treadmillId === id ? next[0]?.id : profile.treadmillId,
+    });
+  };
+
+  // Calibration is edited as "belt runs X% fast/slow" and stored as a speed factor.
+  const updateCalibration = (id: string, value: string) => {
+    const pct = Number(value);
+    const calibration = normalizeTreadmillCalibration(1 + ((Number.isFinite(pct) ? pct : 0) / 100));
+    onChange({ treadmills: treadmills.map((t) => (t.id === id ? { ...t, calibration } : t)) });
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="inline-flex gap-1 rounded-xl border border-slate-200 dark:border-slate-700 p-1 bg-white dark:bg-slate-900">
+        {[DistanceUnit.KM, DistanceUnit.MILES].map((u) => (
+          <button
+            key={u}
+            type="button"
+            onClick={() => onChange({ treadmillUnit: u === profile.unit ? undefined : u })}
+            className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase whitespace-nowrap ${treadmillUnit === u ? 'bg-norway-blue dark:bg-sky-500 text-white' : 'text-slate-500 dark:text-slate-300'}`}
+          >
+            {u === DistanceUnit.MILES ? 'mph' : 'km/h'}
+          </button>
+        ))}
+      </div>
+      {treadmills.length > 0 && (
+        <div className="space-y-1.5 text-slate-500 dark:text-slate-400">
+          <p>Belt speed vs console (%) · measure a known distance to calibrate</p>
+          {treadmills.map((t) => (
+            <div key={t.id} className="flex items-center justify-between gap-2">
+              <label className="inline-flex items-center gap-1.5">
+                <input type="radio" name="default-treadmill" checked={profile.treadmillId === t.id} onChange={() => onChange({ treadmillId: t.id })} />
+                <span className="text-slate-700 dark:text-slate-200">{t.name}</span>
+              </label>
+              <span className="inline-flex items-center gap-1.5">
+                <input
+                  type="number"
+                  min={Math.round((MIN_TREADMILL_CALIBRATION - 1) * 100)}
+                  max={Math.round((MAX_TREADMILL_CALIBRATION - 1) * 100)}
+                  step={0.5}
+                  value={Math.round((t.calibration - 1) * 1000) / 10}
+                  onChange={(e) => updateCalibration(t.id, e.target.value)}
+                  className="w-20 px-2 py-1.5 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-lg text-center font-bold text-slate-900 dark:text-slate-100"
+                  aria-label={`${t.name} calibration (%)`}
+                />
+                %
+                <button type="button" onClick={() => removeTreadmill(t.id)} className="opacity-70 hover:opacity-100" aria-label={`Remove ${t.name}`}>
+                  <Trash2 size={12} />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <input
+          type="text"
+          value={name}
+          placeholder="Treadmill name (e.g. Gym)"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addTreadmill(); }}
+          className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl text-slate-900 dark:text-slate-100"
+        />
+        <button
+          type="button"
+          onClick={addTreadmill}
+          disabled={!name.trim()}
+          className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 disabled:opacity-40"
+        >
+          <Plus size={12} /> Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TreadmillSettingsEditor;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { UserProfile, WorkoutSession } from '../types';
+import { formatPace, paceUnitLabel, speedUnitLabel } from '../utils/units';
+import { buildTreadmillSpeedTable, formatConsoleSpeed, getSessionTreadmill, getTreadmillTableInclines, getTreadmillUnit, TreadmillTargetPaces } from '../utils/treadmill';
+
+interface TreadmillSpeedTableProps {
+  session: WorkoutSession;
+  profile: UserProfile;
+  targetPaces: TreadmillTargetPaces;
+  onSelectTreadmill: (treadmillId: string | undefined) => void;
+}
+
+const TreadmillSpeedTable: React.FC<TreadmillSpeedTableProps> = ({ session, profile, targetPaces, onSelectTreadmill }) => {
+  const treadmillUnit = getTreadmillUnit(profile);
+  const treadmills = profile.treadmills || [];
+  const treadmill = getSessionTreadmill(profile, session);
+  const inclines = getTreadmillTableInclines(session.treadmillInclinePct);
+  const rows = buildTreadmillSpeedTable(session, profile, inclines, targetPaces);
+  const incline = session.treadmillInclinePct;
+
+  return (
+    <div className="space-y-2 text-xs text-slate-500 dark:text-slate-300">
+      {treadmills.length > 0 && (
+        <select
+          value={treadmill?.id || ''}
+          onChange={(e) => onSelectTreadmill(e.target.value || undefined)}
+          className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 font-semibold text-slate-700 dark:text-slate-200"
+          aria-label="Treadmill"
+        >
+          {treadmills.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}{t.calibration !== 1 ? ` (${t.calibration > 1 ? '+' : ''}${Math.round((t.calibration - 1) * 1000) / 10}%)` : ''}
+            </option>
+          ))}
+        </select>
+      )}
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-center">
+            <thead>
+              <tr className="text-[10px] uppercase text-slate-400">
+                <th className="px-2 py-1 text-left font-semibold">{speedUnitLabel(treadmillUnit)}</th>
+                {inclines.map((v) => (
+                  <th key={v} className={`px-2 py-1 font-semibold ${v === incline ? 'text-norway-blue dark:text-sky-300' : ''}`}>{v}%</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className="border-t border-slate-100 dark:border-slate-800">
+                  <td className="px-2 py-1 text-left whitespace-nowrap">
+                    <span className="font-semibold text-slate-700 dark:text-slate-200">{row.label}</span>
+                    <span className="ml-1 text-slate-400">{formatPace(row.flatPaceSec, profile.unit)}{paceUnitLabel(profile.unit)} flat</span>
+                  </td>
+                  {row.speeds.map((speed, j) => (
+                    <td
+                      key={j}
+                      className={`px-2 py-1 tabular-nums ${inclines[j] === incline ? 'font-bold text-norway-blue dark:text-sky-300' : ''}`}
+                    >
+                      {formatConsoleSpeed(speed)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreadmillSpeedTable;
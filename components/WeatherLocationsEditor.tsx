@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import { UserProfile, WeatherLocation } from '../types';
+import { searchWeatherLocations } from '../services/weatherService';
+import { parseCoordinates } from '../utils/weather';
+import { ALTITUDE_THRESHOLD_M, MAX_ALTITUDE_M } from '../utils/calculations';
+
+interface WeatherLocationsEditorProps {
+  profile: UserProfile;
+  onChange: (patch: Partial<Pick<UserProfile, 'weatherLocations' | 'weatherLocationId' | 'altitudeM'>>) => void;
+}
+
+const newLocationId = (): string => `loc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const WeatherLocationsEditor: React.FC<WeatherLocationsEditorProps> = ({ profile, onChange }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<WeatherLocation[]>([]);
+  const [status, setStatus] = useState<'idle' | 'searching' | 'empty' | 'error'>('idle');
+  const locations = profile.weatherLocations || [];
+
+  const addLocation = (location: WeatherLocation) => {
+    if (locations.some((l) => l.id === location.id)) return;
+    onChange({ weatherLocations: [...locations, location], weatherLocationId: profile.weatherLocationId });
+    setResults([]);
+    setQuery('');
+    setStatus('idle');
+  };
+
+  const removeLocation = (id: string) => {
+    const next = locations.filter((l) => l.id !== id);
+    onChange({
+      weatherLocations: next.length ? next : undefined,
+      weatherLocationId: profile.weatherLocationId === id ? undefined : profile.weatherLocationId,
+    });
+  };
+
+  const parseAltitude = (value: string): number | undefined => {
+    const altitude = Math.round(Number(value));
+    return value.trim() && Number.isFinite(altitude) ? Math.min(MAX_ALTITUDE_M, Math.max(0, altitude)) : undefined;
+  };
+  const updateLocationAltitude = (id: string, value: string) => {
+    onChange({ weatherLocations: locations.map((l) => (l.id === id ? { ...l, altitudeM: parseAltitude(value) } : l)) });
+  };
+
+  const search = async () => {
+    const coords = parseCoordinates(query);
+    if (coords) {
+      addLocation({ id: newLocationId(), name: `${coords.latitude.toFixed(2)}, ${coords.longitude.toFixed(2)}`, ...coords });
+      return;
+    }
+    setStatus('searching');
+    try {
+      const found = await searchWeatherLocations(query);
+      setResults(found);
+      setStatus(found.length ? 'idle' : 'empty');
+    } catch {
+      setResults([]);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap gap-1.5">
+        <button
+          type="button"
+          onClick={() => onChange({ weatherLocations: profile.weatherLocations, weatherLocationId: undefined })}
+          className={`px-3 py-2 rounded-lg text-[10px] font-bold uppercase border ${!profile.weatherLocationId ? 'bg-norway-blue dark:bg-sky-500 text-white border-transparent' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'}`}
+        >
+          Device location
+        </button>
+        {locations.map((l) => (
+          <span
+            key={l.id}
+            className={`inline-flex items-center gap-1 rounded-lg border ${profile.weatherLocationId === l.id ? 'bg-norway-blue dark:bg-sky-500 text-white border-transparent' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'}`}
+          >
+            <button
+              type="button"
+              onClick={() => onChange({ weatherLocations: profile.weatherLocations, weatherLocationId: l.id })}
+              className="pl-3 py-2 text-[10px] font-bold uppercase"
+              title={`${l.latitude.toFixed(3)}, ${l.longitude.toFixed(3)}`}
+            >
+              {l.name}
+            </button>
+            <button type="button" onClick={() => removeLocation(l.id)} className="pr-2 py-2 opacity-70 hover:opacity-100" aria-label={`Remove ${l.name}`}>
+              <Trash2 size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="space-y-1.5 text-slate-500 dark:text-slate-400">
+        <p>Altitude (m) · paces slow down above {ALTITUDE_THRESHOLD_M} m</p>
+        {[{ id: '', name: 'Device location', altitudeM: profile.altitudeM }, ...locations].map((l) => (
+          <label key={l.id || 'device'} className="flex items-center justify-between gap-2">
+            <span>{l.name}</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_ALTITUDE_M}
+              step={50}
+              value={l.altitudeM ?? ''}
+              placeholder="0"
+              onChange={(e) => (l.id ? updateLocationAltitude(l.id, e.target.value) : onChange({ altitudeM: parseAltitude(e.target.value) }))}
+              className="w-24 px-2 py-1.5 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-lg text-center font-bold text-slate-900 dark:text-slate-100"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <input
+          type="text"
+          value={query}
+          placeholder="City or lat, lon"
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') search(); }}
+          className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl text-slate-900 dark:text-slate-100"
+        />
+        <button
+          type="button"
+          onClick={search}
+          disabled={!query.trim() || status === 'searching'}
+          className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 disabled:opacity-40"
+        >
+          {parseCoordinates(query) ? <Plus size={12} /> : <Search size={12} />} {parseCoordinates(query) ? 'Add' : 'Search'}
+        </button>
+      </div>
+      {status === 'empty' && <p className="text-slate-400">No places found.</p>}
+      {status === 'error' && <p className="text-norway-red">Location search unavailable. Enter coordinates instead.</p>}
+      {results.length > 0 && (
+        <div className="space-y-1">
+          {results.map((r) => (
+            <button
+              key={r.id}
+              type="button"
+              onClick={() => addLocation(r)}
+              className="flex w-full items-center justify-between gap-2 px-3 py-2 rounded-lg border border-slate-100 dark:border-slate-700 text-left text-slate-700 dark:text-slate-200 hover:border-norway-blue"
+            >
+              <span>{r.name}</span>
+              <span className="text-slate-400">{r.latitude.toFixed(2)}, {r.longitude.toFixed(2)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeatherLocationsEditor;
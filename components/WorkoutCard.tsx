@@ -1,42 +1,77 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { ChevronDown, ChevronUp, GripVertical, RefreshCw, Cloud, CloudRain, CloudSun, Snowflake, Sun, Route, Trees, Bike, Monitor } from 'lucide-react';
-import { WorkoutSession, WorkoutType, UserProfile } from '../types';
-import { applyPaceCorrection, calculatePaceForDistance, calculateThresholdPace, DEFAULT_TREADMILL_INCLINE, formatThresholdSessionTitle, formatThresholdTimeTitle, getEasyRunPaceRange, getIntervalPaceRange, getThresholdDurationAnchorDistance, getTreadmillPaceDeltaSeconds, MAX_TREADMILL_INCLINE, MIN_TREADMILL_INCLINE, secondsToTime } from '../utils/calculations';
-
-interface DailyForecast {
-  date: string;
-  temperatureC: number;
-  humidityPct: number;
-  windKmh: number;
-  weatherCode: number;
-}
+import { ChevronDown, ChevronUp, Download, GripVertical, RefreshCw, Cloud, CloudRain, CloudSun, Snowflake, Sun, Route, Trees, Bike, Monitor } from 'lucide-react';
+import { DailyForecast, DistanceUnit, IcuActivityInterval, Interval, LactateReading, WorkoutSession, WorkoutType, UserProfile } from '../types';
+import { convertPaceText, displayToKm, distanceUnitLabel, formatDistance, formatPace, formatPaceDelta, formatRepDistance, kmToDisplay, localizeWorkoutText, paceToDisplaySec, paceUnitLabel } from '../utils/units';
+import { applyPaceCorrection, calculateThresholdPace, describeTrailPlan, DEFAULT_TREADMILL_INCLINE, formatThresholdIntervalsTitle, getEasyRunPaceRange, getIntervalPaceRange, getPredictedPaceForDistance, getThresholdDurationAnchorDistance, getSessionElevationGainM, getTrailFlatPaceSec, getTrailTimeFactor, getTreadmillPaceDeltaSeconds, MAX_TREADMILL_INCLINE, MIN_TREADMILL_INCLINE, secondsToTime } from '../utils/calculations';
+import { describeWeatherAdjustment, WeatherPaceAdjustment, WeatherSlotSuggestion } from '../utils/weather';
+import IcuWorkoutImport from './IcuWorkoutImport';
+import LactateLogPanel from './LactateLogPanel';
+import RepAnalysisPanel from './RepAnalysisPanel';
+import TrailRoutePanel from './TrailRoutePanel';
+import TreadmillSpeedTable from './TreadmillSpeedTable';
+import { getWorkoutFileFormats, WorkoutFileFormat } from '../services/workoutExportService';
+import { convertPaceTextToSpeed, getSessionTreadmill, getTreadmillUnit } from '../utils/treadmill';
 
 interface WorkoutCardProps {
   session: WorkoutSession;
   profile: UserProfile;
   paceCorrectionSec?: number;
   forecast?: DailyForecast;
+  weatherAdjustment?: WeatherPaceAdjustment;
+  weatherSlot?: WeatherSlotSuggestion;
+  altitudeAdjustment?: { altitudeM: number; deltaSec: number };
   dayLabel: string;
   dayTypeLabel: string;
   onUpdateSession: (session: WorkoutSession) => void;
   onSync: (session: WorkoutSession) => void;
+  onDownload?: (session: WorkoutSession, format: WorkoutFileFormat) => void;
   isSynced?: boolean;
   dragHandleListeners?: Record<string, any>;
   dragHandleAttributes?: Record<string, any>;
+  date?: string;
+  lactateReadings?: LactateReading[];
+  onAddLactateReading?: (reading: LactateReading) => void;
+  onRemoveLactateReading?: (id: string) => void;
+  onWriteLactateToIcu?: () => void;
+  completedActivity?: { id: string; name?: string }; // matched Intervals.icu activity
+  onLoadActivityIntervals?: (activityId: string) => Promise<IcuActivityInterval[]>;
 }
 
+const WORKOUT_FORMAT_HINTS: Record<WorkoutFileFormat, string> = {
+  fit: "Download .fit workout (copy to your watch's NewFiles folder)",
+  zwo: "Download .zwo workout (copy to Zwift's Workouts folder)",
+  erg: 'Download .erg trainer file (absolute watts)',
+  mrc: 'Download .mrc trainer file (% of FTP)',
+};
+
+const formatBikeIntervalsTitle = (intervals: Interval[], unit: DistanceUnit): string => `SubT ${intervals.map((int) => {
+  const repDistance = Math.round(kmToDisplay(Math.max(0, Number(int.distance) || 0) / 1000, unit) * 10) / 10;
+  return `${Math.max(1, Number(int.count) || 1)}x${repDistance}${distanceUnitLabel(unit)}`;
+}).join(' + ')}`;
+
 const WorkoutCard: React.FC<WorkoutCardProps> = ({
   session: initialSession,
   profile,
   paceCorrectionSec = 0,
   forecast,
+  weatherAdjustment,
+  weatherSlot,
+  altitudeAdjustment,
   dayLabel,
   dayTypeLabel,
   onUpdateSession,
   onSync,
+  onDownload,
   isSynced,
   dragHandleListeners,
   dragHandleAttributes,
+  date,
+  lactateReadings = [],
+  onAddLactateReading,
+  onRemoveLactateReading,
+  onWriteLactateToIcu,
+  completedActivity,
+  onLoadActivityIntervals,
 }) => {
   const [currentSession, setCurrentSession] = useState<WorkoutSession>(initialSession);
   const [detailsOpen, setDetailsOpen] = useState(false);
@@ -73,11 +108,15 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
   const isEasy = currentSession.type === WorkoutType.EASY;
   const isLongRun = currentSession.type === WorkoutType.LONG_RUN;
   const isThreshold = currentSession.type === WorkoutType.THRESHOLD;
+  const isRace = currentSession.type === WorkoutType.RACE;
   const isBike = (currentSession.sport || 'run') === 'bike';
+  const unit = profile.unit;
+  const paceSuffix = paceUnitLabel(unit);
   const environment = currentSession.environment || 'road';
   const isTrailMode = environment === 'trail';
   const isTreadmillMode = environment === 'treadmill';
   const treadmillIncline = normalizeIncline(currentSession.treadmillInclinePct);
+  const treadmillUnit = getTreadmillUnit(profile);
   const isHeartRateMode = isTrailMode || !!currentSession.useHeartRateTarget;
   const displayDayTypeLabel = dayTypeLabel.replace('Threshold', 'Subthreshold');
   const effectivePaceCorrectionSec = useMemo(() => {
@@ -151,6 +190,14 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
   };
 
   const getTone = () => {
+    if (dayTypeLabel.includes('Race')) {
+      return {
+        shell: 'bg-white/95 dark:bg-slate-900/95 border-slate-200/80 dark:border-slate-700/90',
+        chip: 'bg-rose-50 text-rose-700 border border-rose-200/70 dark:bg-rose-900/30 dark:text-rose-200 dark:border-rose-800/60',
+        pace: 'bg-rose-50/70 border-rose-200/70 text-rose-900 dark:bg-rose-900/25 dark:border-rose-800/70 dark:text-rose-100',
+        accent: 'bg-rose-400/90 dark:bg-rose-500/90',
+      };
+    }
     if (dayTypeLabel.includes('Threshold')) {
       return {
         shell: 'bg-white/95 dark:bg-slate-900/95 border-slate-200/80 dark:border-slate-700/90',
@@ -195,6 +242,10 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
 
   const recalcDerived = (session: WorkoutSession): WorkoutSession => {
     const normalizedSession = withEnvironmentRules(session);
+    const isTrail = normalizedSession.environment === 'trail';
+    const trailFactor = isTrail ? getTrailTimeFactor(normalizedSession) : 1;
+    const trailNote = isTrail ? describeTrailPlan(normalizedSession, getTrailFlatPaceSec(normalizedSession, profile), unit) : '';
+    const withTrailNote = (text: string) => (trailNote ? `${text} ${trailNote}` : text);
     if ((normalizedSession.sport || 'run') === 'bike') {
       const intervals = normalizedSession.intervals || [];
       const warmupSec = parseRestToSec(normalizedSession.warmup || '');
@@ -226,9 +277,9 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const easyPace = easyRange.center;
       return {
         ...normalizedSession,
-        duration: Math.round(normalizedSession.distance * (easyPace / 60)),
+        duration: Math.round(normalizedSession.distance * (easyPace / 60) * trailFactor),
         description: normalizedSession.useHeartRateTarget
-          ? `Trail mode. Target HR: ${getHrTargetLabel()}.`
+          ? withTrailNote(`Trail mode. Target HR: ${getHrTargetLabel()}.`)
           : `Target Pace: ${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}/km`,
       };
     }
@@ -237,8 +288,10 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const newIntervals = (session.intervals || []).map((int) => {
         const dist = Number(int.distance) || 0;
         const durationSec = Number(int.durationSec) || 0;
-        const anchorDist = durationSec > 0 ? getThresholdDurationAnchorDistance(durationSec) : dist;
-        const paceData = getIntervalPaceRange(profile, anchorDist, effectivePaceCorrectionSec);
+        const anchorDist = int.anchorDist || (durationSec > 0 ? getThresholdDurationAnchorDistance(durationSec) : dist);
+        const paceData = int.customPace && int.pace
+          ? { range: int.pace, effort: int.description }
+          : getIntervalPaceRange(profile, anchorDist, effectivePaceCorrectionSec + (int.lactateAdjustSec || 0));
         const paceMidSec = parsePaceRangeMidSec(paceData.range);
         const derivedDist = durationSec > 0 && paceMidSec > 0
           ? Math.round(((durationSec / paceMidSec) * 1000))
@@ -277,22 +330,20 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
 
       const wuCdSec = (wuKm + cdKm) * easyCenter;
       const sessionDistance = Math.round((wuKm + cdKm + intervalKm) * 10) / 10;
-      const sessionDuration = Math.round((workSec + restSec + wuCdSec) / 60);
+      const sessionDuration = Math.round(((workSec + restSec + wuCdSec) / 60) * trailFactor);
 
       return {
         ...normalizedSession,
         title: newIntervals.length
           ? ((normalizedSession.sport || 'run') === 'bike'
-            ? `SubT ${Math.max(1, Number(newIntervals[0].count) || 1)}x${Math.round((Number(newIntervals[0].distance) || 0) / 1000)}km`
-            : (Number(newIntervals[0].durationSec) || 0) > 0
-              ? formatThresholdTimeTitle(Math.max(1, Number(newIntervals[0].count) || 1), Number(newIntervals[0].durationSec))
-              : formatThresholdSessionTitle(Math.max(1, Number(newIntervals[0].count) || 1), Math.max(0, Number(newIntervals[0].distance) || 0)))
+            ? formatBikeIntervalsTitle(newIntervals, unit)
+            : formatThresholdIntervalsTitle(newIntervals))
           : normalizedSession.title,
         intervals: newIntervals,
         distance: sessionDistance,
         duration: sessionDuration,
         description: normalizedSession.useHeartRateTarget
-          ? `Subthreshold in trail mode. Target HR: ${getHrTargetLabel()}.`
+          ? withTrailNote(`Subthreshold in trail mode. Target HR: ${getHrTargetLabel()}.`)
           : normalizedSession.description,
         warmup: normalizedSession.useHeartRateTarget ? `${wuKm}km Z2 HR` : `${wuKm}km easy pace`,
         cooldown: normalizedSession.useHeartRateTarget ? `${cdKm}km Z2 HR` : `${cdKm}km easy pace`,
@@ -305,9 +356,9 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const easyCenter = easyRange.center;
       return {
         ...normalizedSession,
-        duration: isEasyLong ? Math.round(normalizedSession.distance * (easyCenter / 60)) : normalizedSession.duration,
+        duration: isEasyLong || isTrail ? Math.round(normalizedSession.distance * (easyCenter / 60) * trailFactor) : normalizedSession.duration,
         description: normalizedSession.useHeartRateTarget
-          ? `Trail mode long run. Target HR: ${getHrTargetLabel()}.`
+          ? withTrailNote(`Trail mode long run. Target HR: ${getHrTargetLabel()}.`)
           : normalizedSession.description,
       };
     }
@@ -359,10 +410,13 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       }
 
       if (field === 'distance' || field === 'durationSec') {
+        // A manual edit replaces the template's (or imported) pace with the duration/distance-derived one.
+        delete updated.anchorDist;
+        delete updated.customPace;
         const anchorDist = field === 'durationSec'
           ? getThresholdDurationAnchorDistance(Number(updated.durationSec) || 0)
           : Number(updated.distance);
-        const paceData = getIntervalPaceRange(profile, anchorDist, effectivePaceCorrectionSec);
+        const paceData = getIntervalPaceRange(profile, anchorDist, effectivePaceCorrectionSec + (updated.lactateAdjustSec || 0));
         updated.pace = paceData.range;
         updated.description = paceData.effort;
       }
@@ -388,6 +442,13 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
     });
   };
 
+  const applyLactateAdjustment = (index: number, deltaSec: number) => {
+    const nextIntervals = (currentSession.intervals || []).map((int, i) => (
+      i === index ? { ...int, lactateAdjustSec: deltaSec || undefined } : int
+    ));
+    pushUpdate(recalcDerived({ ...currentSession, intervals: nextIntervals }));
+  };
+
   const updateEasyDistance = (distance: number) => {
     const next = recalcDerived({ ...currentSession, distance: Math.max(0, distance) });
     pushUpdate(next);
@@ -485,25 +546,28 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
   };
 
   const thresholdPace = useMemo(() => {
-    const p = applyPaceCorrection(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile as any), effectivePaceCorrectionSec);
-    return p > 0 ? secondsToTime(p) : '0:00';
-  }, [profile, effectivePaceCorrectionSec]);
+    const p = applyPaceCorrection(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile), effectivePaceCorrectionSec);
+    return p > 0 ? formatPace(p, unit) : '0:00';
+  }, [profile, unit, effectivePaceCorrectionSec]);
 
   const displayTitle = useMemo(() => {
     if (!isThreshold || !currentSession.intervals?.length) return currentSession.title;
-    const first = currentSession.intervals[0];
-    const reps = Math.max(1, Number(first.count) || 1);
-    if (isBike) {
-      const km = Math.round((Math.max(0, Number(first.distance) || 0) / 1000) * 10) / 10;
-      return `SubT ${reps}x${km}km`;
-    }
-    if ((Number(first.durationSec) || 0) > 0) {
-      return formatThresholdTimeTitle(reps, Number(first.durationSec));
-    }
-    const dist = Math.max(0, Number(first.distance) || 0);
-    const distLabel = dist >= 1000 ? `${Math.round((dist / 1000) * 10) / 10}km` : `${Math.round(dist)}m`;
-    return `SubT ${reps}x${distLabel}`;
-  }, [currentSession.intervals, currentSession.title, isBike, isThreshold]);
+    if (isBike) return formatBikeIntervalsTitle(currentSession.intervals, unit);
+    return formatThresholdIntervalsTitle(currentSession.intervals);
+  }, [currentSession.intervals, currentSession.title, isBike, isThreshold, unit]);
+
+  // Corrected rep pace regardless of HR mode, as used by the rep analysis and the treadmill table.
+  const getIntervalTargetRange = (int: Interval) => {
+    if (!isThreshold || (int.customPace && int.pace)) return shiftPaceText(int.pace, effectivePaceCorrectionSec);
+    const durationSec = Number(int.durationSec) || 0;
+    const anchorDist = int.anchorDist || (durationSec > 0 ? getThresholdDurationAnchorDistance(durationSec) : Number(int.distance));
+    return getIntervalPaceRange(profile, anchorDist, effectivePaceCorrectionSec + (int.lactateAdjustSec || 0)).range;
+  };
+
+  const getEasyTargetRange = () => {
+    const easyRange = getEasyRunPaceRange(profile, effectivePaceCorrectionSec);
+    return `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}`;
+  };
 
   const getPrimaryPaceRange = () => {
     if (isBike) {
@@ -518,6 +582,9 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const dist = Number(currentSession.intervals[0].distance);
       return getIntervalPaceRange(profile, dist, effectivePaceCorrectionSec).range;
     }
+    if (isRace && currentSession.intervals?.[0]?.pace) {
+      return shiftPaceText(currentSession.intervals[0].pace, effectivePaceCorrectionSec);
+    }
     if (isEasy) {
       const easyRange = getEasyRunPaceRange(profile, effectivePaceCorrectionSec);
       return `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}`;
@@ -526,7 +593,7 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const easyRange = getEasyRunPaceRange(profile, effectivePaceCorrectionSec);
       return `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}`;
     }
-    const mp = applyPaceCorrection(calculatePaceForDistance(profile.raceDistance, profile.raceTime, 42195), effectivePaceCorrectionSec);
+    const mp = applyPaceCorrection(getPredictedPaceForDistance(profile, 42195), effectivePaceCorrectionSec);
     return secondsToTime(mp);
   };
 
@@ -543,6 +610,9 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const dist = Number(currentSession.intervals[0].distance);
       return getIntervalPaceRange(profile, dist, 0).range;
     }
+    if (isRace && currentSession.intervals?.[0]?.pace) {
+      return currentSession.intervals[0].pace;
+    }
     if (isEasy) {
       const easyRange = getEasyRunPaceRange(profile, 0);
       return `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}`;
@@ -551,11 +621,11 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       const easyRange = getEasyRunPaceRange(profile, 0);
       return `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}`;
     }
-    const mp = calculatePaceForDistance(profile.raceDistance, profile.raceTime, 42195);
+    const mp = getPredictedPaceForDistance(profile, 42195);
     return secondsToTime(mp);
   };
 
-  const getIntervalDisplayPace = (distanceMeters: number, paceFromSession?: string) => {
+  const getIntervalDisplayPace = (distanceMeters: number, paceFromSession?: string, lactateAdjustSec = 0) => {
     if (isBike) {
       const int = currentSession.intervals?.find((x) => Number(x.distance) === Number(distanceMeters) || x.pace === paceFromSession);
       if (int?.targetPowerLow && int?.targetPowerHigh) return `${int.targetPowerLow}-${int.targetPowerHigh}w`;
@@ -565,7 +635,9 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
       return getHrTargetLabel();
     }
     if (isThreshold) {
-      return getIntervalPaceRange(profile, Number(distanceMeters), effectivePaceCorrectionSec).range;
+      const imported = currentSession.intervals?.find((x) => x.customPace && x.pace === paceFromSession);
+      if (imported) return shiftPaceText(imported.pace, effectivePaceCorrectionSec);
+      return getIntervalPaceRange(profile, Number(distanceMeters), effectivePaceCorrectionSec + lactateAdjustSec).range;
     }
     // For long runs and other sessions, keep the pace defined by the selected variant/session.
     if (paceFromSession && paceFromSession.trim().length > 0) {
@@ -594,21 +666,53 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
             </span>
           </div>
           <p className="text-sm text-slate-500 dark:text-slate-300 mt-2">{displayTitle}</p>
+          {!isBike ? (
+            <label className="mt-2 inline-flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-300">
+              Start
+              <input
+                type="time"
+                value={currentSession.startTime || ''}
+                onChange={(e) => pushUpdate({ ...currentSession, startTime: e.target.value || undefined })}
+                className="px-2 py-0.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200"
+              />
+              {!currentSession.startTime && <span className="text-slate-400">Flexible</span>}
+            </label>
+          ) : currentSession.startTime ? (
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-300">Start {currentSession.startTime}</p>
+          ) : null}
           {forecast && !isBike ? (
             <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-full px-2.5 py-1">
               {(() => {
                 const Icon = getWeatherIcon(forecast.weatherCode);
                 return <Icon size={12} />;
               })()}
-              <span>{Math.round(forecast.temperatureC)}C</span>
+              <span>{Math.round(weatherAdjustment?.temperatureC ?? forecast.temperatureC)}C</span>
               <span className="text-slate-400">·</span>
-              <span>{Math.round(forecast.humidityPct)}%</span>
+              {weatherAdjustment ? <span>Dew {Math.round(weatherAdjustment.dewPointC)}C</span> : <span>{Math.round(forecast.humidityPct)}%</span>}
             </div>
           ) : isTreadmillMode ? (
             <div className="mt-2 inline-flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-full px-2.5 py-1">
               <span>Treadmill {treadmillIncline}% incline</span>
             </div>
           ) : null}
+          {weatherAdjustment && !isBike && !isTrailMode ? (
+            <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Weather: {describeWeatherAdjustment(weatherAdjustment, unit)}</p>
+          ) : null}
+          {altitudeAdjustment && altitudeAdjustment.deltaSec !== 0 && !isBike && !isTrailMode ? (
+            <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Altitude: {formatPaceDelta(altitudeAdjustment.deltaSec, unit)} at {Math.round(altitudeAdjustment.altitudeM)} m</p>
+          ) : null}
+          {weatherSlot && !isBike && !currentSession.startTime ? (
+            <p className="mt-1 inline-flex flex-wrap items-center gap-2 text-[11px] text-amber-600 dark:text-amber-300">
+              {weatherSlot.reason === 'least windy' ? 'Least windy' : weatherSlot.reason === 'warmest' ? 'Warmest' : 'Coolest'} slot {weatherSlot.startTime} saves {Math.round(paceToDisplaySec(weatherSlot.savingSec, unit))}s{paceSuffix} vs midday
+              <button
+                type="button"
+                onClick={() => pushUpdate({ ...currentSession, startTime: weatherSlot.startTime })}
+                className="px-2 py-0.5 rounded-lg text-[10px] font-bold uppercase border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+              >
+                Plan at {weatherSlot.startTime}
+              </button>
+            </p>
+          ) : null}
         </div>
 
         <div className="flex items-center gap-2">
@@ -622,15 +726,30 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
             <RefreshCw size={12} />
             Sync
           </button>
-          <button
-            type="button"
-            className="p-2 rounded-full border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800 cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-slate-300"
-            aria-label={`Drag to reorder ${dayLabel}`}
-            {...dragHandleAttributes}
-            {...dragHandleListeners}
-          >
-            <GripVertical size={16} />
-          </button>
+          {onDownload && getWorkoutFileFormats(currentSession, profile).map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onDownload(currentSession, format)}
+              className="inline-flex items-center gap-1 px-2.5 py-2 rounded-full border border-slate-200 dark:border-slate-700 text-[10px] font-semibold uppercase text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-300"
+              aria-label={`Download ${dayLabel} as .${format}`}
+              title={WORKOUT_FORMAT_HINTS[format]}
+            >
+              <Download size={12} />
+              {format}
+            </button>
+          ))}
+          {dragHandleListeners && (
+            <button
+              type="button"
+              className="p-2 rounded-full border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-300 hover:text-slate-700 dark:hover:text-white hover:bg-slate-50 dark:hover:bg-slate-800 cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-slate-300"
+              aria-label={`Drag to reorder ${dayLabel}`}
+              {...dragHandleAttributes}
+              {...dragHandleListeners}
+            >
+              <GripVertical size={16} />
+            </button>
+          )}
           {isMobile && (
             <button
               type="button"
@@ -648,7 +767,7 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-3.5">
           <div className="rounded-2xl bg-slate-50/85 dark:bg-slate-800/85 border border-slate-200/80 dark:border-slate-700/90 px-4 py-3.5">
             <p className="text-[10px] uppercase tracking-wide font-semibold text-slate-500 dark:text-slate-400">Distance</p>
-            <p className="text-lg font-semibold text-slate-900 dark:text-slate-100 mt-1">{currentSession.distance} km</p>
+            <p className="text-lg font-semibold text-slate-900 dark:text-slate-100 mt-1">{formatDistance(currentSession.distance, unit)}</p>
           </div>
           <div className="rounded-2xl bg-slate-50/85 dark:bg-slate-800/85 border border-slate-200/80 dark:border-slate-700/90 px-4 py-3.5">
             <p className="text-[10px] uppercase tracking-wide font-semibold text-slate-500 dark:text-slate-400">Est. Time</p>
@@ -656,8 +775,8 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
           </div>
           <div className={`rounded-2xl border px-4 py-3.5 ${tone.pace}`}>
             <p className="text-[10px] uppercase tracking-wide font-semibold">{isBike || isHeartRateMode ? (isBike ? 'Target Zone' : 'Target HR') : 'Target Pace'}</p>
-            <p className="text-xl font-bold mt-1 leading-none">{getPrimaryPaceRange()}{(isHeartRateMode || isBike) ? '' : '/km'}</p>
-            <p className="text-[11px] mt-1.5 opacity-80">{isBike ? 'Bike session target' : isHeartRateMode ? 'Trail mode · Z2 target' : `Ideal: ${getIdealPaceRange()}/km`}</p>
+            <p className="text-xl font-bold mt-1 leading-none">{(isHeartRateMode || isBike) ? getPrimaryPaceRange() : isTreadmillMode ? convertPaceTextToSpeed(getPrimaryPaceRange(), treadmillUnit, getSessionTreadmill(profile, currentSession)?.calibration) : `${convertPaceText(getPrimaryPaceRange(), unit)}${paceSuffix}`}</p>
+            <p className="text-[11px] mt-1.5 opacity-80">{isBike ? 'Bike session target' : isTreadmillMode && !isHeartRateMode ? `Pace ${convertPaceText(getPrimaryPaceRange(), unit)}${paceSuffix} · ${treadmillIncline}% incline` : isHeartRateMode ? (isTrailMode && getSessionElevationGainM(currentSession) > 0 ? `Trail · ~${formatPace(getTrailFlatPaceSec(currentSession, profile) * getTrailTimeFactor(currentSession), unit)}${paceSuffix} grade-adj.` : 'Trail mode · Z2 target') : `Ideal: ${convertPaceText(getIdealPaceRange(), unit)}${paceSuffix}`}</p>
           </div>
         </div>
 
@@ -674,7 +793,7 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
             <div className="p-4 space-y-4 bg-white dark:bg-slate-900">
               {currentSession.description ? (
                 <div className="text-xs text-slate-700 dark:text-slate-200 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3">
-                  {currentSession.description}
+                  {localizeWorkoutText(currentSession.description, unit)}
                 </div>
               ) : null}
 
@@ -713,33 +832,61 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                   </div>
 
                   {isTreadmillMode ? (
-                    <div className="flex items-end gap-3">
-                      <div className="flex flex-col gap-1">
-                        <span className="text-[10px] text-slate-500 font-semibold uppercase">Incline %</span>
-                        <select
-                          value={treadmillIncline}
-                          onChange={(e) => {
-                            const incline = normalizeIncline(e.target.value);
+                    <div className="space-y-3">
+                      <div className="flex items-end gap-3">
+                        <div className="flex flex-col gap-1">
+                          <span className="text-[10px] text-slate-500 font-semibold uppercase">Incline %</span>
+                          <select
+                            value={treadmillIncline}
+                            onChange={(e) => {
+                              const incline = normalizeIncline(e.target.value);
+                              const updatedVariants = Array.isArray(currentSession.variants)
+                                ? currentSession.variants.map((variant) => ({ ...variant, treadmillInclinePct: incline }))
+                                : currentSession.variants;
+                              const next = recalcDerived({ ...currentSession, treadmillInclinePct: incline, variants: updatedVariants });
+                              pushUpdate(next);
+                            }}
+                            className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 text-sm font-semibold text-slate-900 dark:text-slate-100 w-28"
+                          >
+                            {Array.from({ length: MAX_TREADMILL_INCLINE - MIN_TREADMILL_INCLINE + 1 }, (_, idx) => MIN_TREADMILL_INCLINE + idx).map((v) => (
+                              <option key={v} value={v}>{v}%</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="text-xs text-slate-500 dark:text-slate-300">
+                          Weather + incline adjustment active
+                        </div>
+                      </div>
+                      {!isBike && (
+                        <TreadmillSpeedTable
+                          session={currentSession}
+                          profile={profile}
+                          targetPaces={{ interval: getIntervalTargetRange, easy: getEasyTargetRange() }}
+                          onSelectTreadmill={(treadmillId) => {
                             const updatedVariants = Array.isArray(currentSession.variants)
-                              ? currentSession.variants.map((variant) => ({ ...variant, treadmillInclinePct: incline }))
+                              ? currentSession.variants.map((variant) => ({ ...variant, treadmillId }))
                               : currentSession.variants;
-                            const next = recalcDerived({ ...currentSession, treadmillInclinePct: incline, variants: updatedVariants });
-                            pushUpdate(next);
+                            pushUpdate({ ...currentSession, treadmillId, variants: updatedVariants });
                           }}
-                          className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 text-sm font-semibold text-slate-900 dark:text-slate-100 w-28"
-                        >
-                          {Array.from({ length: MAX_TREADMILL_INCLINE - MIN_TREADMILL_INCLINE + 1 }, (_, idx) => MIN_TREADMILL_INCLINE + idx).map((v) => (
-                            <option key={v} value={v}>{v}%</option>
-                          ))}
-                        </select>
-                      </div>
-                      <div className="text-xs text-slate-500 dark:text-slate-300">
-                        Weather + incline adjustment active
-                      </div>
+                        />
+                      )}
                     </div>
+                  ) : isTrailMode ? (
+                    <TrailRoutePanel
+                      session={currentSession}
+                      unit={unit}
+                      flatPaceSec={getTrailFlatPaceSec(currentSession, profile)}
+                      hrLabel={getHrTargetLabel()}
+                      onChange={(patch) => {
+                        const updatedVariants = Array.isArray(currentSession.variants)
+                          ? currentSession.variants.map((variant) => ({ ...variant, ...patch }))
+                          : currentSession.variants;
+                        pushUpdate(recalcDerived({ ...currentSession, ...patch, variants: updatedVariants }));
+                      }}
+                    />
                   ) : (
                     <div className="text-xs text-slate-500 dark:text-slate-300">
-                      {isTrailMode ? `Trail mode · HR ${getHrTargetLabel()} target` : isBike ? 'Bike mode · zone/power targets' : 'Road mode · weather-adjusted pace'}
+                      {isBike ? 'Bike mode · zone/power targets' : 'Road mode · weather-adjusted pace'}
                     </div>
                   )}
                 </div>
@@ -748,14 +895,14 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
               {isEasy && (
                 <div className="flex items-end justify-between gap-3">
                   <div className="flex flex-col gap-1">
-                    <span className="text-[10px] text-slate-500 font-semibold uppercase">Easy distance (km)</span>
+                    <span className="text-[10px] text-slate-500 font-semibold uppercase">Easy distance ({distanceUnitLabel(unit)})</span>
                     <input
                       type="number"
-                      value={currentSession.distance}
+                      value={Math.round(kmToDisplay(currentSession.distance, unit) * 10) / 10}
                       min={0}
                       step={1}
                       onChange={(e) => {
-                        const v = Math.max(0, Number(e.target.value) || 0);
+                        const v = Math.round(displayToKm(Math.max(0, Number(e.target.value) || 0), unit) * 10) / 10;
                         if (isBike) pushUpdate(recalcDerived({ ...currentSession, distance: v, intervals: [{ distance: Math.round(v * 1000), count: 1, pace: '', rest: '0', description: currentSession.intervals?.[0]?.description || 'Zone 2', targetZone: currentSession.intervals?.[0]?.targetZone || 'Z2', targetPowerLow: currentSession.intervals?.[0]?.targetPowerLow, targetPowerHigh: currentSession.intervals?.[0]?.targetPowerHigh }] }));
                         else updateEasyDistance(v);
                       }}
@@ -763,12 +910,12 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                     />
                     <input
                       type="range"
-                      min={isBike ? 10 : 4}
-                      max={isBike ? 220 : 30}
+                      min={Math.round(kmToDisplay(isBike ? 10 : 4, unit))}
+                      max={Math.round(kmToDisplay(isBike ? 220 : 30, unit))}
                       step={1}
-                      value={Math.round(currentSession.distance)}
+                      value={Math.round(kmToDisplay(currentSession.distance, unit))}
                       onChange={(e) => {
-                        const v = Math.max(0, Number(e.target.value) || 0);
+                        const v = Math.round(displayToKm(Math.max(0, Number(e.target.value) || 0), unit) * 10) / 10;
                         if (isBike) {
                           pushUpdate(recalcDerived({
                             ...currentSession,
@@ -809,29 +956,29 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                       </p>
                     )}
                   </div>
-                  <div className="text-xs text-slate-500 dark:text-slate-300">{isBike ? 'Zone-based aerobic ride' : `Subthreshold ${thresholdPace}/km`}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-300">{isBike ? 'Zone-based aerobic ride' : `Subthreshold ${thresholdPace}${paceSuffix}`}</div>
                 </div>
               )}
 
               {isLongRun && !isBike && currentSession.title.toLowerCase().includes('easy') && (
                 <div className="flex items-end justify-between gap-3">
                   <div className="flex flex-col gap-1">
-                    <span className="text-[10px] text-slate-500 font-semibold uppercase">Long run distance (km)</span>
+                    <span className="text-[10px] text-slate-500 font-semibold uppercase">Long run distance ({distanceUnitLabel(unit)})</span>
                     <input
                       type="number"
-                      value={currentSession.distance}
+                      value={Math.round(kmToDisplay(currentSession.distance, unit) * 10) / 10}
                       min={0}
                       step={1}
-                      onChange={(e) => updateEasyLongRunDistance(Number(e.target.value))}
+                      onChange={(e) => updateEasyLongRunDistance(Math.round(displayToKm(Number(e.target.value), unit) * 10) / 10)}
                       className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 text-sm font-semibold text-slate-900 dark:text-slate-100 w-32"
                     />
                     <input
                       type="range"
-                      min={15}
-                      max={60}
+                      min={Math.round(kmToDisplay(15, unit))}
+                      max={Math.round(kmToDisplay(60, unit))}
                       step={1}
-                      value={Math.round(currentSession.distance)}
-                      onChange={(e) => updateEasyLongRunDistance(Number(e.target.value))}
+                      value={Math.round(kmToDisplay(currentSession.distance, unit))}
+                      onChange={(e) => updateEasyLongRunDistance(Math.round(displayToKm(Number(e.target.value), unit) * 10) / 10)}
                       className="w-56 accent-norway-blue mt-1"
                     />
                   </div>
@@ -877,7 +1024,7 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                             className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2.5 py-1.5 text-sm font-semibold text-slate-900 dark:text-slate-100"
                           >
                             {[1000, 1500, 2000, 2500, 3000, 4000, 5000, 8000, 10000].map((d) => (
-                              <option key={d} value={d}>{d >= 1000 ? `${d / 1000}km` : `${d}m`}</option>
+                              <option key={d} value={d}>{formatRepDistance(d, unit)}</option>
                             ))}
                           </select>
                         ) : (Number(int.durationSec) || 0) > 0 ? (
@@ -932,7 +1079,7 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                             ? (int.targetPowerLow && int.targetPowerHigh ? `${int.targetPowerLow}-${int.targetPowerHigh}w` : (int.targetZone || 'Zone 3-4'))
                             : (isHeartRateMode
                               ? getHrTargetLabel()
-                              : getIntervalPaceRange(profile, Number(int.distance), effectivePaceCorrectionSec).range)}
+                              : `${convertPaceText(getIntervalDisplayPace(Number(int.distance), int.pace, int.lactateAdjustSec), unit)}${paceSuffix}`)}
                         </div>
                       </div>
                     </div>
@@ -940,6 +1087,30 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                 </div>
               )}
 
+              {isThreshold && !isBike && profile.lactateMode && date && onAddLactateReading && onRemoveLactateReading && (
+                <LactateLogPanel
+                  session={currentSession}
+                  date={date}
+                  profile={profile}
+                  readings={lactateReadings}
+                  onAddReading={onAddLactateReading}
+                  onRemoveReading={onRemoveLactateReading}
+                  onApplyAdjustment={applyLactateAdjustment}
+                  onWriteToIcu={onWriteLactateToIcu}
+                />
+              )}
+
+              {isThreshold && !isBike && completedActivity && onLoadActivityIntervals && (currentSession.intervals?.length || 0) > 0 && (
+                <RepAnalysisPanel
+                  session={currentSession}
+                  unit={unit}
+                  activityId={completedActivity.id}
+                  activityName={completedActivity.name}
+                  getTargetRange={getIntervalTargetRange}
+                  onLoadIntervals={onLoadActivityIntervals}
+                />
+              )}
+
               {isLongRun && hasVariants && (
                 <div className="flex items-end justify-between gap-3">
                   <div className="flex flex-col gap-1">
@@ -962,29 +1133,31 @@ const WorkoutCard: React.FC<WorkoutCardProps> = ({
                 <div className="space-y-2 pt-1">
                   {currentSession.warmup ? (
                     <div className="text-xs text-slate-700 bg-slate-50 border border-slate-200 rounded-xl p-2.5">
-                      <span className="font-semibold">Warmup:</span> {currentSession.warmup}
+                      <span className="font-semibold">Warmup:</span> {localizeWorkoutText(currentSession.warmup, unit)}
                     </div>
                   ) : null}
                   {currentSession.intervals!.map((int, idx) => (
                     <div key={idx} className="text-xs text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl p-2.5">
                       <span className="font-semibold">
-                        {int.count} × {(Number(int.durationSec) || 0) > 0 ? formatDurationToken(Number(int.durationSec)) : (int.distance >= 1000 ? `${Math.round((int.distance / 1000) * 10) / 10}km` : `${int.distance}m`)}
+                        {int.count} × {(Number(int.durationSec) || 0) > 0 ? formatDurationToken(Number(int.durationSec)) : formatRepDistance(int.distance, unit)}
                       </span>
                       <span className="mx-2 text-slate-400">·</span>
                       <span>{isBike
                         ? (int.targetPowerLow && int.targetPowerHigh ? `${int.targetPowerLow}-${int.targetPowerHigh}w` : (int.targetZone || 'Zone 2'))
-                        : `${getIntervalDisplayPace(Number(int.distance), int.pace)}${isHeartRateMode ? '' : '/km'}`}</span>
+                        : (isHeartRateMode ? getIntervalDisplayPace(Number(int.distance), int.pace) : `${convertPaceText(getIntervalDisplayPace(Number(int.distance), int.pace, int.lactateAdjustSec), unit)}${paceSuffix}`)}</span>
                       <span className="mx-2 text-slate-400">·</span>
                       <span>Rest {int.rest}</span>
                     </div>
                   ))}
                   {currentSession.cooldown ? (
                     <div className="text-xs text-slate-700 bg-slate-50 border border-slate-200 rounded-xl p-2.5">
-                      <span className="font-semibold">Cooldown:</span> {currentSession.cooldown}
+                      <span className="font-semibold">Cooldown:</span> {localizeWorkoutText(currentSession.cooldown, unit)}
                     </div>
                   ) : null}
                 </div>
               )}
+
+              <IcuWorkoutImport session={currentSession} unit={unit} ftp={profile.ftp} onApply={pushUpdate} />
             </div>
           )}
         </div>
@@ -46,17 +46,24 @@ export interface InsightsDataset {
     subTHrLowBpm?: number;
     subTHrHighBpm?: number;
   };
+  source?: 'intervals' | 'local' | 'mixed';
   fetchedAt: string;
 }
 
-interface RawActivity {
+// Intervals.icu activity/wellness JSON; local file imports are normalised to the same keys.
+export interface RawActivity {
   [key: string]: any;
 }
 
-interface RawWellness {
+export interface RawWellness {
   [key: string]: any;
 }
 
+export interface LocalInsightsData {
+  activities: RawActivity[];
+  wellness: RawWellness[];
+}
+
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
 const asNumber = (value: unknown): number | undefined => {
@@ -255,19 +262,53 @@ const fetchAthleteProfile = async (config: IntervalsIcuConfig): Promise<any | nu
   return null;
 };
 
-export const loadInsightsDataset = async (config: IntervalsIcuConfig, lookbackDays = 730): Promise<InsightsDataset> => {
-  if (!config.connected || !config.apiKey) {
+// A local file and the synced Intervals.icu copy of the same run: same day, distance and time within 3%.
+const isSameActivity = (a: RawActivity, b: RawActivity): boolean => {
+  if (toIsoDate(a.start_date_local || a.start_date) !== toIsoDate(b.start_date_local || b.start_date)) return false;
+  const within = (x: number, y: number) => Math.abs(x - y) <= Math.max(x, y) * 0.03;
+  return within(extractDistanceMeters(a), extractDistanceMeters(b)) && within(extractMovingSeconds(a), extractMovingSeconds(b));
+};
+
+const inDateRange = (value: unknown, oldest: string, newest: string): boolean => {
+  const date = toIsoDate(value);
+  return !!date && date >= oldest && date <= newest;
+};
+
+/**
+ * Loads activities and wellness from Intervals.icu and/or locally imported files.
+ * Local activities already present in Intervals.icu are skipped; Intervals wellness wins per day.
+ */
+export const loadInsightsDataset = async (
+  config: IntervalsIcuConfig,
+  lookbackDays = 730,
+  local?: LocalInsightsData,
+): Promise<InsightsDataset> => {
+  const connected = config.connected && !!config.apiKey;
+  const hasLocal = !!(local?.activities.length || local?.wellness.length);
+  if (!connected && !hasLocal) {
     throw new Error('Intervals.icu is not connected.');
   }
 
   const newest = fromDateOffset(0);
   const oldest = fromDateOffset(Math.max(30, Math.round(lookbackDays)));
 
-  const [activities, wellness, athleteProfile] = await Promise.all([
-    fetchActivities(config, oldest, newest),
-    fetchWellness(config, oldest, newest),
-    fetchAthleteProfile(config),
-  ]);
+  const [remoteActivities, remoteWellness, athleteProfile] = connected
+    ? await Promise.all([
+      fetchActivities(config, oldest, newest),
+      fetchWellness(config, oldest, newest),
+      fetchAthleteProfile(config),
+    ])
+    : [[], [], null];
+
+  const localActivities = (local?.activities || [])
+    .filter((a) => inDateRange(a.start_date_local, oldest, newest))
+    .filter((a) => !remoteActivities.some((r) => isSameActivity(a, r)));
+  const remoteWellnessDates = new Set(remoteWellness.map((w) => toIsoDate(w.id || w.date)));
+  const localWellness = (local?.wellness || [])
+    .filter((w) => inDateRange(w.id, oldest, newest) && !remoteWellnessDates.has(toIsoDate(w.id)));
+  const activities = [...remoteActivities, ...localActivities];
+  const wellness = [...remoteWellness, ...localWellness];
+  const source: InsightsDataset['source'] = !connected ? 'local' : (localActivities.length || localWellness.length) ? 'mixed' : 'intervals';
 
   const runs = activities.filter(isRunActivity);
   const runSamples: Array<{
@@ -551,6 +592,7 @@ export const loadInsightsDataset = async (config: IntervalsIcuConfig, lookbackDa
       subTHrLowBpm: subTHrLow ? Math.round(subTHrLow) : undefined,
       subTHrHighBpm: subTHrHigh ? Math.round(subTHrHigh) : undefined,
     },
+    source,
     fetchedAt: new Date().toISOString(),
   };
 };
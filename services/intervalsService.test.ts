@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { pickSessionRun } from './intervalsService';
+
+const activities = [
+  { id: 'pm', type: 'Run', start_date_local: '2026-01-06T17:41:05' },
+  { id: 'ride', type: 'Ride', start_date_local: '2026-01-06T12:00:00' },
+  { id: 'am', type: 'Run', start_date_local: '2026-01-06T07:08:30' },
+];
+
+describe('pickSessionRun', () => {
+  it('matches each half of a double day by its start time', () => {
+    expect(pickSessionRun(activities, 0, '07:00')?.id).toBe('am');
+    expect(pickSessionRun(activities, 1, '17:30')?.id).toBe('pm');
+  });
+
+  it('falls back to the order of the runs in the day', () => {
+    expect(pickSessionRun(activities, 0)?.id).toBe('am');
+    expect(pickSessionRun(activities, 1)?.id).toBe('pm');
+    expect(pickSessionRun(activities, 2)?.id).toBe('pm');
+  });
+
+  it('ignores other sports', () => {
+    expect(pickSessionRun(activities.slice(1, 2), 0, '12:00')).toBeUndefined();
+  });
+});
@@ -1,7 +1,10 @@
 import { Encoder, Profile } from '@garmin/fitsdk';
-import { WorkoutSession, IntervalsIcuConfig, WorkoutType } from '../types';
+import { WorkoutSession, IntervalsIcuConfig, WorkoutType, DistanceUnit, LactateReading, IcuActivityInterval, IcuActivitySummary, IcuEventSummary } from '../types';
+import { formatThresholdIntervalsTitle } from '../utils/calculations';
+import { convertPaceText, isMiles, METERS_PER_MILE } from '../utils/units';
+import { formatLactateNote, LACTATE_NOTE_PREFIX } from '../utils/lactate';
 
-interface FitStepSpec {
+export interface FitStepSpec {
   wktStepName: string;
   durationType: 'distance' | 'time' | 'repeatUntilStepsCmplt';
   durationValue: number;
@@ -13,20 +16,13 @@ interface FitStepSpec {
 }
 
 const PLACEHOLDER_STEP_VALUES = new Set(['', '0', 'n/a', 'na', 'direct start', 'walk off', 'none']);
+// FIT custom power targets: values above 1000 are watts + 1000, smaller ones are %FTP.
+export const FIT_POWER_WATTS_OFFSET = 1000;
 const ICU_GARMIN_SAFE_INTENSITY = String(import.meta.env.VITE_ICU_GARMIN_SAFE_INTENSITY ?? 'true').toLowerCase() !== 'false';
 
-const getDynamicTitle = (session: WorkoutSession): string => {
+export const getDynamicTitle = (session: WorkoutSession): string => {
   if (session.type !== WorkoutType.THRESHOLD || !session.intervals?.length) return session.title;
-  const first = session.intervals[0];
-  const reps = Math.max(1, Number(first.count) || 1);
-  const durationSec = Number(first.durationSec) || 0;
-  if (durationSec > 0) {
-    const mins = Math.max(1, Math.round(durationSec / 60));
-    return `SubT ${reps}x${mins}:00`;
-  }
-  const dist = Math.max(0, Number(first.distance) || 0);
-  const distLabel = dist >= 1000 ? `${Math.round((dist / 1000) * 10) / 10}km` : `${Math.round(dist)}m`;
-  return `SubT ${reps}x${distLabel}`;
+  return formatThresholdIntervalsTitle(session.intervals);
 };
 
 const getIcuType = (_type: WorkoutType, sport: WorkoutSession['sport']): string => (sport === 'bike' ? 'Ride' : 'Run');
@@ -36,27 +32,44 @@ const isPlaceholderStep = (raw?: string): boolean => {
   return PLACEHOLDER_STEP_VALUES.has(value);
 };
 
-const kmTokenFromMeters = (meters: number): string => {
-  const km = Math.max(0, Number(meters) || 0) / 1000;
-  const rounded = Math.round(km * 1000) / 1000;
-  return `${rounded}km`;
+const durationToken = (durationSec: number): string => (
+  durationSec % 60 === 0 ? `${durationSec / 60}m` : `${Math.round(durationSec)}s`
+);
+
+const distanceTokenFromMeters = (meters: number, unit: DistanceUnit = DistanceUnit.KM): string => {
+  const safe = Math.max(0, Number(meters) || 0);
+  if (isMiles(unit)) return `${Math.round((safe / METERS_PER_MILE) * 100) / 100}mi`;
+  return `${Math.round((safe / 1000) * 1000) / 1000}km`;
 };
 
-const normalizePaceRange = (pace: string): string => {
-  const cleaned = (pace || '').replace(/\/km/gi, '').replace(/pace/gi, '').trim();
+// "2km" / "1.5mi" style tokens; miles first so "mi" is never read as minutes.
+const DISTANCE_TOKEN_RE = /(\d+(?:\.\d+)?)\s*(mi(?:les?)?|km)\b/i;
+
+const distanceTokenToMeters = (value: string): number => {
+  const match = value.match(DISTANCE_TOKEN_RE);
+  if (!match) return 0;
+  const amount = Number(match[1]) || 0;
+  return match[2].toLowerCase().startsWith('mi') ? amount * METERS_PER_MILE : amount * 1000;
+};
+
+/** Pace text in the export unit, e.g. "4:10-4:20/km" or "6:42-6:58/mi". Input without a suffix is per km. */
+const normalizePaceRange = (pace: string, unit: DistanceUnit = DistanceUnit.KM): string => {
+  const isPerMile = /\/mi/i.test(pace || '');
+  const cleaned = (pace || '').replace(/\/(km|mi)/gi, '').replace(/pace/gi, '').trim();
   if (!cleaned) return '';
   const parts = cleaned.split('-').map((p) => p.trim()).filter(Boolean);
   if (!parts.length) return '';
-  if (parts.length === 1) return `${parts[0]}/km`;
-  return `${parts[0]}-${parts[1]}/km`;
+  const range = parts.length === 1 ? parts[0] : `${parts[0]}-${parts[1]}`;
+  if (isPerMile) return `${range}/mi`;
+  return isMiles(unit) ? `${convertPaceText(range, unit)}/mi` : `${range}/km`;
 };
 
-const normalizeEasyStep = (raw: string): string => {
+const normalizeEasyStep = (raw: string, unit: DistanceUnit = DistanceUnit.KM): string => {
   const value = (raw || '').trim();
   if (!value) return '10m easy run';
 
-  const kmMatch = value.match(/(\d+(?:\.\d+)?)\s*km/i);
-  if (kmMatch) return `${kmMatch[1]}km easy run`;
+  const meters = distanceTokenToMeters(value);
+  if (meters > 0) return `${distanceTokenFromMeters(meters, unit)} easy run`;
 
   const secMatch = value.match(/(\d+(?:\.\d+)?)\s*s/i);
   if (secMatch) return `${secMatch[1]}s easy run`;
@@ -67,12 +80,12 @@ const normalizeEasyStep = (raw: string): string => {
   return `${value} easy run`;
 };
 
-const normalizeRecoveryStep = (raw: string): string => {
+const normalizeRecoveryStep = (raw: string, unit: DistanceUnit = DistanceUnit.KM): string => {
   const value = (raw || '').trim();
   if (!value || value === '0') return '';
 
-  const kmMatch = value.match(/(\d+(?:\.\d+)?)\s*km/i);
-  if (kmMatch) return `${kmMatch[1]}km recovery run`;
+  const meters = distanceTokenToMeters(value);
+  if (meters > 0) return `${distanceTokenFromMeters(meters, unit)} recovery run`;
 
   const secMatch = value.match(/(\d+(?:\.\d+)?)\s*s/i);
   if (secMatch) return `${secMatch[1]}s recovery`;
@@ -89,15 +102,16 @@ const normalizeRecoveryStep = (raw: string): string => {
 const extractEasyPaceFromDescription = (description: string): string => {
   const text = (description || '').trim();
   if (!text) return '';
-  const m = text.match(/Target Pace:\s*([0-9]+:[0-9]{2})(?:-([0-9]+:[0-9]{2}))?\/km/i);
+  const m = text.match(/Target Pace:\s*([0-9]+:[0-9]{2})(?:-([0-9]+:[0-9]{2}))?\/(km|mi)/i);
   if (!m) return '';
   const low = (m[1] || '').trim();
   const high = (m[2] || '').trim();
   if (!low) return '';
-  return high ? `${low}-${high}/km` : `${low}/km`;
+  const suffix = `/${m[3].toLowerCase()}`;
+  return high ? `${low}-${high}${suffix}` : `${low}${suffix}`;
 };
 
-const sanitizeFilename = (name: string): string => {
+export const sanitizeFilename = (name: string): string => {
   const safe = (name || 'workout')
     .replace(/[^a-zA-Z0-9-_]+/g, '_')
     .replace(/_{2,}/g, '_')
@@ -109,7 +123,9 @@ const parsePaceRangeToSpeedRaw = (pace?: string): { low: number; high: number }
   const text = normalizePaceRange(pace || '');
   if (!text) return null;
 
-  const parts = text.replace('/km', '').split('-').map((p) => p.trim()).filter(Boolean);
+  // Speed targets are m/s regardless of display unit.
+  const metersPerPaceUnit = text.endsWith('/mi') ? METERS_PER_MILE : 1000;
+  const parts = text.replace(/\/(km|mi)$/, '').split('-').map((p) => p.trim()).filter(Boolean);
   if (!parts.length) return null;
 
   const toSec = (token: string): number => {
@@ -124,8 +140,8 @@ const parsePaceRangeToSpeedRaw = (pace?: string): { low: number; high: number }
 
   const slowest = Math.max(...values);
   const fastest = Math.min(...values);
-  const lowMs = 1000 / slowest;
-  const highMs = 1000 / fastest;
+  const lowMs = metersPerPaceUnit / slowest;
+  const highMs = metersPerPaceUnit / fastest;
 
   return {
     low: Math.round(lowMs * 1000),
@@ -137,11 +153,8 @@ const parseDurationToFit = (raw?: string): { durationType: 'distance' | 'time';
   const value = (raw || '').trim().toLowerCase();
   if (isPlaceholderStep(value)) return null;
 
-  const kmMatch = value.match(/(\d+(?:\.\d+)?)\s*km/);
-  if (kmMatch) {
-    const meters = Math.max(0, Number(kmMatch[1]) * 1000);
-    if (meters > 0) return { durationType: 'distance', durationValue: Math.round(meters * 100) };
-  }
+  const meters = distanceTokenToMeters(value);
+  if (meters > 0) return { durationType: 'distance', durationValue: Math.round(meters * 100) };
 
   const secMatch = value.match(/(\d+(?:\.\d+)?)\s*s/);
   if (secMatch) {
@@ -180,8 +193,8 @@ const buildFitStep = (
       durationType: duration.durationType,
       durationValue: duration.durationValue,
       targetType: 'power',
-      customTargetValueLow: Math.round(powerRange.low),
-      customTargetValueHigh: Math.round(powerRange.high),
+      customTargetValueLow: Math.round(powerRange.low) + FIT_POWER_WATTS_OFFSET,
+      customTargetValueHigh: Math.round(powerRange.high) + FIT_POWER_WATTS_OFFSET,
       intensity: safeIntensity,
     };
   }
@@ -220,7 +233,7 @@ const buildFitStep = (
   };
 };
 
-const buildFitWorkoutSteps = (session: WorkoutSession): FitStepSpec[] => {
+export const buildFitWorkoutSteps = (session: WorkoutSession): FitStepSpec[] => {
   const steps: FitStepSpec[] = [];
   const hrRange = session.useHeartRateTarget && session.targetHrLow && session.targetHrHigh
     ? { low: session.targetHrLow, high: session.targetHrHigh }
@@ -291,7 +304,8 @@ const toBase64 = (bytes: Uint8Array): string => {
   return btoa(binary);
 };
 
-const buildFitWorkoutFileBase64 = (session: WorkoutSession): string => {
+/** FIT workout file bytes; the same file can be uploaded to Intervals.icu or copied to a device. */
+export const buildFitWorkoutFile = (session: WorkoutSession): Uint8Array => {
   const workoutName = getDynamicTitle(session);
   const steps = buildFitWorkoutSteps(session);
   const encoder = new Encoder();
@@ -318,14 +332,17 @@ const buildFitWorkoutFileBase64 = (session: WorkoutSession): string => {
     });
   });
 
-  return toBase64(encoder.close());
+  return encoder.close();
 };
 
+const buildFitWorkoutFileBase64 = (session: WorkoutSession): string => toBase64(buildFitWorkoutFile(session));
+
 /**
  * Intervals.icu workout text format with explicit run/recovery wording.
  * Example: Wu 2km easy run; 5x[2km @ 4:10-4:20/km run / 60s recovery]; Cd 1km easy run
+ * In miles mode distances and paces use "mi" tokens: 5x[1.24mi @ 6:42-6:58/mi run / 60s recovery]
  */
-const formatIcuWorkoutText = (session: WorkoutSession): string => {
+export const formatIcuWorkoutText = (session: WorkoutSession, unit: DistanceUnit = DistanceUnit.KM): string => {
   const title = getDynamicTitle(session);
   const chunks: string[] = [];
   const hrToken = session.useHeartRateTarget
@@ -334,21 +351,21 @@ const formatIcuWorkoutText = (session: WorkoutSession): string => {
   const isBike = (session.sport || 'run') === 'bike';
 
   if (!isPlaceholderStep(session.warmup) && session.warmup) {
-    chunks.push(`Wu ${normalizeEasyStep(session.warmup)}`);
+    chunks.push(`Wu ${normalizeEasyStep(session.warmup, unit)}`);
   }
 
   if (session.intervals && session.intervals.length > 0) {
     for (const int of session.intervals) {
       const reps = Math.max(1, Number(int.count) || 1);
       const durationSec = Number(int.durationSec) || 0;
-      const distStr = int.distance > 0 ? kmTokenFromMeters(int.distance) : '';
-      const pace = normalizePaceRange(int.pace || '');
+      const distStr = int.distance > 0 ? distanceTokenFromMeters(int.distance, unit) : '';
+      const pace = normalizePaceRange(int.pace || '', unit);
       const runStep = isBike
-        ? `${distStr} ${int.targetPowerLow && int.targetPowerHigh ? `@ ${int.targetPowerLow}-${int.targetPowerHigh}w` : `@ ${int.targetZone || 'Z2'}`} ride`.trim()
+        ? `${durationSec > 0 ? durationToken(durationSec) : distStr} ${int.targetPowerLow && int.targetPowerHigh ? `@ ${int.targetPowerLow}-${int.targetPowerHigh}w` : `@ ${int.targetZone || 'Z2'}`} ride`.trim()
         : session.useHeartRateTarget
-          ? `${durationSec > 0 ? `${Math.round(durationSec / 60)}m` : distStr} @ ${hrToken} run`.trim()
-          : `${durationSec > 0 ? `${Math.round(durationSec / 60)}m` : distStr}${pace ? ` @ ${pace}` : ''} run`.trim();
-      const recovery = normalizeRecoveryStep(int.rest || '');
+          ? `${durationSec > 0 ? durationToken(durationSec) : distStr} @ ${hrToken} run`.trim()
+          : `${durationSec > 0 ? durationToken(durationSec) : distStr}${pace ? ` @ ${pace}` : ''} run`.trim();
+      const recovery = normalizeRecoveryStep(int.rest || '', unit);
 
       if (reps > 1) {
         if (recovery) {
@@ -363,31 +380,53 @@ const formatIcuWorkoutText = (session: WorkoutSession): string => {
       }
     }
   } else {
-    const easyPace = extractEasyPaceFromDescription(session.description || '');
+    const easyPace = normalizePaceRange(extractEasyPaceFromDescription(session.description || ''), unit);
+    const sessionDistStr = distanceTokenFromMeters((Number(session.distance) || 0) * 1000, unit);
     const main = isBike
       ? `${Math.round(Number(session.duration) || 0)}m @ ${(session.intervals?.[0]?.targetPowerLow && session.intervals?.[0]?.targetPowerHigh) ? `${session.intervals?.[0]?.targetPowerLow}-${session.intervals?.[0]?.targetPowerHigh}w` : (session.intervals?.[0]?.targetZone || 'Z2')} ride`
       : session.useHeartRateTarget
-        ? `${session.distance}km @ ${hrToken} run`
-        : `${session.distance}km${easyPace ? ` @ ${easyPace}` : ''} run`;
+        ? `${sessionDistStr} @ ${hrToken} run`
+        : `${sessionDistStr}${easyPace ? ` @ ${easyPace}` : ''} run`;
     chunks.push(main);
   }
 
   if (!isPlaceholderStep(session.cooldown) && session.cooldown) {
-    chunks.push(`Cd ${normalizeEasyStep(session.cooldown)}`);
+    chunks.push(`Cd ${normalizeEasyStep(session.cooldown, unit)}`);
   }
 
   const body = chunks.join('; ');
-  return `${title}\n\n${body}`;
+  // Free-text lines are kept as notes by Intervals.icu; the step text stays last for parsing.
+  const notes = [session.treadmillNote, session.weatherNote, session.altitudeNote].filter(Boolean);
+  return notes.length ? `${title}\n${notes.join('\n')}\n\n${body}` : `${title}\n\n${body}`;
 };
 
-const buildWorkoutPayload = (session: WorkoutSession, date: string) => {
-  const dynamicTitle = getDynamicTitle(session);
-  const movingTimeSec = Math.max(0, Math.round((Number(session.duration) || 0) * 60));
-  const icuWorkout = formatIcuWorkoutText(session);
+export const normalizeStartTime = (startTime?: string): string => {
+  const match = (startTime || '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return '12:00';
+  const h = Math.min(23, Number(match[1]));
+  const m = Math.min(59, Number(match[2]));
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+/** Event name, text and timing exactly as a sync would send them; used to preview changes. */
+export const describeIcuEvent = (
+  session: WorkoutSession,
+  date: string,
+  unit: DistanceUnit = DistanceUnit.KM
+): { name: string; description: string; startLocal: string; movingSec: number } => ({
+  name: getDynamicTitle(session),
+  description: formatIcuWorkoutText(session, unit),
+  startLocal: `${date}T${normalizeStartTime(session.startTime)}`,
+  movingSec: Math.max(0, Math.round((Number(session.duration) || 0) * 60)),
+});
+
+const buildWorkoutPayload = (session: WorkoutSession, date: string, unit: DistanceUnit = DistanceUnit.KM) => {
+  const { name: dynamicTitle, description: icuWorkout, startLocal, movingSec: movingTimeSec } = describeIcuEvent(session, date, unit);
   const fitWorkoutBase64 = buildFitWorkoutFileBase64(session);
 
   return {
-    category: 'WORKOUT',
+    // Intervals.icu marks goal races with RACE_A/B/C so they show up on the fitness chart.
+    category: session.type === WorkoutType.RACE ? `RACE_${session.racePriority || 'A'}` : 'WORKOUT',
     type: getIcuType(session.type, session.sport),
     name: dynamicTitle,
     // Keep ICU text for readability/debugging and fallback parsing.
@@ -396,7 +435,8 @@ const buildWorkoutPayload = (session: WorkoutSession, date: string) => {
     filename: `${sanitizeFilename(dynamicTitle)}.fit`,
     file_contents_base64: fitWorkoutBase64,
     // Midday local avoids timezone/date rollover issues (e.g. missing Sunday on downstream sync).
-    start_date_local: `${date}T12:00:00`,
+    // Sessions with an explicit start time (AM/PM doubles) keep it so both land in order.
+    start_date_local: `${startLocal}:00`,
     moving_time: movingTimeSec,
   };
 };
@@ -415,6 +455,27 @@ export interface IcuBulkSyncResult {
   error?: string;
 }
 
+export interface IcuActivityWriteResult {
+  ok: boolean;
+  activityId?: string;
+  status?: number;
+  error?: string;
+}
+
+export interface IcuActivitiesResult {
+  ok: boolean;
+  activities: IcuActivitySummary[];
+  status?: number;
+  error?: string;
+}
+
+export interface IcuEventsResult {
+  ok: boolean;
+  events: IcuEventSummary[];
+  status?: number;
+  error?: string;
+}
+
 export interface BulkWorkoutInput {
   session: WorkoutSession;
   date: string;
@@ -474,7 +535,8 @@ const parseAndResolveSuccessId = async (response: Response, existingId?: number)
 
 export const syncWorkoutsBulkToIcu = async (
   config: IntervalsIcuConfig,
-  items: BulkWorkoutInput[]
+  items: BulkWorkoutInput[],
+  unit: DistanceUnit = DistanceUnit.KM
 ): Promise<IcuBulkSyncResult> => {
   if (!config.connected || !config.apiKey) {
     return { ok: false, eventIdsByExternalId: {}, error: 'Intervals.icu is not connected.' };
@@ -482,7 +544,7 @@ export const syncWorkoutsBulkToIcu = async (
 
   const auth = btoa(`API_KEY:${config.apiKey}`);
   const payload = items.map((item) => ({
-    ...buildWorkoutPayload(item.session, item.date),
+    ...buildWorkoutPayload(item.session, item.date, unit),
     external_id: item.externalId,
   }));
 
@@ -531,14 +593,15 @@ export const syncWorkoutsBulkToIcu = async (
 export const syncWorkoutToIcu = async (
   config: IntervalsIcuConfig,
   session: WorkoutSession,
-  date: string
+  date: string,
+  unit: DistanceUnit = DistanceUnit.KM
 ): Promise<IcuSyncResult> => {
   if (!config.connected || !config.athleteId || !config.apiKey) {
     return { ok: false, eventId: null, error: 'Intervals.icu is not connected.' };
   }
 
   const auth = btoa(`API_KEY:${config.apiKey}`);
-  const payload = buildWorkoutPayload(session, date);
+  const payload = buildWorkoutPayload(session, date, unit);
 
   try {
     const method = session.icuEventId ? 'PUT' : 'POST';
@@ -590,3 +653,231 @@ export const deleteWorkoutFromIcu = async (config: IntervalsIcuConfig, eventId:
     return false;
   }
 };
+
+const minutesOfDay = (time: string): number | undefined => {
+  const match = time.match(/(\d{1,2}):(\d{2})/);
+  return match ? (Number(match[1]) * 60) + Number(match[2]) : undefined;
+};
+
+/**
+ * The run of `date` that belongs to one planned session: the one starting closest to the
+ * session's start time, or the run in the same position of the day when no time is set.
+ */
+export const pickSessionRun = <T extends { type?: unknown; start_date_local?: unknown }>(
+  activities: T[],
+  sessionIdx: number,
+  startTime?: string
+): T | undefined => {
+  const runs = activities
+    .filter((a) => /run/i.test(String(a?.type || '')))
+    .sort((a, b) => String(a.start_date_local || '').localeCompare(String(b.start_date_local || '')));
+  const plannedMin = startTime ? minutesOfDay(startTime) : undefined;
+  if (plannedMin === undefined) return runs[Math.min(sessionIdx, runs.length - 1)];
+  const distance = (a: T) => Math.abs((minutesOfDay(String(a.start_date_local || '').slice(11)) ?? 12 * 60) - plannedMin);
+  return [...runs].sort((a, b) => distance(a) - distance(b))[0];
+};
+
+/**
+ * Writes one session's lactate readings to its run on `date`: a line in the activity notes,
+ * plus the peak reading in a custom activity field when a field code is given.
+ */
+export const writeLactateToIcuActivity = async (
+  config: IntervalsIcuConfig,
+  date: string,
+  session: { startTime?: string; sessionIdx: number },
+  readings: LactateReading[],
+  customFieldCode?: string
+): Promise<IcuActivityWriteResult> => {
+  if (!config.connected || !config.apiKey) {
+    return { ok: false, error: 'Intervals.icu is not connected.' };
+  }
+  if (!readings.length) return { ok: false, error: 'No lactate readings to write.' };
+
+  const auth = btoa(`API_KEY:${config.apiKey}`);
+  const athlete = config.athleteId || '0';
+
+  try {
+    const listResponse = await fetch(`https://intervals.icu/api/v1/athlete/${athlete}/activities?oldest=${date}&newest=${date}`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+    });
+    if (!listResponse.ok) {
+      return { ok: false, status: listResponse.status, error: await extractErrorMessage(listResponse, 'Failed to load activities from Intervals.icu') };
+    }
+    const activities = await parseSuccessJson(listResponse);
+    const run = pickSessionRun(Array.isArray(activities) ? activities : [], session.sessionIdx, session.startTime);
+    if (!run?.id) return { ok: false, error: `No run found on Intervals.icu for ${date}.` };
+
+    const detailResponse = await fetch(`https://intervals.icu/api/v1/activity/${run.id}`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+    });
+    const detail = detailResponse.ok ? await parseSuccessJson(detailResponse) : null;
+    // Replace a previous lactate line instead of stacking them.
+    const existingNotes = String(detail?.description ?? run.description ?? '')
+      .split('\n')
+      .filter((line) => !line.startsWith(LACTATE_NOTE_PREFIX))
+      .join('\n')
+      .trim();
+    const note = formatLactateNote(readings);
+    const body: Record<string, unknown> = { description: existingNotes ? `${existingNotes}\n${note}` : note };
+    const fieldCode = customFieldCode?.trim();
+    if (fieldCode) body[fieldCode] = Math.max(...readings.map((r) => r.mmol));
+
+    const response = await fetch(`https://intervals.icu/api/v1/activity/${run.id}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: await extractErrorMessage(response, 'Failed to write lactate to Intervals.icu') };
+    }
+    return { ok: true, activityId: String(run.id) };
+  } catch (error) {
+    console.error('Intervals.icu Lactate Write Error:', error);
+    return { ok: false, error: error instanceof Error ? error.message : 'Network error while writing lactate readings.' };
+  }
+};
+
+const toActivitySummary = (raw: any): IcuActivitySummary | null => {
+  const date = String(raw?.start_date_local || '').slice(0, 10);
+  if (!raw?.id || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const movingSec = Number(raw.moving_time ?? raw.elapsed_time) || 0;
+  const distanceM = Number(raw.distance) || 0;
+  return {
+    id: String(raw.id),
+    date,
+    type: String(raw.type || ''),
+    name: String(raw.name || ''),
+    movingSec,
+    distanceM,
+    avgSpeedMps: Number(raw.average_speed) || (movingSec > 0 && distanceM > 0 ? distanceM / movingSec : undefined),
+    avgHr: Number(raw.average_heartrate) || undefined,
+    pairedEventId: Number(raw.paired_event_id) || undefined,
+  };
+};
+
+/** Completed activities between two local dates (inclusive). */
+export const fetchIcuActivities = async (config: IntervalsIcuConfig, oldest: string, newest: string): Promise<IcuActivitiesResult> => {
+  if (!config.connected || !config.apiKey) {
+    return { ok: false, activities: [], error: 'Intervals.icu is not connected.' };
+  }
+  const auth = btoa(`API_KEY:${config.apiKey}`);
+  const athlete = config.athleteId || '0';
+
+  try {
+    const response = await fetch(`https://intervals.icu/api/v1/athlete/${athlete}/activities?oldest=${oldest}&newest=${newest}`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+    });
+    if (!response.ok) {
+      return { ok: false, activities: [], status: response.status, error: await extractErrorMessage(response, 'Failed to load activities from Intervals.icu') };
+    }
+    const data = await parseSuccessJson(response);
+    const activities = (Array.isArray(data) ? data : [])
+      .map(toActivitySummary)
+      .filter((a): a is IcuActivitySummary => !!a);
+    return { ok: true, activities };
+  } catch (error) {
+    console.error('Intervals.icu Activities Error:', error);
+    return { ok: false, activities: [], error: error instanceof Error ? error.message : 'Network error while loading activities.' };
+  }
+};
+
+/** Per-second activity streams keyed by stream type (e.g. velocity_smooth, heartrate). Missing streams are omitted. */
+export const fetchIcuActivityStreams = async (
+  config: IntervalsIcuConfig,
+  activityId: string,
+  types: string[]
+): Promise<Record<string, number[]>> => {
+  if (!config.connected || !config.apiKey) return {};
+  const auth = btoa(`API_KEY:${config.apiKey}`);
+
+  try {
+    const response = await fetch(`https://intervals.icu/api/v1/activity/${activityId}/streams?types=${types.join(',')}`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+    });
+    if (!response.ok) return {};
+    const data = await parseSuccessJson(response);
+    const streams: Record<string, number[]> = {};
+    (Array.isArray(data) ? data : []).forEach((stream: any) => {
+      if (stream?.type && Array.isArray(stream.data)) streams[String(stream.type)] = stream.data.map((v: unknown) => Number(v) || 0);
+    });
+    return streams;
+  } catch (error) {
+    console.error('Intervals.icu Streams Error:', error);
+    return {};
+  }
+};
+
+const toActivityInterval = (raw: any): IcuActivityInterval | null => {
+  const movingSec = Number(raw?.moving_time ?? raw?.elapsed_time) || 0;
+  if (movingSec <= 0) return null;
+  const distanceM = Number(raw.distance) || 0;
+  const type = String(raw.type || '').toUpperCase();
+  return {
+    kind: type === 'WORK' ? 'work' : type === 'RECOVERY' ? 'recovery' : 'lap',
+    startSec: Number(raw.start_time ?? raw.start_index) || 0,
+    movingSec,
+    distanceM,
+    avgSpeedMps: Number(raw.average_speed) || (distanceM > 0 ? distanceM / movingSec : undefined),
+    avgHr: Number(raw.average_heartrate) || undefined,
+    maxHr: Number(raw.max_heartrate) || undefined,
+  };
+};
+
+/** Detected intervals of a completed activity; laps come back as untyped intervals when nothing was detected. */
+export const fetchIcuActivityIntervals = async (config: IntervalsIcuConfig, activityId: string): Promise<IcuActivityInterval[]> => {
+  if (!config.connected || !config.apiKey) return [];
+  const auth = btoa(`API_KEY:${config.apiKey}`);
+
+  try {
+    const response = await fetch(`https://intervals.icu/api/v1/activity/${activityId}/intervals`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+    });
+    if (!response.ok) return [];
+    const data = await parseSuccessJson(response);
+    const raw = Array.isArray(data?.icu_intervals) ? data.icu_intervals : (Array.isArray(data) ? data : []);
+    return raw
+      .map(toActivityInterval)
+      .filter((i: IcuActivityInterval | null): i is IcuActivityInterval => !!i)
+      .sort((a: IcuActivityInterval, b: IcuActivityInterval) => a.startSec - b.startSec);
+  } catch (error) {
+    console.error('Intervals.icu Intervals Error:', error);
+    return [];
+  }
+};
+
+/** Calendar events (workouts, notes, races) between two local dates (inclusive). */
+export const fetchIcuEvents = async (config: IntervalsIcuConfig, oldest: string, newest: string): Promise<IcuEventsResult> => {
+  if (!config.connected || !config.apiKey) {
+    return { ok: false, events: [], error: 'Intervals.icu is not connected.' };
+  }
+  const auth = btoa(`API_KEY:${config.apiKey}`);
+  const athlete = config.athleteId || '0';
+
+  try {
+    const response = await fetch(`https://intervals.icu/api/v1/athlete/${athlete}/events?oldest=${oldest}&newest=${newest}`, {
+      headers: { 'Authorization': `Basic ${auth}` },
+    });
+    if (!response.ok) {
+      return { ok: false, events: [], status: response.status, error: await extractErrorMessage(response, 'Failed to load events from Intervals.icu') };
+    }
+    const data = await parseSuccessJson(response);
+    const events = (Array.isArray(data) ? data : [])
+      .filter((e: any) => Number(e?.id) > 0)
+      .map((e: any): IcuEventSummary => ({
+        id: Number(e.id),
+        date: String(e.start_date_local || '').slice(0, 10),
+        startLocal: String(e.start_date_local || '').slice(0, 16),
+        name: String(e.name || ''),
+        category: String(e.category || ''),
+        externalId: e.external_id ? String(e.external_id) : undefined,
+        description: e.description ? String(e.description) : undefined,
+      }));
+    return { ok: true, events };
+  } catch (error) {
+    console.error('Intervals.icu Events Error:', error);
+    return { ok: false, events: [], error: error instanceof Error ? error.message : 'Network error while loading events.' };
+  }
+};
@@ -0,0 +1,287 @@
+import { Decoder, Stream } from '@garmin/fitsdk';
+import { LocalInsightsData, RawActivity, RawWellness } from './intervalsInsightsService';
+
+const LOCAL_INSIGHTS_KEY_PREFIX = 'norskflow_local_insights';
+const EARTH_RADIUS_M = 6371000;
+// GPS segments slower than this count as standing still for moving time.
+const MIN_MOVING_SPEED_MPS = 0.5;
+
+export const EMPTY_LOCAL_INSIGHTS: LocalInsightsData = { activities: [], wellness: [] };
+
+export interface LocalImportResult {
+  data: LocalInsightsData;
+  failed: string[]; // file names that could not be read
+}
+
+interface TrackSample {
+  time: number; // ms
+  lat?: number;
+  lon?: number;
+  hr?: number;
+  cadence?: number;
+}
+
+const getLocalInsightsKey = (uid?: string): string => `${LOCAL_INSIGHTS_KEY_PREFIX}_${uid || 'local'}`;
+
+export const loadLocalInsightsData = (uid?: string): LocalInsightsData => {
+  try {
+    const raw = localStorage.getItem(getLocalInsightsKey(uid));
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      activities: Array.isArray(parsed?.activities) ? parsed.activities : [],
+      wellness: Array.isArray(parsed?.wellness) ? parsed.wellness : [],
+    };
+  } catch {
+    return EMPTY_LOCAL_INSIGHTS;
+  }
+};
+
+export const saveLocalInsightsData = (uid: string | undefined, data: LocalInsightsData): void => {
+  localStorage.setItem(getLocalInsightsKey(uid), JSON.stringify(data));
+};
+
+/** Adds imported rows; re-importing a file replaces its activity, wellness fields merge per day. */
+export const mergeLocalInsightsData = (current: LocalInsightsData, incoming: LocalInsightsData): LocalInsightsData => {
+  const activities = new Map(current.activities.map((a) => [String(a.id), a]));
+  incoming.activities.forEach((a) => activities.set(String(a.id), a));
+  const wellness = new Map(current.wellness.map((w) => [String(w.id), w]));
+  incoming.wellness.forEach((w) => wellness.set(String(w.id), { ...wellness.get(String(w.id)), ...w }));
+  return {
+    activities: Array.from(activities.values()).sort((a, b) => String(a.start_date_local).localeCompare(String(b.start_date_local))),
+    wellness: Array.from(wellness.values()).sort((a, b) => String(a.id).localeCompare(String(b.id))),
+  };
+};
+
+const toSportType = (raw: string): string => (/bik|cycl|ride/i.test(raw) ? 'Ride' : /walk|hik/i.test(raw) ? 'Walk' : 'Run');
+
+const haversineM = (aLat: number, aLon: number, bLat: number, bLon: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLon = toRad(bLon - aLon);
+  const h = (Math.sin(dLat / 2) ** 2) + (Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * (Math.sin(dLon / 2) ** 2));
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const mean = (values: Array<number | undefined>): number | undefined => {
+  const valid = values.filter((v): v is number => Number.isFinite(v) && (v as number) > 0);
+  return valid.length ? valid.reduce((sum, v) => sum + v, 0) / valid.length : undefined;
+};
+
+const round = (value: number | undefined, digits = 0): number | undefined => {
+  if (value === undefined || !Number.isFinite(value)) return undefined;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+// Same shape as Intervals.icu's start_date_local: wall-clock time without a zone suffix.
+const formatLocalDateTime = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const buildActivity = (fields: {
+  start: Date;
+  name: string;
+  sport: string;
+  distanceM: number;
+  movingSec: number;
+  avgHr?: number;
+  cadence?: number;
+  strideLengthM?: number;
+  verticalOscillationCm?: number;
+  groundContactMs?: number;
+  source: string;
+}): RawActivity | null => {
+  if (Number.isNaN(fields.start.getTime()) || fields.movingSec <= 0) return null;
+  return {
+    id: `local-${fields.start.toISOString()}`,
+    name: fields.name,
+    type: fields.sport,
+    start_date_local: formatLocalDateTime(fields.start),
+    distance: Math.round(fields.distanceM),
+    moving_time: Math.round(fields.movingSec),
+    average_speed: fields.distanceM > 0 ? round(fields.distanceM / fields.movingSec, 3) : undefined,
+    average_heartrate: round(fields.avgHr),
+    average_run_cadence: round(fields.cadence, 1),
+    average_stride_length: round(fields.strideLengthM, 2),
+    average_vertical_oscillation: round(fields.verticalOscillationCm, 1),
+    average_ground_contact_time: round(fields.groundContactMs),
+    source: fields.source,
+  };
+};
+
+/** Summary fields from the FIT session message. FIT running cadence is per leg, so it is doubled to steps/min. */
+export const parseFitActivity = (bytes: Uint8Array, fallbackName: string): RawActivity | null => {
+  const stream = Stream.fromByteArray(Array.from(bytes));
+  if (!Decoder.isFIT(stream)) return null;
+  const { messages } = new Decoder(stream).read();
+  const session = (messages.sessionMesgs || [])[0];
+  if (!session) return null;
+  const legCadence = Number(session.avgRunningCadence ?? session.avgCadence) || 0;
+  const fractional = Number(session.avgFractionalCadence) || 0;
+  return buildActivity({
+    start: new Date(session.startTime),
+    name: fallbackName,
+    sport: toSportType(String(session.sport || '')),
+    distanceM: Number(session.totalDistance) || 0,
+    movingSec: Number(session.totalTimerTime ?? session.totalElapsedTime) || 0,
+    avgHr: Number(session.avgHeartRate) || undefined,
+    cadence: session.sport === 'running' && legCadence > 0 ? (legCadence + fractional) * 2 : undefined,
+    strideLengthM: Number(session.avgStepLength) ? Number(session.avgStepLength) / 1000 : undefined,
+    verticalOscillationCm: Number(session.avgVerticalOscillation) ? Number(session.avgVerticalOscillation) / 10 : undefined,
+    groundContactMs: Number(session.avgStanceTime) || undefined,
+    source: 'fit',
+  });
+};
+
+const parseXml = (xml: string): Document | null => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length ? null : doc;
+};
+
+// Namespaced extension tags (gpxtpx:hr, ns3:RunCadence) are matched on their local name.
+const childNumber = (node: Element, localName: string): number | undefined => {
+  const match = Array.from(node.getElementsByTagName('*')).find((el) => el.localName === localName);
+  const value = Number(match?.textContent);
+  return match && Number.isFinite(value) ? value : undefined;
+};
+
+const summarizeTrack = (samples: TrackSample[]) => {
+  let distanceM = 0;
+  let movingSec = 0;
+  for (let i = 1; i < samples.length; i += 1) {
+    const a = samples[i - 1];
+    const b = samples[i];
+    const dt = (b.time - a.time) / 1000;
+    const dist = a.lat !== undefined && a.lon !== undefined && b.lat !== undefined && b.lon !== undefined
+      ? haversineM(a.lat, a.lon, b.lat, b.lon)
+      : 0;
+    distanceM += dist;
+    if (dt > 0 && dist / dt >= MIN_MOVING_SPEED_MPS) movingSec += dt;
+  }
+  return { distanceM, movingSec };
+};
+
+/** GPX tracks carry no summary, so distance and moving time come from the points. */
+export const parseGpxActivity = (xml: string, fallbackName: string): RawActivity | null => {
+  const doc = parseXml(xml);
+  if (!doc) return null;
+  const samples: TrackSample[] = Array.from(doc.getElementsByTagName('trkpt'))
+    .map((node) => ({
+      time: Date.parse(node.getElementsByTagName('time')[0]?.textContent || ''),
+      lat: Number(node.getAttribute('lat')),
+      lon: Number(node.getAttribute('lon')),
+      hr: childNumber(node, 'hr'),
+      cadence: childNumber(node, 'cad'),
+    }))
+    .filter((p) => Number.isFinite(p.time) && Number.isFinite(p.lat) && Number.isFinite(p.lon));
+  if (samples.length < 2) return null;
+  const { distanceM, movingSec } = summarizeTrack(samples);
+  const trk = doc.getElementsByTagName('trk')[0];
+  const sport = toSportType(trk?.getElementsByTagName('type')[0]?.textContent || '');
+  const cadence = mean(samples.map((p) => p.cadence));
+  return buildActivity({
+    start: new Date(samples[0].time),
+    name: trk?.getElementsByTagName('name')[0]?.textContent?.trim() || fallbackName,
+    sport,
+    distanceM,
+    movingSec,
+    avgHr: mean(samples.map((p) => p.hr)),
+    cadence: sport === 'Run' && cadence ? cadence * 2 : cadence,
+    source: 'gpx',
+  });
+};
+
+/** TCX laps carry time, distance and average HR; cadence comes from the trackpoints. */
+export const parseTcxActivity = (xml: string, fallbackName: string): RawActivity | null => {
+  const doc = parseXml(xml);
+  const activity = doc?.getElementsByTagName('Activity')[0];
+  if (!activity) return null;
+  const laps = Array.from(activity.getElementsByTagName('Lap'));
+  const lapSec = laps.map((lap) => Number(lap.getElementsByTagName('TotalTimeSeconds')[0]?.textContent) || 0);
+  const lapHr = laps.map((lap) => Number(lap.getElementsByTagName('AverageHeartRateBpm')[0]?.getElementsByTagName('Value')[0]?.textContent) || 0);
+  const movingSec = lapSec.reduce((sum, v) => sum + v, 0);
+  const hrSec = lapSec.reduce((sum, sec, i) => sum + (lapHr[i] > 0 ? sec : 0), 0);
+  const sport = toSportType(activity.getAttribute('Sport') || '');
+  const cadence = mean(Array.from(activity.getElementsByTagName('Trackpoint'))
+    .map((tp) => childNumber(tp, 'RunCadence') ?? childNumber(tp, 'Cadence')));
+  return buildActivity({
+    start: new Date(activity.getElementsByTagName('Id')[0]?.textContent || laps[0]?.getAttribute('StartTime') || ''),
+    name: fallbackName,
+    sport,
+    distanceM: laps.reduce((sum, lap) => sum + (Number(lap.getElementsByTagName('DistanceMeters')[0]?.textContent) || 0), 0),
+    movingSec,
+    avgHr: hrSec > 0 ? lapSec.reduce((sum, sec, i) => sum + (sec * lapHr[i]), 0) / hrSec : undefined,
+    cadence: sport === 'Run' && cadence ? cadence * 2 : cadence,
+    source: 'tcx',
+  });
+};
+
+const toCsvDate = (value: string): string | null => {
+  const text = value.trim().replace(/^"|"$/g, '');
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dmy = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  return dmy ? `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}` : null;
+};
+
+/** Wellness CSV with a header row: a date column plus HRV and/or resting HR columns (Intervals.icu export or similar). */
+export const parseWellnessCsv = (text: string): RawWellness[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').filter((line) => line.trim());
+  if (lines.length < 2) return [];
+  const separator = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const header = lines[0].split(separator).map((h) => h.trim().replace(/^"|"$/g, '').toLowerCase());
+  const dateCol = header.findIndex((h) => h === 'date' || h === 'id' || h.includes('date') || h === 'day');
+  const hrvCol = header.findIndex((h) => h.includes('hrv') || h.includes('rmssd'));
+  const rhrCol = header.findIndex((h) => h.includes('resting') || h === 'rhr');
+  if (dateCol < 0 || (hrvCol < 0 && rhrCol < 0)) return [];
+
+  return lines.slice(1).flatMap((line): RawWellness[] => {
+    const cells = line.split(separator);
+    const date = toCsvDate(cells[dateCol] || '');
+    const hrv = hrvCol >= 0 ? Number((cells[hrvCol] || '').replace(/"/g, '').replace(',', '.')) : NaN;
+    const restingHr = rhrCol >= 0 ? Number((cells[rhrCol] || '').replace(/"/g, '')) : NaN;
+    if (!date || (!(hrv > 0) && !(restingHr > 0))) return [];
+    return [{
+      id: date,
+      hrv: hrv > 0 ? hrv : undefined,
+      resting_hr: restingHr > 0 ? restingHr : undefined,
+    }];
+  });
+};
+
+const readLocalFile = async (file: File): Promise<LocalInsightsData | null> => {
+  const name = file.name.replace(/\.[^.]+$/, '');
+  const ext = (file.name.split('.').pop() || '').toLowerCase();
+  if (ext === 'fit') {
+    const activity = parseFitActivity(new Uint8Array(await file.arrayBuffer()), name);
+    return activity ? { activities: [activity], wellness: [] } : null;
+  }
+  if (ext === 'gpx' || ext === 'tcx') {
+    const text = await file.text();
+    const activity = ext === 'gpx' ? parseGpxActivity(text, name) : parseTcxActivity(text, name);
+    return activity ? { activities: [activity], wellness: [] } : null;
+  }
+  if (ext === 'csv') {
+    const wellness = parseWellnessCsv(await file.text());
+    return wellness.length ? { activities: [], wellness } : null;
+  }
+  return null;
+};
+
+/** Reads FIT/GPX/TCX activities and wellness CSVs; unreadable files are reported, not thrown. */
+export const importLocalInsightsFiles = async (files: File[]): Promise<LocalImportResult> => {
+  let data = EMPTY_LOCAL_INSIGHTS;
+  const failed: string[] = [];
+  for (const file of files) {
+    try {
+      const parsed = await readLocalFile(file);
+      if (parsed) data = mergeLocalInsightsData(data, parsed);
+      else failed.push(file.name);
+    } catch (error) {
+      console.error('Local activity import failed', error);
+      failed.push(file.name);
+    }
+  }
+  return { data, failed };
+};
@@ -0,0 +1,136 @@
+import { DailyForecast, HourlyForecast, WeatherLocation, WeatherSnapshot } from '../types';
+
+const OPEN_METEO_FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const OPEN_METEO_GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const WEATHER_CACHE_KEY = 'norskflow_weather_cache';
+// Cached forecasts older than the forecast horizon carry no useful days.
+const WEATHER_CACHE_MAX_AGE_MS = 16 * 24 * 60 * 60 * 1000;
+
+export interface LocationForecast {
+  current: WeatherSnapshot | null;
+  daily: Record<string, DailyForecast>;
+  fetchedAt: string; // ISO timestamp
+}
+
+// Open-Meteo hourly times are local ("2026-06-01T17:00") because requests use timezone=auto.
+const parseHourlyForecast = (hourly: any): Record<string, HourlyForecast[]> => {
+  const times: string[] = Array.isArray(hourly?.time) ? hourly.time : [];
+  const byDate: Record<string, HourlyForecast[]> = {};
+  times.forEach((time, i) => {
+    const [date, clock] = String(time || '').split('T');
+    const hour = Number((clock || '').split(':')[0]);
+    const temperatureC = Number(hourly.temperature_2m?.[i]);
+    const dewPointC = Number(hourly.dew_point_2m?.[i]);
+    const humidityPct = Number(hourly.relative_humidity_2m?.[i]);
+    const windKmh = Number(hourly.wind_speed_10m?.[i]);
+    if (!date || !Number.isFinite(hour) || ![temperatureC, dewPointC, humidityPct].every(Number.isFinite)) return;
+    (byDate[date] = byDate[date] || []).push({ hour, temperatureC, dewPointC, humidityPct, windKmh: Number.isFinite(windKmh) ? windKmh : 0 });
+  });
+  return byDate;
+};
+
+const parseDailyForecast = (dailyData: any): Record<string, DailyForecast> => {
+  const daily = dailyData?.daily;
+  const dates: string[] = Array.isArray(daily?.time) ? daily.time : [];
+  const weatherCodes: number[] = Array.isArray(daily?.weather_code) ? daily.weather_code : [];
+  const maxTemps: number[] = Array.isArray(daily?.temperature_2m_max) ? daily.temperature_2m_max : [];
+  const minTemps: number[] = Array.isArray(daily?.temperature_2m_min) ? daily.temperature_2m_min : [];
+  const dewPoints: number[] = Array.isArray(daily?.dew_point_2m_mean) ? daily.dew_point_2m_mean : [];
+  const humidities: number[] = Array.isArray(daily?.relative_humidity_2m_mean) ? daily.relative_humidity_2m_mean : [];
+  const winds: number[] = Array.isArray(daily?.wind_speed_10m_max) ? daily.wind_speed_10m_max : [];
+  const hourlyByDate = parseHourlyForecast(dailyData?.hourly);
+  const nextForecast: Record<string, DailyForecast> = {};
+
+  for (let i = 0; i < dates.length; i += 1) {
+    const date = String(dates[i] || '');
+    if (!date) continue;
+    const maxT = Number(maxTemps[i]);
+    const minT = Number(minTemps[i]);
+    const meanTemp = Number.isFinite(maxT) && Number.isFinite(minT) ? (maxT + minT) / 2 : maxT;
+    const dewPoint = Number(dewPoints[i]);
+    const humidity = Number(humidities[i]);
+    const wind = Number(winds[i]);
+    const weatherCode = Number(weatherCodes[i]);
+    if (!Number.isFinite(meanTemp) || !Number.isFinite(humidity)) continue;
+
+    nextForecast[date] = {
+      date,
+      temperatureC: meanTemp,
+      temperatureMaxC: Number.isFinite(maxT) ? maxT : undefined,
+      temperatureMinC: Number.isFinite(minT) ? minT : undefined,
+      dewPointC: Number.isFinite(dewPoint) ? dewPoint : undefined,
+      humidityPct: humidity,
+      windKmh: Number.isFinite(wind) ? wind : 0,
+      weatherCode: Number.isFinite(weatherCode) ? weatherCode : 0,
+      hourly: hourlyByDate[date],
+    };
+  }
+  return nextForecast;
+};
+
+/** Current conditions plus a 16-day daily/hourly forecast for one point. Throws when Open-Meteo fails. */
+export const fetchLocationForecast = async (latitude: number, longitude: number): Promise<LocationForecast> => {
+  const coords = `latitude=${latitude}&longitude=${longitude}`;
+  const currentUrl = `${OPEN_METEO_FORECAST_URL}?${coords}&current=temperature_2m,dew_point_2m,relative_humidity_2m,wind_speed_10m&timezone=auto&forecast_days=1`;
+  const dailyUrl = `${OPEN_METEO_FORECAST_URL}?${coords}&daily=weather_code,temperature_2m_max,temperature_2m_min,dew_point_2m_mean,relative_humidity_2m_mean,wind_speed_10m_max&hourly=temperature_2m,dew_point_2m,relative_humidity_2m,wind_speed_10m&forecast_days=16&timezone=auto`;
+  const [res, dailyRes] = await Promise.all([fetch(currentUrl), fetch(dailyUrl)]);
+  if (!res.ok) throw new Error('weather_fetch_failed');
+  if (!dailyRes.ok) throw new Error('weather_forecast_fetch_failed');
+  const data = await res.json();
+  const dailyData = await dailyRes.json();
+  const current = data?.current;
+  const temperatureC = Number(current?.temperature_2m);
+  const dewPointC = Number(current?.dew_point_2m);
+  const humidityPct = Number(current?.relative_humidity_2m);
+  const windKmh = Number(current?.wind_speed_10m);
+
+  if (![temperatureC, dewPointC, humidityPct, windKmh].every(v => isFinite(v))) throw new Error('weather_parse_failed');
+
+  return {
+    current: { temperatureC, dewPointC, humidityPct, windKmh },
+    daily: parseDailyForecast(dailyData),
+    fetchedAt: new Date().toISOString(),
+  };
+};
+
+/** City search via the Open-Meteo geocoding API. */
+export const searchWeatherLocations = async (query: string): Promise<WeatherLocation[]> => {
+  const name = query.trim();
+  if (name.length < 2) return [];
+  const res = await fetch(`${OPEN_METEO_GEOCODING_URL}?name=${encodeURIComponent(name)}&count=5&language=en&format=json`);
+  if (!res.ok) throw new Error('geocoding_failed');
+  const data = await res.json();
+  const results: any[] = Array.isArray(data?.results) ? data.results : [];
+  return results
+    .filter((r) => Number.isFinite(Number(r?.latitude)) && Number.isFinite(Number(r?.longitude)))
+    .map((r) => ({
+      id: `loc-${r.id ?? `${r.latitude},${r.longitude}`}`,
+      name: [r.name, r.admin1, r.country_code].filter(Boolean).join(', '),
+      latitude: Number(r.latitude),
+      longitude: Number(r.longitude),
+      altitudeM: Number.isFinite(Number(r.elevation)) ? Math.round(Number(r.elevation)) : undefined,
+    }));
+};
+
+export const loadWeatherCache = (): Record<string, LocationForecast> => {
+  try {
+    const raw = localStorage.getItem(WEATHER_CACHE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    if (!parsed || typeof parsed !== 'object') return {};
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, LocationForecast>)
+        .filter(([, entry]) => entry?.daily && now - new Date(entry.fetchedAt).getTime() < WEATHER_CACHE_MAX_AGE_MS)
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const saveWeatherCache = (cache: Record<string, LocationForecast>): void => {
+  try {
+    localStorage.setItem(WEATHER_CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // Storage full: the next successful fetch simply stays in memory.
+  }
+};
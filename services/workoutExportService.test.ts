@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DayType, DistanceUnit, UserProfile, WorkoutSession } from '../types';
+import { generatePlan, getDaySessions } from '../utils/calculations';
+import { buildTrainerWorkout, buildZwoWorkout, getTrainerWorkoutDurationSec, getWorkoutFileFormats } from './workoutExportService';
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const bikeProfile: UserProfile = {
+  name: 'Rider',
+  raceDistance: 5000,
+  raceTime: '20:00',
+  maxHR: 190,
+  weeklyVolume: 60,
+  unit: DistanceUnit.KM,
+  ftp: 250,
+  warmupDist: 2,
+  cooldownDist: 1,
+  schedule: {
+    Monday: DayType.EASY,
+    Tuesday: DayType.THRESHOLD,
+    Wednesday: DayType.EASY,
+    Thursday: DayType.DOUBLE_THRESHOLD,
+    Friday: DayType.REST,
+    Saturday: DayType.THRESHOLD,
+    Sunday: DayType.LONG_RUN,
+  },
+  scheduleSport: Object.fromEntries(WEEKDAYS.map((day) => [day, 'bike'])),
+} as UserProfile;
+
+const bikeSessions: WorkoutSession[] = generatePlan(bikeProfile).days.flatMap((day) => getDaySessions(day));
+
+// Total seconds of a .zwo file: plain blocks plus every on/off pass of IntervalsT.
+const getZwoDurationSec = (zwo: string): number => {
+  const plain = [...zwo.matchAll(/<(?:Warmup|Cooldown|SteadyState) Duration="(\d+)"/g)].reduce((sum, m) => sum + Number(m[1]), 0);
+  const repeats = [...zwo.matchAll(/<IntervalsT Repeat="(\d+)" OnDuration="(\d+)" OffDuration="(\d+)"/g)]
+    .reduce((sum, m) => sum + (Number(m[1]) * (Number(m[2]) + Number(m[3]))), 0);
+  return plain + repeats;
+};
+
+describe('getWorkoutFileFormats', () => {
+  const ride = bikeSessions[0];
+
+  it('offers trainer formats for rides only, and ERG only with an FTP', () => {
+    expect(getWorkoutFileFormats(ride, bikeProfile)).toEqual(['fit', 'zwo', 'erg', 'mrc']);
+    expect(getWorkoutFileFormats(ride, { ...bikeProfile, ftp: 0 })).toEqual(['fit', 'zwo', 'mrc']);
+  });
+
+  it('offers Zwift for treadmill runs but not road runs', () => {
+    const run = { ...ride, sport: 'run' as const };
+    expect(getWorkoutFileFormats({ ...run, environment: 'road' }, bikeProfile)).toEqual(['fit']);
+    expect(getWorkoutFileFormats({ ...run, environment: 'treadmill' }, bikeProfile)).toEqual(['fit', 'zwo']);
+  });
+});
+
+describe('trainer exports', () => {
+  it('generates bike sessions for every scheduled ride', () => {
+    expect(bikeSessions.length).toBeGreaterThanOrEqual(6);
+    expect(bikeSessions.every((s) => s.sport === 'bike')).toBe(true);
+  });
+
+  it.each(bikeSessions.map((session) => [session.title, session] as const))('lasts about the planned session length: %s', (_, session) => {
+    const plannedSec = session.duration * 60;
+    const exportedSec = getTrainerWorkoutDurationSec(session, bikeProfile);
+    expect(Math.abs(exportedSec - plannedSec)).toBeLessThanOrEqual(Math.max(60, plannedSec * 0.03));
+  });
+
+  it.each(bikeSessions.map((session) => [session.title, session] as const))('writes the same length to MRC and ZWO: %s', (_, session) => {
+    const exportedSec = getTrainerWorkoutDurationSec(session, bikeProfile);
+    const mrcPoints = buildTrainerWorkout(session, bikeProfile, 'mrc').split('\r\n').filter((line) => /^\d/.test(line));
+    const mrcEndMin = Number(mrcPoints[mrcPoints.length - 1].split('\t')[0]);
+    expect(mrcEndMin).toBeCloseTo(exportedSec / 60, 1);
+    expect(getZwoDurationSec(buildZwoWorkout(session, bikeProfile))).toBe(exportedSec);
+  });
+
+  it('writes absolute watts to ERG and percentages to MRC', () => {
+    const threshold = bikeSessions.find((s) => s.intervals?.length);
+    expect(threshold).toBeDefined();
+    const erg = buildTrainerWorkout(threshold!, bikeProfile, 'erg');
+    const mrc = buildTrainerWorkout(threshold!, bikeProfile, 'mrc');
+    expect(erg).toContain('FTP = 250');
+    expect(erg).toContain('MINUTES WATTS');
+    expect(mrc).toContain('MINUTES PERCENT');
+    const peak = (file: string) => Math.max(...file.split('\r\n').filter((l) => /^\d/.test(l)).map((l) => Number(l.split('\t')[1])));
+    expect(Math.abs(peak(erg) - ((peak(mrc) / 100) * 250))).toBeLessThanOrEqual(2);
+  });
+});
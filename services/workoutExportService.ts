@@ -0,0 +1,322 @@
+import { DistanceUnit, UserProfile, WorkoutSession } from '../types';
+import { getBikeSpeedKmh, getEasyRunPaceRange, getPredictedPaceForDistance } from '../utils/calculations';
+import { createZip } from '../utils/zip';
+import { buildFitWorkoutFile, buildFitWorkoutSteps, FIT_POWER_WATTS_OFFSET, FitStepSpec, formatIcuWorkoutText, getDynamicTitle, normalizeStartTime, sanitizeFilename } from './intervalsService';
+
+export type WorkoutFileFormat = 'fit' | 'zwo' | 'erg' | 'mrc';
+
+export interface DatedWorkout {
+  session: WorkoutSession;
+  date: string; // YYYY-MM-DD
+  uid?: string; // stable per plan slot; calendar exports need it
+}
+
+// Zwift run blocks are fractions of the athlete's 5 km pace (pace="1"); bike blocks are fractions of FTP.
+const ZWIFT_RUN_PACE_REFERENCE = 1;
+const ZWIFT_ZONE_FTP_FRACTION: Record<string, number> = { Z1: 0.5, Z2: 0.65, Z3: 0.82, Z4: 0.95, Z5: 1.1 };
+// Distance-based ride steps are stretched or squeezed to the planned duration, within these bounds.
+const MIN_DISTANCE_SCALE = 0.5;
+const MAX_DISTANCE_SCALE = 2;
+// Warmups ramp up to, and cooldowns down from, the step's target.
+const RAMP_START_FRACTION = 0.8;
+
+interface TrainerBlock {
+  durationSec: number;
+  low: number;  // fraction of FTP (bike) or 5 km speed (run)
+  high: number;
+  intensity: FitStepSpec['intensity'];
+  fromDistance: boolean; // duration derived from a distance step
+}
+
+const triggerDownload = (data: Uint8Array | string, filename: string, mimeType: string): void => {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Date first so files sort by day on the watch and in the zip.
+const getWorkoutFilename = (session: WorkoutSession, date: string, extension: string): string => (
+  `${date}_${sanitizeFilename(getDynamicTitle(session))}.${extension}`
+);
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const roundFraction = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Formats that make sense for a session: Zwift only indoors (any ride, or a treadmill run),
+ * ERG/MRC only for rides, and ERG's absolute watts only with an FTP.
+ */
+export const getWorkoutFileFormats = (session: WorkoutSession, profile: UserProfile): WorkoutFileFormat[] => {
+  const isBike = (session.sport || 'run') === 'bike';
+  const formats: WorkoutFileFormat[] = ['fit'];
+  if (isBike || session.environment === 'treadmill') formats.push('zwo');
+  if (isBike && (Number(profile.ftp) || 0) > 0) formats.push('erg');
+  if (isBike) formats.push('mrc');
+  return formats;
+};
+
+const toTrainerBlock = (step: FitStepSpec, session: WorkoutSession, profile: UserProfile, distanceScale = 1): TrainerBlock => {
+  const isBike = (session.sport || 'run') === 'bike';
+  let low: number;
+  let high: number;
+  let speedMs: number;
+
+  if (isBike) {
+    const ftp = Number(profile.ftp) || 0;
+    const zone = ZWIFT_ZONE_FTP_FRACTION[step.wktStepName.match(/Z[1-5]/)?.[0] || 'Z2'];
+    low = step.targetType === 'power' && ftp > 0 ? ((step.customTargetValueLow || 0) - FIT_POWER_WATTS_OFFSET) / ftp : zone;
+    high = step.targetType === 'power' && ftp > 0 ? ((step.customTargetValueHigh || 0) - FIT_POWER_WATTS_OFFSET) / ftp : zone;
+    speedMs = getBikeSpeedKmh(session.type) / 3.6;
+  } else {
+    const referenceMs = 1000 / Math.max(1, getPredictedPaceForDistance(profile, 5000));
+    const easyMs = 1000 / Math.max(1, getEasyRunPaceRange(profile, 0).center);
+    // FIT speed targets are mm/s.
+    const lowMs = step.targetType === 'speed' ? (step.customTargetValueLow || 0) / 1000 : easyMs;
+    const highMs = step.targetType === 'speed' ? (step.customTargetValueHigh || 0) / 1000 : easyMs;
+    low = lowMs / referenceMs;
+    high = highMs / referenceMs;
+    speedMs = (lowMs + highMs) / 2 || easyMs;
+  }
+
+  // FIT durations are ms (time) or cm (distance).
+  const fromDistance = step.durationType === 'distance';
+  const durationSec = fromDistance
+    ? ((step.durationValue / 100) / Math.max(0.1, speedMs)) * distanceScale
+    : step.durationValue / 1000;
+  return { durationSec: Math.max(1, Math.round(durationSec)), low, high, intensity: step.intensity, fromDistance };
+};
+
+const formatTrainerBlock = (block: TrainerBlock, paceAttr: string): string => {
+  const power = roundFraction((block.low + block.high) / 2);
+  if (block.intensity === 'warmup') {
+    return `<Warmup Duration="${block.durationSec}" PowerLow="${roundFraction(power * RAMP_START_FRACTION)}" PowerHigh="${power}"${paceAttr}/>`;
+  }
+  if (block.intensity === 'cooldown') {
+    return `<Cooldown Duration="${block.durationSec}" PowerLow="${power}" PowerHigh="${roundFraction(power * RAMP_START_FRACTION)}"${paceAttr}/>`;
+  }
+  return `<SteadyState Duration="${block.durationSec}" Power="${power}"${paceAttr}/>`;
+};
+
+/** Zwift .zwo workout built from the same steps as the FIT file; repeats of work + recovery become IntervalsT. */
+export const buildZwoWorkout = (session: WorkoutSession, profile: UserProfile): string => {
+  const isBike = (session.sport || 'run') === 'bike';
+  const paceAttr = isBike ? '' : ` pace="${ZWIFT_RUN_PACE_REFERENCE}"`;
+  const steps = buildFitWorkoutSteps(session);
+  const distanceScale = getDistanceScale(session, profile);
+  const blocks = steps.map((step) => (step.durationType === 'repeatUntilStepsCmplt' ? null : toTrainerBlock(step, session, profile, distanceScale)));
+  const elements: string[] = [];
+
+  for (let i = 0; i < steps.length; i += 1) {
+    const repeatIdx = steps.findIndex((s, r) => r > i && s.durationType === 'repeatUntilStepsCmplt' && s.durationValue === i);
+    const block = blocks[i];
+    if (repeatIdx < 0) {
+      if (block) elements.push(formatTrainerBlock(block, paceAttr));
+      continue;
+    }
+    const reps = Math.max(1, Number(steps[repeatIdx].targetValue) || 1);
+    const body = blocks.slice(i, repeatIdx).filter((b): b is TrainerBlock => !!b);
+    if (body.length === 2) {
+      const [on, off] = body;
+      elements.push(`<IntervalsT Repeat="${reps}" OnDuration="${on.durationSec}" OffDuration="${off.durationSec}" OnPower="${roundFraction((on.low + on.high) / 2)}" OffPower="${roundFraction((off.low + off.high) / 2)}"${paceAttr}/>`);
+    } else if (body.length === 1) {
+      elements.push(formatTrainerBlock({ ...body[0], durationSec: body[0].durationSec * reps }, paceAttr));
+    } else {
+      for (let r = 0; r < reps; r += 1) body.forEach((b) => elements.push(formatTrainerBlock(b, paceAttr)));
+    }
+    i = repeatIdx;
+  }
+
+  const description = [session.description, session.treadmillNote, session.weatherNote, session.altitudeNote].filter(Boolean).join('\n');
+  return [
+    '<workout_file>',
+    '  <author>NorskFlow</author>',
+    `  <name>${escapeXml(getDynamicTitle(session))}</name>`,
+    `  <description>${escapeXml(description)}</description>`,
+    `  <sportType>${isBike ? 'bike' : 'run'}</sportType>`,
+    '  <tags/>',
+    '  <workout>',
+    ...elements.map((el) => `    ${el}`),
+    '  </workout>',
+    '</workout_file>',
+    '',
+  ].join('\n');
+};
+
+/** The session's steps in order with repeats unrolled, as used by time-based trainer files. */
+const getTrainerTimeline = (session: WorkoutSession, profile: UserProfile, distanceScale = getDistanceScale(session, profile)): TrainerBlock[] => {
+  const steps = buildFitWorkoutSteps(session);
+  const timeline: TrainerBlock[] = [];
+  steps.forEach((step, idx) => {
+    if (step.durationType !== 'repeatUntilStepsCmplt') {
+      timeline.push(toTrainerBlock(step, session, profile, distanceScale));
+      return;
+    }
+    // The repeat step follows one pass of its body, so only the extra passes are added here.
+    const body = steps.slice(step.durationValue, idx)
+      .filter((s) => s.durationType !== 'repeatUntilStepsCmplt')
+      .map((s) => toTrainerBlock(s, session, profile, distanceScale));
+    for (let r = 1; r < Math.max(1, Number(step.targetValue) || 1); r += 1) timeline.push(...body);
+  });
+  return timeline;
+};
+
+/**
+ * Ride distances assume a flat-road speed, so indoors they can drift from the planned session length.
+ * Scales distance-derived blocks so the file lasts about `session.duration`; runs keep their pace-based times.
+ */
+const getDistanceScale = (session: WorkoutSession, profile: UserProfile): number => {
+  const plannedSec = (Number(session.duration) || 0) * 60;
+  if ((session.sport || 'run') !== 'bike' || plannedSec <= 0) return 1;
+  const timeline = getTrainerTimeline(session, profile, 1);
+  const distanceSec = timeline.filter((b) => b.fromDistance).reduce((sum, b) => sum + b.durationSec, 0);
+  const timedSec = timeline.filter((b) => !b.fromDistance).reduce((sum, b) => sum + b.durationSec, 0);
+  if (distanceSec <= 0 || plannedSec <= timedSec) return 1;
+  return Math.min(MAX_DISTANCE_SCALE, Math.max(MIN_DISTANCE_SCALE, (plannedSec - timedSec) / distanceSec));
+};
+
+/** Total length of the exported trainer file in seconds. */
+export const getTrainerWorkoutDurationSec = (session: WorkoutSession, profile: UserProfile): number => (
+  getTrainerTimeline(session, profile).reduce((sum, b) => sum + b.durationSec, 0)
+);
+
+/**
+ * ERG (absolute watts) or MRC (% of FTP) course file for TrainerRoad, Golden Cheetah, PerfPRO etc.
+ * Without an FTP, power targets fall back to zone percentages, so only MRC is meaningful.
+ */
+export const buildTrainerWorkout = (session: WorkoutSession, profile: UserProfile, format: 'erg' | 'mrc'): string => {
+  const ftp = Number(profile.ftp) || 0;
+  const toValue = (fraction: number) => (format === 'erg' ? Math.round(fraction * ftp) : Math.round(fraction * 100));
+  const points: string[] = [];
+  let minutes = 0;
+  getTrainerTimeline(session, profile).forEach((block) => {
+    const power = (block.low + block.high) / 2;
+    const start = block.intensity === 'warmup' ? power * RAMP_START_FRACTION : power;
+    const end = block.intensity === 'cooldown' ? power * RAMP_START_FRACTION : power;
+    points.push(`${minutes.toFixed(2)}\t${toValue(start)}`);
+    minutes += block.durationSec / 60;
+    points.push(`${minutes.toFixed(2)}\t${toValue(end)}`);
+  });
+
+  const title = getDynamicTitle(session);
+  return [
+    '[COURSE HEADER]',
+    'VERSION = 2',
+    'UNITS = ENGLISH',
+    `DESCRIPTION = ${(session.description || title).replace(/\s+/g, ' ')}`,
+    `FILE NAME = ${sanitizeFilename(title)}.${format}`,
+    ...(ftp > 0 ? [`FTP = ${ftp}`] : []),
+    format === 'erg' ? 'MINUTES WATTS' : 'MINUTES PERCENT',
+    '[END COURSE HEADER]',
+    '[COURSE DATA]',
+    ...points,
+    '[END COURSE DATA]',
+    '',
+  ].join('\r\n');
+};
+
+const buildWorkoutFile = (session: WorkoutSession, format: WorkoutFileFormat, profile: UserProfile): Uint8Array | string => {
+  if (format === 'zwo') return buildZwoWorkout(session, profile);
+  if (format === 'erg' || format === 'mrc') return buildTrainerWorkout(session, profile, format);
+  return buildFitWorkoutFile(session);
+};
+
+const WORKOUT_FILE_MIME: Record<WorkoutFileFormat, string> = {
+  fit: 'application/vnd.ant.fit',
+  zwo: 'application/xml',
+  erg: 'text/plain',
+  mrc: 'text/plain',
+};
+
+/** Single workout file: .fit for a device's NewFiles folder, .zwo for Zwift, .erg/.mrc for trainer apps. */
+export const downloadWorkoutFile = (session: WorkoutSession, date: string, format: WorkoutFileFormat, profile: UserProfile): void => {
+  triggerDownload(buildWorkoutFile(session, format, profile), getWorkoutFilename(session, date, format), WORKOUT_FILE_MIME[format]);
+};
+
+/** All given workouts as .fit files in one zip. Returns false when there is nothing to export. */
+export const downloadWorkoutsFitZip = (workouts: DatedWorkout[], archiveName: string): boolean => {
+  if (!workouts.length) return false;
+  const zip = createZip(workouts.map(({ session, date }) => ({
+    name: getWorkoutFilename(session, date, 'fit'),
+    data: buildFitWorkoutFile(session),
+  })));
+  triggerDownload(zip, `${sanitizeFilename(archiveName)}.zip`, 'application/zip');
+  return true;
+};
+
+const escapeIcsText = (value: string): string => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 content lines are folded at 75 octets; continuation lines start with a space.
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsUtcStamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * iCalendar feed with one VEVENT per session. Times are floating local times, matching the
+ * Intervals.icu start times, and UIDs come from the plan slot so re-imports update events in place.
+ */
+export const buildWorkoutCalendar = (workouts: DatedWorkout[], unit: DistanceUnit, calendarName: string): string => {
+  const now = new Date();
+  // Calendar apps keep the copy with the highest SEQUENCE, so every export wins over older ones.
+  const sequence = Math.floor(now.getTime() / 1000);
+  const events = workouts.flatMap(({ session, date, uid }) => {
+    const start = `${date.replace(/-/g, '')}T${normalizeStartTime(session.startTime).replace(':', '')}00`;
+    const minutes = Math.max(1, Math.round(Number(session.duration) || 0));
+    return [
+      'BEGIN:VEVENT',
+      `UID:${uid || `${date}-${session.id}`}@norskflow`,
+      `DTSTAMP:${toIcsUtcStamp(now)}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART:${start}`,
+      `DURATION:PT${minutes}M`,
+      `SUMMARY:${escapeIcsText(getDynamicTitle(session))}`,
+      `DESCRIPTION:${escapeIcsText(formatIcuWorkoutText(session, unit))}`,
+      'END:VEVENT',
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NorskFlow//Training Plan//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...events,
+    'END:VCALENDAR',
+    '',
+  ].map(foldIcsLine).join('\r\n');
+};
+
+/** Downloads the workouts as an .ics file. Returns false when there is nothing to export. */
+export const downloadWorkoutCalendar = (workouts: DatedWorkout[], unit: DistanceUnit, calendarName: string): boolean => {
+  if (!workouts.length) return false;
+  triggerDownload(buildWorkoutCalendar(workouts, unit, calendarName), `${sanitizeFilename(calendarName)}.ics`, 'text/calendar');
+  return true;
+};
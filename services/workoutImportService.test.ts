@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { WorkoutSession, WorkoutType } from '../types';
+import { buildFitWorkoutFile } from './intervalsService';
+import { decodeFitWorkout } from './workoutImportService';
+
+const lowFtpRide: WorkoutSession = {
+  id: 'tue',
+  title: 'SubT 3x8min',
+  type: WorkoutType.THRESHOLD,
+  sport: 'bike',
+  distance: 30,
+  duration: 60,
+  description: '',
+  warmup: '15m easy spin',
+  cooldown: '10m easy spin',
+  intervals: [{
+    distance: 0,
+    durationSec: 480,
+    count: 3,
+    pace: '',
+    rest: '120s',
+    description: '147-157w',
+    targetZone: 'Z3',
+    targetPowerLow: 147,
+    targetPowerHigh: 157,
+  }],
+};
+
+describe('decodeFitWorkout', () => {
+  it('reads back the watts our own FIT export writes, even below 150 W', () => {
+    const decoded = decodeFitWorkout(buildFitWorkoutFile(lowFtpRide), { ftp: 160 });
+    expect(decoded?.sport).toBe('bike');
+    expect(decoded?.intervals?.map((int) => [int.count, int.durationSec, int.targetPowerLow, int.targetPowerHigh, int.rest])).toEqual([
+      [3, 480, 147, 157, '120s'],
+    ]);
+  });
+
+  it('keeps the watts without an FTP', () => {
+    const decoded = decodeFitWorkout(buildFitWorkoutFile(lowFtpRide));
+    expect(decoded?.intervals?.[0]).toMatchObject({ targetPowerLow: 147, targetPowerHigh: 157 });
+  });
+});
@@ -0,0 +1,124 @@
+import { Decoder, Stream } from '@garmin/fitsdk';
+import { WorkoutSession } from '../types';
+import { buildSessionFromSteps, ParsedStep, StepGroup, StepRole } from '../utils/workoutSteps';
+import { FIT_POWER_WATTS_OFFSET } from './intervalsService';
+
+export interface FitWorkoutImportOptions {
+  id?: string;
+  ftp?: number; // converts %FTP power targets to watts
+}
+
+interface FitWorkoutStepMesg {
+  messageIndex?: number;
+  wktStepName?: string;
+  durationType?: string;
+  durationValue?: number;
+  targetType?: string;
+  targetValue?: number;
+  customTargetValueLow?: number;
+  customTargetValueHigh?: number;
+  intensity?: string;
+}
+
+// FIT custom heart-rate targets above 100 are bpm + 100; smaller values are %HRmax.
+const FIT_HR_BPM_OFFSET = 100;
+// Our own encoder writes bpm and watts unshifted, so 101-199 reads as plain bpm.
+const MIN_SHIFTED_HR = 200;
+
+const getStepRole = (mesg: FitWorkoutStepMesg): StepRole => {
+  const name = (mesg.wktStepName || '').toLowerCase();
+  if (mesg.intensity === 'warmup' || /warm/.test(name)) return 'warmup';
+  if (mesg.intensity === 'cooldown' || /cool/.test(name)) return 'cooldown';
+  if (mesg.intensity === 'rest' || mesg.intensity === 'recovery' || /recover|rest/.test(name)) return 'recovery';
+  return 'work';
+};
+
+const toHeartRate = (raw: number): number => (raw >= MIN_SHIFTED_HR ? raw - FIT_HR_BPM_OFFSET : raw);
+
+// Values up to 1000 are %FTP; without an FTP they cannot be turned into watts.
+const toWatts = (raw: number, ftp: number): number | undefined => {
+  if (raw > FIT_POWER_WATTS_OFFSET) return raw - FIT_POWER_WATTS_OFFSET;
+  return ftp > 0 ? Math.round((raw / 100) * ftp) : undefined;
+};
+
+/** Reverses buildFitStep: time in ms, distance in cm, speed in mm/s. */
+const toParsedStep = (mesg: FitWorkoutStepMesg, isRide: boolean, ftp: number): ParsedStep | null => {
+  const value = Number(mesg.durationValue) || 0;
+  const step: ParsedStep = {
+    role: getStepRole(mesg),
+    distanceM: mesg.durationType === 'distance' ? value / 100 : 0,
+    durationSec: mesg.durationType === 'time' ? Math.round(value / 1000) : 0,
+    isRide,
+  };
+  if (!step.distanceM && !step.durationSec) return null;
+
+  const low = Number(mesg.customTargetValueLow) || 0;
+  const high = Number(mesg.customTargetValueHigh) || 0;
+  const zone = Number(mesg.targetValue) || 0;
+  if (mesg.targetType === 'speed' && low > 0 && high > 0) {
+    // The slower speed is the slower pace.
+    step.paceHighSec = Math.round(1000 / (low / 1000));
+    step.paceLowSec = Math.round(1000 / (high / 1000));
+  } else if (mesg.targetType === 'heartRate' && low > 0 && high > 0) {
+    step.hrLow = toHeartRate(low);
+    step.hrHigh = toHeartRate(high);
+  } else if (mesg.targetType === 'power' && low > 0 && high > 0) {
+    step.powerLow = toWatts(low, ftp);
+    step.powerHigh = toWatts(high, ftp);
+  } else if ((mesg.targetType === 'heartRate' || mesg.targetType === 'power') && zone > 0) {
+    step.zone = `Z${zone}`;
+  }
+  const namedZone = (mesg.wktStepName || '').match(/\bZ([1-7])\b/i);
+  if (!step.zone && namedZone) step.zone = `Z${namedZone[1]}`;
+  return step;
+};
+
+/**
+ * Decodes a FIT workout file (ours, Garmin Connect, TrainingPeaks) into a session.
+ * repeatUntilStepsCmplt steps fold the steps from their durationValue index into one repeat group.
+ * Returns null when the file has no usable workout steps.
+ */
+export const decodeFitWorkout = (bytes: Uint8Array, options: FitWorkoutImportOptions = {}): WorkoutSession | null => {
+  const stream = Stream.fromByteArray(Array.from(bytes));
+  if (!Decoder.isFIT(stream)) return null;
+  const { messages } = new Decoder(stream).read();
+  const workout = (messages.workoutMesgs || [])[0] || {};
+  const mesgs = (messages.workoutStepMesgs || []) as FitWorkoutStepMesg[];
+  const isRide = workout.sport === 'cycling';
+  const ftp = Number(options.ftp) || 0;
+
+  // Each group remembers the message index it starts at so a repeat can collect its block.
+  const groups: Array<StepGroup & { start: number }> = [];
+  mesgs.forEach((mesg, idx) => {
+    const index = Number.isFinite(mesg.messageIndex) ? Number(mesg.messageIndex) : idx;
+    if (mesg.durationType === 'repeatUntilStepsCmplt') {
+      const blockStart = Number(mesg.durationValue) || 0;
+      const block = groups.filter((g) => g.start >= blockStart);
+      if (!block.length) return;
+      groups.splice(groups.length - block.length, block.length, {
+        start: block[0].start,
+        reps: Math.max(1, Number(mesg.targetValue) || 1) * (block.length === 1 ? block[0].reps : 1),
+        steps: block.flatMap((g) => g.steps),
+      });
+      return;
+    }
+    const step = toParsedStep(mesg, isRide, ftp);
+    if (step) groups.push({ start: index, reps: 1, steps: [step] });
+  });
+
+  const title = String(workout.wktName || '').trim();
+  // Target pace lines are rebuilt from the step targets.
+  const notes = String(workout.wktDescription || '').split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && line !== title && !/^Target Pace:/i.test(line));
+  return buildSessionFromSteps(groups.map(({ reps, steps }) => ({ reps, steps })), { id: options.id, title, notes });
+};
+
+export const readFitWorkoutFile = async (file: File, options: FitWorkoutImportOptions = {}): Promise<WorkoutSession | null> => {
+  try {
+    return decodeFitWorkout(new Uint8Array(await file.arrayBuffer()), options);
+  } catch (error) {
+    console.error('FIT workout import failed', error);
+    return null;
+  }
+};
@@ -7,11 +7,49 @@ export enum DayType {
   REST = 'Rest',
   EASY = 'Easy Run',
   THRESHOLD = 'Threshold',
-  LONG_RUN = 'Long Run'
+  LONG_RUN = 'Long Run',
+  RACE = 'Race',
+  DOUBLE_THRESHOLD = 'Double Threshold'
 }
 
 export type TrainingSport = 'run' | 'bike';
 
+export type TrainingPhase = 'build' | 'deload' | 'taper' | 'race' | 'recovery';
+
+export type RacePriority = 'A' | 'B' | 'C';
+
+export interface GoalRace {
+  date: string; // ISO format date
+  distance: number; // meters
+  priority: RacePriority;
+  name?: string;
+}
+
+export interface ThresholdTemplateStep {
+  reps: number;
+  durationSec?: number; // time-based reps (e.g. 6:00); takes precedence over distance
+  distance?: number;    // meters, for distance-based reps (e.g. 400m)
+  anchorDist: number;   // meters; race-equivalent distance the rep pace is derived from
+  rest: string;         // e.g. '60s', '2m'
+}
+
+export interface ThresholdTemplate {
+  id: string;
+  name: string;
+  steps: ThresholdTemplateStep[]; // performed in order, e.g. 5x6:00 then 5x1:00
+}
+
+// riegel: fixed 1.06 exponent (critical speed up to 10K when fitted); riegel-fitted: personal exponent
+export type RacePredictionModel = 'riegel' | 'riegel-fitted' | 'vdot' | 'cameron';
+
+export interface BenchmarkResult {
+  id: string;
+  date: string;     // ISO format date of the race or time trial
+  distance: number; // meters
+  time: string;     // 'M:SS' or 'H:MM:SS'
+  label?: string;
+}
+
 export interface UserSchedule {
   [key: string]: DayType;
 }
@@ -22,6 +60,18 @@ export interface UserProfile {
   name: string;
   raceDistance: number;
   raceTime: string;
+  benchmarkResults?: BenchmarkResult[]; // dated results fitted together with the main benchmark
+  predictionModel?: RacePredictionModel; // defaults to 'riegel'
+  paceOffsetSec?: number; // sec/km added to every generated pace (calibration against Intervals.icu)
+  lactateMode?: boolean;
+  lactateTarget?: { low: number; high: number }; // mmol/L; defaults to 2.0-3.0
+  lactateIcuField?: string; // optional Intervals.icu custom activity field code for the session's peak reading
+  weatherLocations?: WeatherLocation[];
+  weatherLocationId?: string; // default forecast location; unset uses the device location
+  altitudeM?: number; // training altitude used when the day's location has none
+  treadmillUnit?: DistanceUnit; // console speed unit (km/h or mph); defaults to unit
+  treadmills?: Treadmill[];
+  treadmillId?: string; // default treadmill for sessions without their own
   maxHR: number;
   ftp?: number;
   weeklyVolume: number;
@@ -30,6 +80,10 @@ export interface UserProfile {
   scheduleSport?: Record<string, TrainingSport>;
   warmupDist: number;
   cooldownDist: number;
+  blockWeeks?: number;
+  deloadEvery?: number; // Deload on every Nth week of the block (3 or 4)
+  goalRace?: GoalRace;
+  thresholdTemplates?: ThresholdTemplate[]; // rotated across threshold days; defaults when empty
 }
 
 export enum WorkoutType {
@@ -50,6 +104,23 @@ export interface Interval {
   targetZone?: string;
   targetPowerLow?: number;
   targetPowerHigh?: number;
+  anchorDist?: number; // meters; pace anchor from a threshold template
+  lactateAdjustSec?: number; // sec/km applied on top of the generated pace after lactate feedback
+  customPace?: boolean; // pace came from an imported workout and is kept instead of the profile band
+}
+
+export interface Treadmill {
+  id: string;
+  name: string;
+  calibration: number; // true belt speed ÷ console speed; 1.02 = belt runs 2% fast
+}
+
+export interface TrailRoute {
+  name: string;
+  distanceKm: number;
+  elevationGainM: number;
+  elevationLossM: number;
+  profile: Array<[number, number]>; // [distance km, elevation m], resampled along the route
 }
 
 export interface WorkoutSession {
@@ -59,6 +130,9 @@ export interface WorkoutSession {
   sport?: TrainingSport;
   environment?: 'road' | 'treadmill' | 'trail';
   treadmillInclinePct?: number;
+  treadmillId?: string;
+  elevationGainM?: number; // planned climbing for trail sessions without a route
+  route?: TrailRoute;      // imported trail route; overrides elevationGainM
   useHeartRateTarget?: boolean;
   targetHrLow?: number;
   targetHrHigh?: number;
@@ -70,20 +144,91 @@ export interface WorkoutSession {
   warmup?: string;
   cooldown?: string;
   variants?: WorkoutSession[]; 
+  racePriority?: RacePriority;
+  startTime?: string; // 'HH:MM' local; unset means midday
+  weatherNote?: string; // how the weather pace correction was derived; sent with synced workouts
+  altitudeNote?: string; // altitude pace correction, kept separate from the weather one
+  treadmillNote?: string; // console speed targets for treadmill sessions
   icuEventId?: number; // Intervals.icu event ID for updates
 }
 
+export interface LactateReading {
+  id: string;
+  date: string;       // ISO date of the session
+  sessionId: string;
+  intervalIndex?: number; // unset for a whole-session reading
+  rep?: number;           // 1-based rep within the interval step
+  repDurationSec?: number;
+  paceSecPerKm?: number;  // rep pace the reading belongs to
+  mmol: number;
+  syncedToIcu?: boolean;
+}
+
 export interface DailyPlan {
   day: string;
   date?: string; // ISO format date
   type: DayType;
   session: WorkoutSession | null;
+  extraSessions?: WorkoutSession[]; // later sessions on the same day (e.g. PM of a double threshold)
   icuEventId?: number; // Intervals.icu event ID for non-workout day events (e.g., rest day)
 }
 
 export interface WeeklyPlan {
   totalDistance: number;
   days: DailyPlan[];
+  weekIndex?: number; // 0-based position inside a training block
+  phase?: TrainingPhase;
+}
+
+export interface WeatherLocation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  altitudeM?: number;
+}
+
+export interface ManualWeather {
+  temperatureC: number;
+  humidityPct: number;
+  windKmh: number;
+}
+
+export interface DayWeatherOverride {
+  locationId?: string;
+  manual?: ManualWeather; // replaces the forecast for that day
+}
+
+export interface WeatherOverrides {
+  weeks: Record<string, string>;            // week start date -> location id
+  days: Record<string, DayWeatherOverride>; // ISO date -> override
+}
+
+export interface WeatherSnapshot {
+  temperatureC: number;
+  dewPointC: number;
+  humidityPct: number;
+  windKmh: number;
+}
+
+export interface HourlyForecast {
+  hour: number; // 0-23 local
+  temperatureC: number;
+  dewPointC: number;
+  humidityPct: number;
+  windKmh: number;
+}
+
+export interface DailyForecast {
+  date: string;
+  temperatureC: number; // mean of the daily max and min
+  temperatureMaxC?: number;
+  temperatureMinC?: number;
+  dewPointC?: number;   // daily mean dew point
+  humidityPct: number;
+  windKmh: number;
+  weatherCode: number;
+  hourly?: HourlyForecast[];
 }
 
 export interface IntervalsIcuConfig {
@@ -91,3 +236,37 @@ export interface IntervalsIcuConfig {
   apiKey: string;
   connected: boolean;
 }
+
+// Completed activity as listed by Intervals.icu, reduced to what plan-vs-actual checks need.
+export interface IcuActivitySummary {
+  id: string;
+  date: string; // local YYYY-MM-DD
+  type: string;
+  name: string;
+  movingSec: number;
+  distanceM: number;
+  avgSpeedMps?: number;
+  avgHr?: number;
+  pairedEventId?: number; // planned event Intervals.icu matched this activity to
+}
+
+// One detected interval or lap of a completed activity (Intervals.icu icu_intervals).
+export interface IcuActivityInterval {
+  kind: 'work' | 'recovery' | 'lap';
+  startSec: number; // offset into the activity
+  movingSec: number;
+  distanceM: number;
+  avgSpeedMps?: number;
+  avgHr?: number;
+  maxHr?: number;
+}
+
+export interface IcuEventSummary {
+  id: number;
+  date: string; // local YYYY-MM-DD
+  startLocal: string; // local YYYY-MM-DDTHH:MM
+  name: string;
+  category: string;
+  externalId?: string;
+  description?: string;
+}
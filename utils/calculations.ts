@@ -1,7 +1,59 @@
-import { UserProfile, WeeklyPlan, WorkoutType, WorkoutSession, DailyPlan, DayType } from '../types';
+import { UserProfile, BenchmarkResult, RacePredictionModel, WeeklyPlan, WorkoutType, WorkoutSession, DailyPlan, DayType, TrainingPhase, TrainingSport, GoalRace, UserSchedule, ThresholdTemplate, ThresholdTemplateStep, Interval, DistanceUnit } from '../types';
+import { formatPace, paceUnitLabel } from './units';
 export const MIN_TREADMILL_INCLINE = 0;
 export const MAX_TREADMILL_INCLINE = 15;
 export const DEFAULT_TREADMILL_INCLINE = 1;
+export const MIN_BLOCK_WEEKS = 1;
+export const MAX_BLOCK_WEEKS = 20;
+export const DEFAULT_BLOCK_WEEKS = 8;
+export const DEFAULT_DELOAD_EVERY = 4;
+
+export interface WeekProgression {
+  phase: TrainingPhase;
+  volumeFactor: number;       // multiplier on profile.weeklyVolume
+  thresholdRepFactor: number; // multiplier on threshold template reps
+}
+
+const BASE_WEEK_PROGRESSION: WeekProgression = { phase: 'build', volumeFactor: 1, thresholdRepFactor: 1 };
+
+// Double-threshold days: a shorter AM and a longer PM session, ~1.5x a single session's work combined.
+const DOUBLE_THRESHOLD_SPLIT = [
+  { label: 'AM', startTime: '07:00', repFactor: 0.6 },
+  { label: 'PM', startTime: '17:30', repFactor: 0.9 },
+];
+
+/** All sessions of a day in time order (primary session first). */
+export const getDaySessions = (day: DailyPlan): WorkoutSession[] => (
+  [day.session, ...(day.extraSessions || [])].filter((s): s is WorkoutSession => !!s)
+);
+
+export const DEFAULT_THRESHOLD_TEMPLATES: ThresholdTemplate[] = [
+  { id: 'default-10x3', name: '10x3:00', steps: [{ reps: 10, durationSec: 3 * 60, anchorDist: 1000, rest: '60s' }] },
+  { id: 'default-8x6', name: '8x6:00', steps: [{ reps: 8, durationSec: 6 * 60, anchorDist: 2000, rest: '75s' }] },
+  { id: 'default-3x10', name: '3x10:00', steps: [{ reps: 3, durationSec: 10 * 60, anchorDist: 3000, rest: '120s' }] },
+];
+
+const isValidTemplateStep = (step: ThresholdTemplateStep): boolean => (
+  (Number(step.reps) || 0) > 0
+  && ((Number(step.durationSec) || 0) > 0 || (Number(step.distance) || 0) > 0)
+  && (Number(step.anchorDist) || 0) > 0
+);
+
+/** User templates in rotation order, falling back to the built-in 3:00/6:00/10:00 rotation. */
+export const getThresholdTemplates = (profile: Pick<UserProfile, 'thresholdTemplates'>): ThresholdTemplate[] => {
+  const valid = (profile.thresholdTemplates || [])
+    .map((tpl) => ({ ...tpl, steps: (tpl.steps || []).filter(isValidTemplateStep) }))
+    .filter((tpl) => tpl.steps.length > 0);
+  return valid.length ? valid : DEFAULT_THRESHOLD_TEMPLATES;
+};
+
+export const formatRaceDistanceLabel = (distanceMeters: number): string => {
+  const dist = Math.max(0, Number(distanceMeters) || 0);
+  if (Math.abs(dist - 42195) < 100) return 'Marathon';
+  if (Math.abs(dist - 21097) < 100) return 'Half Marathon';
+  if (Math.abs(dist - 1609) < 10) return '1 Mile';
+  return `${Math.round((dist / 1000) * 10) / 10}K`;
+};
 
 export const formatThresholdSessionTitle = (reps: number, distanceMeters: number): string => {
   const safeReps = Math.max(1, Math.round(Number(reps) || 1));
@@ -11,9 +63,22 @@ export const formatThresholdSessionTitle = (reps: number, distanceMeters: number
 };
 export const formatThresholdTimeTitle = (reps: number, durationSec: number): string => {
   const safeReps = Math.max(1, Math.round(Number(reps) || 1));
-  const mins = Math.max(1, Math.round((Number(durationSec) || 0) / 60));
+  const sec = Math.max(0, Math.round(Number(durationSec) || 0));
+  // Short reps (45/15, 1:30 floats) keep their seconds; whole minutes render as before.
+  if (sec > 0 && (sec < 60 || sec % 60 !== 0)) return `SubT ${safeReps}x${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, '0')}`;
+  const mins = Math.max(1, Math.round(sec / 60));
   return `SubT ${safeReps}x${mins}:00`;
 };
+/** Joins multi-step sessions into a single title, e.g. "SubT 5x6:00 + 5x1:00". */
+export const formatThresholdIntervalsTitle = (intervals: Pick<Interval, 'count' | 'durationSec' | 'distance'>[]): string => {
+  const tokens = intervals.map((int) => {
+    const reps = Math.max(1, Number(int.count) || 1);
+    return (Number(int.durationSec) || 0) > 0
+      ? formatThresholdTimeTitle(reps, Number(int.durationSec))
+      : formatThresholdSessionTitle(reps, Math.max(0, Number(int.distance) || 0));
+  });
+  return `SubT ${tokens.map((t) => t.replace(/^SubT /, '')).join(' + ')}`;
+};
 export const getThresholdDurationAnchorDistance = (durationSec: number): number => {
   const mins = Math.max(1, (Number(durationSec) || 0) / 60);
   if (mins <= 4) return 1000;   // 3:00 -> 1k pace anchor
@@ -22,6 +87,14 @@ export const getThresholdDurationAnchorDistance = (durationSec: number): number
   return 5000;                  // 20:00 -> 5k pace anchor
 };
 
+const restToSeconds = (rest: string): number => {
+  const v = (rest || '').trim().toLowerCase();
+  if (!v || v === '0') return 0;
+  if (v.includes(':')) return timeToSeconds(v);
+  if (v.endsWith('m')) return (Number(v.replace('m', '')) || 0) * 60;
+  return Number(v.replace('s', '')) || 0;
+};
+
 export const timeToSeconds = (time: string): number => {
   if (!time) return 0;
   const parts = time.split(':').map(part => parseInt(part) || 0);
@@ -43,33 +116,6 @@ export const secondsToTime = (seconds: number): string => {
   return `${mStr}:${sStr}`;
 };
 
-export const getWeatherPaceDeltaSeconds = (
-  basePaceSec: number,
-  temperatureC: number,
-  humidityPct: number,
-  windKmh: number
-): number => {
-  if (!isFinite(basePaceSec) || basePaceSec <= 0) return 0;
-
-  let delta = 0;
-
-  // Baseline comfort window around 10-12C.
-  if (temperatureC > 12) delta += (temperatureC - 12) * 0.5;
-  if (temperatureC < 5) delta += (5 - temperatureC) * 0.25;
-
-  // Humidity hurts mostly in warm conditions.
-  if (temperatureC >= 18 && humidityPct > 60) {
-    delta += ((humidityPct - 60) / 10) * 0.6;
-  }
-
-  // Generic wind drag penalty beyond light breeze.
-  if (windKmh > 12) delta += (windKmh - 12) * 0.12;
-
-  // Keep adjustments within a practical range for training pacing.
-  const bounded = Math.max(-5, Math.min(20, delta));
-  return Math.round(bounded);
-};
-
 export const applyPaceCorrection = (paceSec: number, deltaSec: number): number => {
   if (!isFinite(paceSec) || paceSec <= 0) return 0;
   return Math.max(1, paceSec + deltaSec);
@@ -93,29 +139,95 @@ export const getTreadmillPaceDeltaSeconds = (inclinePct: number, basePaceSec = 3
   return Math.round(gradePaceSec - basePaceSec);
 };
 
-export const predictRaceTime = (raceDistMeters: number, raceTimeStr: string, targetDistMeters: number): number => {
-  const tInput = timeToSeconds(raceTimeStr);
-  if (tInput === 0 || raceDistMeters === 0 || targetDistMeters === 0) return 0;
-  const fatigueFactor = 1.06;
-  return tInput * Math.pow(targetDistMeters / raceDistMeters, fatigueFactor);
+// Minetti et al. (2002): energy cost of running, J/kg/m, on gradient i (rise/run).
+const MINETTI_FLAT_COST = 3.6;
+const MAX_TRAIL_GRADE = 0.45;
+// Technical descents rarely allow the full metabolic saving the model predicts.
+const MIN_GRADE_COST_FACTOR = 0.85;
+
+export const getGradeCostFactor = (grade: number): number => {
+  const i = Math.min(MAX_TRAIL_GRADE, Math.max(-MAX_TRAIL_GRADE, Number(grade) || 0));
+  const cost = (155.4 * i ** 5) - (30.4 * i ** 4) - (43.3 * i ** 3) + (46.3 * i ** 2) + (19.5 * i) + MINETTI_FLAT_COST;
+  return Math.max(MIN_GRADE_COST_FACTOR, cost / MINETTI_FLAT_COST);
 };
 
-export const calculatePaceForDistance = (
-  raceDistMeters: number,
-  raceTimeStr: string,
-  targetDistMeters: number
-): number => {
-  const predictedSeconds = predictRaceTime(raceDistMeters, raceTimeStr, targetDistMeters);
-  if (predictedSeconds === 0) return 0;
-  return predictedSeconds / (targetDistMeters / 1000);
+/**
+ * Time multiplier for a trail session versus the same distance on the flat at equal effort.
+ * Uses the imported route profile when present, otherwise assumes the planned gain is climbed
+ * over half the distance and descended over the other half.
+ */
+export const getTrailTimeFactor = (session: WorkoutSession): number => {
+  const profile = session.route?.profile || [];
+  if (profile.length >= 2) {
+    let weighted = 0;
+    let total = 0;
+    for (let i = 1; i < profile.length; i += 1) {
+      const distM = (profile[i][0] - profile[i - 1][0]) * 1000;
+      if (distM <= 0) continue;
+      weighted += distM * getGradeCostFactor((profile[i][1] - profile[i - 1][1]) / distM);
+      total += distM;
+    }
+    return total > 0 ? weighted / total : 1;
+  }
+  const gainM = Math.max(0, Number(session.elevationGainM) || 0);
+  const distM = Math.max(0, Number(session.distance) || 0) * 1000;
+  if (!gainM || !distM) return 1;
+  const grade = gainM / (distM / 2);
+  return (getGradeCostFactor(grade) + getGradeCostFactor(-grade)) / 2;
 };
 
-export const calculateVDOTFromRace = (raceDistMeters: number, raceTimeStr: string): number => {
-  const tSec = timeToSeconds(raceTimeStr);
-  if (!raceDistMeters || !tSec || tSec <= 0) return 0;
+export const getSessionElevationGainM = (session: WorkoutSession): number => (
+  Math.round(session.route?.elevationGainM ?? (Number(session.elevationGainM) || 0))
+);
+
+/** Threshold reps keep their own pace on trails; everything else is judged against easy pace. */
+export const getTrailFlatPaceSec = (session: WorkoutSession, profile: UserProfile): number => {
+  const repPace = session.type === WorkoutType.THRESHOLD ? session.intervals?.[0]?.pace || '' : '';
+  const parts = repPace.replace(/\/km/gi, '').split('-').map((p) => timeToSeconds(p.trim())).filter((v) => v > 0);
+  return parts.length ? parts.reduce((sum, v) => sum + v, 0) / parts.length : getEasyRunPaceRange(profile, 0).center;
+};
+
+/** Short planning note, e.g. "Planned +600 m: grade-adjusted avg 6:05/km (flat 5:40/km)." */
+export const describeTrailPlan = (session: WorkoutSession, flatPaceSec: number, unit?: DistanceUnit): string => {
+  const gainM = getSessionElevationGainM(session);
+  if (!gainM || !flatPaceSec) return '';
+  const avgPaceSec = flatPaceSec * getTrailTimeFactor(session);
+  const suffix = paceUnitLabel(unit);
+  return `${session.route ? `Route ${session.route.name}` : 'Planned'} +${gainM} m: grade-adjusted avg ${formatPace(Math.round(avgPaceSec), unit)}${suffix} (flat ${formatPace(Math.round(flatPaceSec), unit)}${suffix}).`;
+};
+
+export const ALTITUDE_THRESHOLD_M = 500;
+export const MAX_ALTITUDE_M = 4000;
+
+export const getAltitudePaceDeltaSeconds = (altitudeM: number, basePaceSec = 300): number => {
+  const altitude = Math.min(MAX_ALTITUDE_M, Math.max(0, Number(altitudeM) || 0));
+  if (!Number.isFinite(basePaceSec) || basePaceSec <= 0 || altitude <= ALTITUDE_THRESHOLD_M) return 0;
+  const x = altitude - ALTITUDE_THRESHOLD_M;
+
+  // Lower oxygen partial pressure costs aerobic speed progressively:
+  // roughly 1% at 1000 m, 3-3.5% at 1800 m and 4-4.5% at 2000 m for threshold-length efforts.
+  const slowdownPct = (0.0012 * x) + (0.0000011 * x * x);
+  return Math.round(basePaceSec * (slowdownPct / 100));
+};
+
+export const RIEGEL_FATIGUE_FACTOR = 1.06;
+export const DEFAULT_PREDICTION_MODEL: RacePredictionModel = 'riegel';
+export const PREDICTION_MODEL_LABELS: Record<RacePredictionModel, string> = {
+  riegel: 'Riegel 1.06',
+  'riegel-fitted': 'Personal Riegel',
+  vdot: 'Daniels VDOT',
+  cameron: 'Cameron',
+};
+// Personal exponents outside this band come from inconsistent results rather than physiology.
+const MIN_RIEGEL_EXPONENT = 1.01;
+const MAX_RIEGEL_EXPONENT = 1.15;
+
+/** Daniels & Gilbert VDOT for a performance, unrounded. */
+const vdotForPerformance = (distMeters: number, tSec: number): number => {
+  if (!distMeters || !tSec || tSec <= 0) return 0;
 
   const timeMin = tSec / 60;
-  const velocityMPerMin = raceDistMeters / timeMin;
+  const velocityMPerMin = distMeters / timeMin;
 
   // Jack Daniels VO2 approximation based on running velocity.
   const vo2 = -4.60 + (0.182258 * velocityMPerMin) + (0.000104 * velocityMPerMin * velocityMPerMin);
@@ -124,15 +236,64 @@ export const calculateVDOTFromRace = (raceDistMeters: number, raceTimeStr: strin
   const percent = 0.80 + (0.1894393 * Math.exp(-0.012778 * timeMin)) + (0.2989558 * Math.exp(-0.1932605 * timeMin));
   if (percent <= 0) return 0;
 
-  const vdot = vo2 / percent;
+  return vo2 / percent;
+};
+
+/** Inverts the VDOT formula by bisection; VDOT falls monotonically as time grows. */
+const predictTimeFromVdot = (vdot: number, targetDistMeters: number): number => {
+  if (!vdot || vdot <= 0 || !targetDistMeters) return 0;
+  let low = targetDistMeters / 10; // 10 m/s
+  let high = targetDistMeters / 0.5;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (vdotForPerformance(targetDistMeters, mid) > vdot) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+// Dave Cameron's race-equivalence factor (distances in meters).
+const cameronFactor = (distMeters: number): number => (
+  13.49681 - (0.000030363 * distMeters) + (835.7114 / Math.pow(distMeters, 0.7905))
+);
+
+export const predictRaceTime = (
+  raceDistMeters: number,
+  raceTimeStr: string,
+  targetDistMeters: number,
+  model: RacePredictionModel = DEFAULT_PREDICTION_MODEL
+): number => {
+  const tInput = timeToSeconds(raceTimeStr);
+  if (tInput === 0 || raceDistMeters === 0 || targetDistMeters === 0) return 0;
+  if (model === 'vdot') return predictTimeFromVdot(vdotForPerformance(raceDistMeters, tInput), targetDistMeters);
+  if (model === 'cameron') {
+    return tInput * (targetDistMeters / raceDistMeters) * (cameronFactor(raceDistMeters) / cameronFactor(targetDistMeters));
+  }
+  // A personal exponent needs several results; a single one falls back to the standard exponent.
+  return tInput * Math.pow(targetDistMeters / raceDistMeters, RIEGEL_FATIGUE_FACTOR);
+};
+
+export const calculatePaceForDistance = (
+  raceDistMeters: number,
+  raceTimeStr: string,
+  targetDistMeters: number,
+  model: RacePredictionModel = DEFAULT_PREDICTION_MODEL
+): number => {
+  const predictedSeconds = predictRaceTime(raceDistMeters, raceTimeStr, targetDistMeters, model);
+  if (predictedSeconds === 0) return 0;
+  return predictedSeconds / (targetDistMeters / 1000);
+};
+
+export const calculateVDOTFromRace = (raceDistMeters: number, raceTimeStr: string): number => {
+  const vdot = vdotForPerformance(raceDistMeters, timeToSeconds(raceTimeStr));
   return Math.round(vdot * 10) / 10;
 };
 
 const getRaceEquivalentPaces = (profile: UserProfile) => {
-  const p15k = calculatePaceForDistance(profile.raceDistance, profile.raceTime, 15000);
-  const pHalf = calculatePaceForDistance(profile.raceDistance, profile.raceTime, 21097);
-  const p30k = calculatePaceForDistance(profile.raceDistance, profile.raceTime, 30000);
-  const pMarathon = calculatePaceForDistance(profile.raceDistance, profile.raceTime, 42195);
+  const p15k = getPredictedPaceForDistance(profile, 15000);
+  const pHalf = getPredictedPaceForDistance(profile, 21097);
+  const p30k = getPredictedPaceForDistance(profile, 30000);
+  const pMarathon = getPredictedPaceForDistance(profile, 42195);
   return { p15k, pHalf, p30k, pMarathon };
 };
 
@@ -146,7 +307,7 @@ export const getEasyRunPaceRange = (profile: UserProfile, correctionSec = 0): {
   let high = pMarathon > 0 ? pMarathon + 104 : 0;
 
   if (low <= 0 || high <= 0) {
-    const threshold = calculateThresholdPace(profile.raceDistance, profile.raceTime, profile as any);
+    const threshold = calculateThresholdPace(profile.raceDistance, profile.raceTime, profile);
     low = threshold * 1.32;
     high = threshold * 1.44;
   }
@@ -160,27 +321,35 @@ export const getEasyRunPaceRange = (profile: UserProfile, correctionSec = 0): {
 
 /**
  * A1. Estimate 60-minute threshold pace (sec/km) by finding the distance where
- * the Riegel predictor returns ~3600 seconds, then converting to pace.
+ * the race predictor returns ~3600 seconds, then converting to pace.
  */
-const estimate60MinThresholdFromSingleResult = (raceDistMeters: number, raceTimeStr: string): number => {
+const estimate60MinThresholdFromSingleResult = (
+  raceDistMeters: number,
+  raceTimeStr: string,
+  model: RacePredictionModel = DEFAULT_PREDICTION_MODEL
+): number => {
   const tInput = timeToSeconds(raceTimeStr);
   if (tInput === 0 || raceDistMeters === 0) return 0;
 
-  const targetTimeSec = 3600;
+  // If the race result itself is near 60 minutes, use its pace.
+  if (Math.abs(tInput - 3600) <= 30) {
+    return tInput / (raceDistMeters / 1000);
+  }
 
+  return findPaceAt60Min((distMeters) => predictRaceTime(raceDistMeters, raceTimeStr, distMeters, model));
+};
+
+/** Bisects for the distance a predictor covers in 60 minutes and returns that pace (sec/km). */
+const findPaceAt60Min = (predictTimeSec: (distMeters: number) => number): number => {
+  const targetTimeSec = 3600;
   // Wider bounds to avoid clamping for faster runners.
   let low = 6000;
   let high = 30000;
 
-  // If the race result itself is near 60 minutes, use its pace.
-  if (Math.abs(tInput - targetTimeSec) <= 30) {
-    return tInput / (raceDistMeters / 1000);
-  }
-
   for (let i = 0; i < 30; i++) {
     const mid = (low + high) / 2;
-    const tMid = predictRaceTime(raceDistMeters, raceTimeStr, mid);
-    if (tMid === 0) break;
+    const tMid = predictTimeSec(mid);
+    if (!tMid) break;
 
     // If predicted time is above 60 minutes, distance is too long. Reduce it.
     if (tMid > targetTimeSec) high = mid;
@@ -193,38 +362,195 @@ const estimate60MinThresholdFromSingleResult = (raceDistMeters: number, raceTime
   return targetTimeSec / (distAt60 / 1000);
 };
 
+// Critical-speed fit: only efforts the linear distance-time model describes well are used.
+const CS_MIN_EFFORT_SEC = 2 * 60;
+const CS_MAX_EFFORT_SEC = 45 * 60;
+const CS_WEIGHT_HALF_LIFE_DAYS = 90;
+const CS_MIN_WEIGHT = 0.05;
+// The linear model overpredicts beyond ~10K; longer distances are extrapolated with Riegel from here.
+const CS_MODEL_MAX_DIST = 10000;
+
+export interface CriticalSpeedPoint {
+  id: string;
+  label: string;
+  date?: string; // unset for the main benchmark, which counts as current
+  distance: number; // meters
+  timeSec: number;
+  weight: number; // 0 when excluded from the fit
+  excludedReason?: string;
+}
+
+export interface CriticalSpeedFit {
+  cs: number;     // m/s; 0 when there aren't enough usable results
+  dPrime: number; // meters
+  points: CriticalSpeedPoint[];
+}
+
+const getAllBenchmarkResults = (profile: UserProfile): BenchmarkResult[] => [
+  { id: 'main', date: '', distance: profile.raceDistance, time: profile.raceTime, label: 'Main benchmark' },
+  ...(profile.benchmarkResults || []),
+];
+
+/** Age weight halving every 90 days; undated results count as current. 0 when unusable. */
+const getBenchmarkAgeWeight = (date: string | undefined, asOf: Date): number => {
+  const raced = date ? new Date(`${date}T00:00:00`) : asOf;
+  if (isNaN(raced.getTime())) return 0;
+  const ageDays = Math.max(0, (asOf.getTime() - raced.getTime()) / 86400000);
+  const weight = Math.pow(0.5, ageDays / CS_WEIGHT_HALF_LIFE_DAYS);
+  return weight < CS_MIN_WEIGHT ? 0 : weight;
+};
+
+const toBenchmarkPoint = (result: BenchmarkResult, asOf: Date): CriticalSpeedPoint => {
+  const distance = Number(result.distance) || 0;
+  const timeSec = timeToSeconds(String(result.time || ''));
+  const label = result.label?.trim() || formatRaceDistanceLabel(distance);
+  const point: CriticalSpeedPoint = { id: result.id, label, date: result.date, distance, timeSec, weight: 0 };
+
+  if (distance <= 0 || timeSec <= 0) return { ...point, excludedReason: 'Missing distance or time' };
+  if (timeSec < CS_MIN_EFFORT_SEC) return { ...point, excludedReason: 'Shorter than 2 minutes' };
+  if (timeSec > CS_MAX_EFFORT_SEC) return { ...point, excludedReason: 'Longer than 45 minutes' };
+
+  if (result.date && isNaN(new Date(`${result.date}T00:00:00`).getTime())) return { ...point, excludedReason: 'Invalid date' };
+  const weight = getBenchmarkAgeWeight(result.date, asOf);
+  if (weight <= 0) return { ...point, excludedReason: 'Older than a year' };
+
+  return { ...point, weight };
+};
+
+/** Every dated result with a usable age weight; unlike the CS fit there's no effort-duration window. */
+const getWeightedResults = (profile: UserProfile, asOf: Date) => (
+  getAllBenchmarkResults(profile)
+    .map((result) => ({
+      distance: Number(result.distance) || 0,
+      timeSec: timeToSeconds(String(result.time || '')),
+      weight: getBenchmarkAgeWeight(result.date, asOf),
+    }))
+    .filter((r) => r.distance > 0 && r.timeSec > 0 && r.weight > 0)
+);
+
 /**
- * C3. Optional Critical Speed from two race results if the optional fields exist.
- * Uses the linear distance-time model: CS = (d2 - d1) / (t2 - t1).
- * Converts CS to a conservative 60-minute threshold pace (sec/km).
+ * C3. Critical Speed and D' from the main benchmark plus any dated results.
+ * Weighted least squares on the linear distance-time model d = CS * t + D',
+ * with each result's weight halving every 90 days.
  */
-const estimate60MinThresholdFromCriticalSpeed = (profile: any): number => {
-  const d1 = Number(profile?.raceDistance);
-  const t1 = timeToSeconds(String(profile?.raceTime || ""));
-  const d2 = Number(profile?.raceDistance2);
-  const t2 = timeToSeconds(String(profile?.raceTime2 || ""));
+export const fitCriticalSpeed = (profile: UserProfile, asOf: Date = new Date()): CriticalSpeedFit => {
+  const points = getAllBenchmarkResults(profile).map((result) => toBenchmarkPoint(result, asOf));
+  const used = points.filter((p) => p.weight > 0);
+
+  const sumW = used.reduce((sum, p) => sum + p.weight, 0);
+  if (used.length < 2 || sumW <= 0) return { cs: 0, dPrime: 0, points };
+
+  const meanT = used.reduce((sum, p) => sum + (p.weight * p.timeSec), 0) / sumW;
+  const meanD = used.reduce((sum, p) => sum + (p.weight * p.distance), 0) / sumW;
+  const sxx = used.reduce((sum, p) => sum + (p.weight * (p.timeSec - meanT) ** 2), 0);
+  const sxy = used.reduce((sum, p) => sum + (p.weight * (p.timeSec - meanT) * (p.distance - meanD)), 0);
+  if (sxx <= 0) return { cs: 0, dPrime: 0, points };
 
-  if (!isFinite(d1) || !isFinite(d2) || d1 <= 0 || d2 <= 0) return 0;
-  if (!isFinite(t1) || !isFinite(t2) || t1 <= 0 || t2 <= 0) return 0;
+  const cs = sxy / sxx;
+  const dPrime = meanD - (cs * meanT);
+  // A negative D' means the results contradict each other; fall back to the single-result model.
+  if (!isFinite(cs) || cs <= 0 || !isFinite(dPrime) || dPrime <= 0) return { cs: 0, dPrime: 0, points };
+
+  return { cs, dPrime, points };
+};
+
+export interface RiegelFit {
+  exponent: number;
+  refDist: number;  // meters; weighted geometric mean of the fitted results
+  refTimeSec: number;
+  count: number;
+}
+
+/** Personal Riegel exponent from a weighted log-log regression over all results (needs two distances). */
+export const fitRiegelExponent = (profile: UserProfile, asOf: Date = new Date()): RiegelFit | null => {
+  const results = getWeightedResults(profile, asOf);
+  const sumW = results.reduce((sum, r) => sum + r.weight, 0);
+  if (results.length < 2 || sumW <= 0) return null;
+
+  const meanX = results.reduce((sum, r) => sum + (r.weight * Math.log(r.distance)), 0) / sumW;
+  const meanY = results.reduce((sum, r) => sum + (r.weight * Math.log(r.timeSec)), 0) / sumW;
+  const sxx = results.reduce((sum, r) => sum + (r.weight * (Math.log(r.distance) - meanX) ** 2), 0);
+  const sxy = results.reduce((sum, r) => sum + (r.weight * (Math.log(r.distance) - meanX) * (Math.log(r.timeSec) - meanY)), 0);
+  if (sxx <= 1e-9) return null;
+
+  const exponent = Math.min(MAX_RIEGEL_EXPONENT, Math.max(MIN_RIEGEL_EXPONENT, sxy / sxx));
+  return { exponent, refDist: Math.exp(meanX), refTimeSec: Math.exp(meanY), count: results.length };
+};
+
+/** Age-weighted mean VDOT across all results. */
+export const getProfileVdot = (profile: UserProfile, asOf: Date = new Date()): number => {
+  const results = getWeightedResults(profile, asOf);
+  const sumW = results.reduce((sum, r) => sum + r.weight, 0);
+  if (sumW <= 0) return 0;
+  const vdot = results.reduce((sum, r) => sum + (r.weight * vdotForPerformance(r.distance, r.timeSec)), 0) / sumW;
+  return Math.round(vdot * 10) / 10;
+};
 
-  // Need t2 > t1 and d2 > d1 for a valid 2-point model.
-  if (t2 <= t1 || d2 <= d1) return 0;
+/**
+ * Race time (seconds) for the athlete's selected prediction model.
+ * The default Riegel model uses the critical-speed fit up to 10K when one exists.
+ */
+export const predictRaceTimeForProfile = (profile: UserProfile, targetDistMeters: number): number => {
+  const model = profile.predictionModel || DEFAULT_PREDICTION_MODEL;
+  if (!targetDistMeters) return 0;
+
+  if (model === 'riegel-fitted') {
+    const fit = fitRiegelExponent(profile);
+    if (fit) return fit.refTimeSec * Math.pow(targetDistMeters / fit.refDist, fit.exponent);
+  } else if (model === 'vdot') {
+    const vdot = getProfileVdot(profile);
+    if (vdot > 0) return predictTimeFromVdot(vdot, targetDistMeters);
+  } else if (model === 'cameron') {
+    const results = getWeightedResults(profile, new Date());
+    const sumW = results.reduce((sum, r) => sum + r.weight, 0);
+    if (sumW > 0) {
+      return results.reduce((sum, r) => (
+        sum + (r.weight * r.timeSec * (targetDistMeters / r.distance) * (cameronFactor(r.distance) / cameronFactor(targetDistMeters)))
+      ), 0) / sumW;
+    }
+  } else {
+    const { cs, dPrime } = fitCriticalSpeed(profile);
+    if (cs > 0 && targetDistMeters > dPrime) {
+      if (targetDistMeters <= CS_MODEL_MAX_DIST) return (targetDistMeters - dPrime) / cs;
+      const tAtModelMax = (CS_MODEL_MAX_DIST - dPrime) / cs;
+      return tAtModelMax * Math.pow(targetDistMeters / CS_MODEL_MAX_DIST, RIEGEL_FATIGUE_FACTOR);
+    }
+  }
+  return predictRaceTime(profile.raceDistance, profile.raceTime, targetDistMeters, model);
+};
 
-  const cs = (d2 - d1) / (t2 - t1); // m/s
-  if (!isFinite(cs) || cs <= 0) return 0;
+export const MAX_PACE_OFFSET_SEC = 60;
 
-  const paceCS = 1000 / cs; // sec/km
+export const getPaceOffsetSec = (profile: UserProfile): number => {
+  const offset = Number(profile.paceOffsetSec) || 0;
+  return Math.max(-MAX_PACE_OFFSET_SEC, Math.min(MAX_PACE_OFFSET_SEC, offset));
+};
 
-  // Slightly conservative factor.
-  return paceCS * 1.01;
+/** Predicted race pace (sec/km), including the profile's calibration offset. */
+export const getPredictedPaceForDistance = (profile: UserProfile, targetDistMeters: number): number => {
+  if (!targetDistMeters) return 0;
+  const predictedSeconds = predictRaceTimeForProfile(profile, targetDistMeters);
+  if (!predictedSeconds) return 0;
+  return applyPaceCorrection(predictedSeconds / (targetDistMeters / 1000), getPaceOffsetSec(profile));
 };
 
-const get60MinThresholdPace = (profile: UserProfile | any): number => {
-  const csPace = estimate60MinThresholdFromCriticalSpeed(profile);
-  if (csPace > 0) return csPace;
-  return estimate60MinThresholdFromSingleResult(profile.raceDistance, profile.raceTime);
+/** The 60-minute anchor follows the selected prediction model, so switching models changes training paces too. */
+const getUncalibrated60MinThresholdPace = (profile: UserProfile): number => {
+  const model = profile.predictionModel || DEFAULT_PREDICTION_MODEL;
+  if (model === DEFAULT_PREDICTION_MODEL) {
+    const { cs } = fitCriticalSpeed(profile);
+    // CS sits a little faster than a 60-minute effort; stay slightly conservative.
+    if (cs > 0) return (1000 / cs) * 1.01;
+    return estimate60MinThresholdFromSingleResult(profile.raceDistance, profile.raceTime, model);
+  }
+  if (!timeToSeconds(profile.raceTime) || !profile.raceDistance) return 0;
+  return findPaceAt60Min((distMeters) => predictRaceTimeForProfile(profile, distMeters));
 };
 
+const get60MinThresholdPace = (profile: UserProfile): number => (
+  applyPaceCorrection(getUncalibrated60MinThresholdPace(profile), getPaceOffsetSec(profile))
+);
+
 /**
  * B. Norwegian Singles style pacing offsets from the 60-minute threshold anchor.
  * The goal here is to produce distinct paces across 400-5000m, similar to NSA tables.
@@ -302,36 +628,93 @@ export const getIntervalPaceRange = (profile: UserProfile, distanceMeters: numbe
 
 /**
  * Keeps the same exported name. Internals now return 60-minute threshold pace (sec/km).
- * Accepts an optional profile to enable C3 without changing types or UI.
+ * With a profile, the C3 critical-speed fit over all benchmark results is used when possible.
  */
-export const calculateThresholdPace = (raceDistMeters: number, raceTimeStr: string, profile?: UserProfile | any): number => {
+export const calculateThresholdPace = (raceDistMeters: number, raceTimeStr: string, profile?: UserProfile): number => {
   if (profile) return get60MinThresholdPace(profile);
   return estimate60MinThresholdFromSingleResult(raceDistMeters, raceTimeStr);
 };
 
-export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPlan => {
-  const tPace = applyPaceCorrection(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile as any), correctionSec);
+export interface ThresholdCalibration {
+  plannerPaceSec: number;   // current planner threshold, including any offset
+  intervalsPaceSec: number;
+  deltaSec: number;         // intervals - planner; negative means the athlete is fitter than planned
+  suggestedOffsetSec: number;
+  suggestedRaceTime?: string; // main benchmark time that reproduces the Intervals threshold without an offset
+}
+
+/** Compares the planner's threshold with one derived from Intervals.icu data and suggests both fixes. */
+export const getThresholdCalibration = (profile: UserProfile, intervalsPaceSec: number): ThresholdCalibration | null => {
+  const plannerPaceSec = calculateThresholdPace(profile.raceDistance, profile.raceTime, profile);
+  const basePaceSec = getUncalibrated60MinThresholdPace(profile);
+  if (!intervalsPaceSec || intervalsPaceSec <= 0 || plannerPaceSec <= 0 || basePaceSec <= 0) return null;
+
+  const suggestedOffsetSec = Math.max(-MAX_PACE_OFFSET_SEC, Math.min(MAX_PACE_OFFSET_SEC, Math.round(intervalsPaceSec - basePaceSec)));
+
+  // Threshold pace rises monotonically with the benchmark time, so bisect on it.
+  const currentTimeSec = timeToSeconds(profile.raceTime);
+  let suggestedRaceTime: string | undefined;
+  if (currentTimeSec > 0) {
+    const thresholdFor = (tSec: number) => getUncalibrated60MinThresholdPace({ ...profile, raceTime: secondsToTime(Math.round(tSec)) });
+    let low = currentTimeSec * 0.7;
+    let high = currentTimeSec * 1.3;
+    for (let i = 0; i < 40; i++) {
+      const mid = (low + high) / 2;
+      if (thresholdFor(mid) > intervalsPaceSec) high = mid;
+      else low = mid;
+    }
+    const candidate = Math.round((low + high) / 2);
+    // Other dated results can dominate the fit; then only the offset can close the gap.
+    if (Math.abs(thresholdFor(candidate) - intervalsPaceSec) <= 2) suggestedRaceTime = secondsToTime(candidate);
+  }
+
+  return {
+    plannerPaceSec,
+    intervalsPaceSec,
+    deltaSec: intervalsPaceSec - plannerPaceSec,
+    suggestedOffsetSec,
+    suggestedRaceTime,
+  };
+};
+
+/** Flat-road riding speed assumed when bike steps are given as distance. */
+export const getBikeSpeedKmh = (type: WorkoutType): number => {
+  if (type === WorkoutType.THRESHOLD) return 34;
+  if (type === WorkoutType.LONG_RUN) return 31;
+  return 30;
+};
+
+export const generatePlan = (profile: UserProfile, correctionSec = 0, progression: WeekProgression = BASE_WEEK_PROGRESSION): WeeklyPlan => {
+  const tPace = applyPaceCorrection(calculateThresholdPace(profile.raceDistance, profile.raceTime, profile), correctionSec);
   const easyRange = getEasyRunPaceRange(profile, correctionSec);
   const easyPace = easyRange.center;
   const easyRangeText = `${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}`;
-  const targetKm = Math.max(0, Number(profile.weeklyVolume) || 0);
+  const targetKm = Math.round(Math.max(0, Number(profile.weeklyVolume) || 0) * progression.volumeFactor * 10) / 10;
   const wu = profile.warmupDist;
   const cd = profile.cooldownDist;
 
-  const thresholdTemplates = [
-    { reps: 10, durationSec: 3 * 60, anchorDist: 1000, rest: '60s' }, // 10x3:00 (1k anchor)
-    { reps: 8, durationSec: 6 * 60, anchorDist: 2000, rest: '75s' }, // 8x6:00 (2k anchor)
-    { reps: 3, durationSec: 10 * 60, anchorDist: 3000, rest: '120s' }, // 3x10:00 (3k anchor)
-  ];
+  const thresholdTemplates = getThresholdTemplates(profile).map((tpl) => ({
+    ...tpl,
+    steps: tpl.steps.map((step) => ({ ...step, reps: Math.max(1, Math.round(step.reps * progression.thresholdRepFactor)) })),
+  }));
   const thresholdDays = Object.entries(profile.schedule)
-    .filter(([, t]) => t === DayType.THRESHOLD)
+    .filter(([, t]) => t === DayType.THRESHOLD || t === DayType.DOUBLE_THRESHOLD)
     .map(([day]) => day);
-  const thresholdSessionDists = thresholdDays.map((_, idx) => {
+  const scaleTemplateReps = (tpl: ThresholdTemplate, repFactor: number): ThresholdTemplate => (
+    repFactor === 1 ? tpl : { ...tpl, steps: tpl.steps.map((step) => ({ ...step, reps: Math.max(1, Math.round(step.reps * repFactor)) })) }
+  );
+  const getStepPaceSec = (step: ThresholdTemplateStep): number => (
+    Math.max(1, timeToSeconds(getIntervalPaceRange(profile, step.anchorDist, correctionSec).range.split('-')[0] || '4:30'))
+  );
+  const getStepRepKm = (step: ThresholdTemplateStep): number => (
+    (Number(step.durationSec) || 0) > 0 ? (Number(step.durationSec) / getStepPaceSec(step)) : (Number(step.distance) || 0) / 1000
+  );
+  const thresholdSessionDists = thresholdDays.map((dayName, idx) => {
     const tpl = thresholdTemplates[idx % thresholdTemplates.length];
-    const pace = getIntervalPaceRange(profile, tpl.anchorDist, correctionSec).range.split('-')[0] || '4:30';
-    const paceSec = Math.max(1, timeToSeconds(pace));
-    const repDistKm = (tpl.durationSec / paceSec);
-    return wu + cd + (tpl.reps * repDistKm);
+    const factors = profile.schedule[dayName] === DayType.DOUBLE_THRESHOLD ? DOUBLE_THRESHOLD_SPLIT.map((s) => s.repFactor) : [1];
+    return factors.reduce((total, factor) => (
+      total + wu + cd + scaleTemplateReps(tpl, factor).steps.reduce((sum, step) => sum + (step.reps * getStepRepKm(step)), 0)
+    ), 0);
   });
   const maxThresholdDist = thresholdSessionDists.length ? Math.max(...thresholdSessionDists) : 0;
 
@@ -349,21 +732,27 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
   const easyBonusPerDay = easyDays.length > 0 ? (remainingKm / easyDays.length) : 0;
   const easyDist = easyDays.length > 0 ? Math.max(minEasyDist, Math.round((minEasyDist + easyBonusPerDay) * 10) / 10) : 0;
 
-  const createThresholdSession = (id: string, dayName: string): WorkoutSession => {
+  const createThresholdSession = (id: string, dayName: string, repFactor = 1): WorkoutSession => {
     const templateIdx = Math.max(0, thresholdDays.indexOf(dayName));
-    const tpl = thresholdTemplates[templateIdx % thresholdTemplates.length];
-    const dist = tpl.anchorDist;
-    const reps = tpl.reps;
-    const durationSec = tpl.durationSec;
-
-    const paceData = getIntervalPaceRange(profile, dist, correctionSec);
-    const paceMidSec = timeToSeconds((paceData.range.split('-')[0] || '').trim());
-    const repDistKm = paceMidSec > 0 ? (durationSec / paceMidSec) : (dist / 1000);
-    const sessionDist = wu + cd + (reps * repDistKm);
+    const tpl = scaleTemplateReps(thresholdTemplates[templateIdx % thresholdTemplates.length], repFactor);
+    const intervals = tpl.steps.map((step) => {
+      const paceData = getIntervalPaceRange(profile, step.anchorDist, correctionSec);
+      const durationSec = (Number(step.durationSec) || 0) > 0 ? Number(step.durationSec) : undefined;
+      return {
+        distance: Math.round(getStepRepKm(step) * 1000),
+        durationSec,
+        count: step.reps,
+        pace: paceData.range,
+        rest: step.rest,
+        description: paceData.effort,
+        anchorDist: step.anchorDist,
+      };
+    });
+    const sessionDist = wu + cd + intervals.reduce((sum, int) => sum + (int.count * int.distance / 1000), 0);
 
     return {
       id: id,
-      title: formatThresholdTimeTitle(reps, durationSec),
+      title: formatThresholdIntervalsTitle(intervals),
       type: WorkoutType.THRESHOLD,
       sport: 'run',
       environment: 'road',
@@ -372,16 +761,14 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
       distance: Math.round(sessionDist * 10) / 10,
       duration: Math.round(sessionDist * (tPace / 60) * 1.05),
       description: `Strictly controlled sub-threshold. Stay below lactate turnpoint.`,
-      intervals: [{
-        distance: Math.round(repDistKm * 1000), durationSec, count: reps, pace: paceData.range, rest: tpl.rest, description: paceData.effort
-      }],
+      intervals,
       warmup: `${wu}km easy pace`,
       cooldown: `${cd}km easy pace`
     };
   };
 
   const createLongRun = (id: string): WorkoutSession => {
-    const mpSec = applyPaceCorrection(calculatePaceForDistance(profile.raceDistance, profile.raceTime, 42195), correctionSec);
+    const mpSec = applyPaceCorrection(getPredictedPaceForDistance(profile, 42195), correctionSec);
     const steadyPaceSec = (easyPace + mpSec) / 2;
 
     const variants: WorkoutSession[] = [
@@ -450,6 +837,34 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
     return { ...variants[0], variants };
   };
 
+  const createRaceSession = (id: string, race: GoalRace): WorkoutSession => {
+    const raceKm = Math.max(0, Number(race.distance) || 0) / 1000;
+    const raceSec = raceKm > 0 ? getPredictedPaceForDistance(profile, race.distance) * raceKm : 0;
+    const racePaceSec = raceKm > 0 ? applyPaceCorrection(raceSec / raceKm, correctionSec) : 0;
+    const raceWu = Math.min(2, wu);
+    const raceCd = Math.min(2, cd);
+    return {
+      id,
+      title: race.name?.trim() || `${formatRaceDistanceLabel(race.distance)} Race`,
+      type: WorkoutType.RACE,
+      sport: 'run',
+      environment: 'road',
+      treadmillInclinePct: DEFAULT_TREADMILL_INCLINE,
+      useHeartRateTarget: false,
+      distance: Math.round((raceKm + raceWu + raceCd) * 10) / 10,
+      duration: Math.round(((raceKm * racePaceSec) + ((raceWu + raceCd) * easyPace)) / 60),
+      description: raceSec > 0
+        ? `${race.priority}-priority goal race. Predicted ${secondsToTime(raceSec)} (${secondsToTime(racePaceSec)}/km).`
+        : `${race.priority}-priority goal race.`,
+      intervals: racePaceSec > 0
+        ? [{ distance: Math.round(race.distance), count: 1, pace: `${secondsToTime(racePaceSec - 3)}-${secondsToTime(racePaceSec + 3)}`, rest: '0', description: 'Race Pace' }]
+        : [],
+      racePriority: race.priority,
+      warmup: raceWu > 0 ? `${raceWu}km easy + strides` : 'N/A',
+      cooldown: raceCd > 0 ? `${raceCd}km easy` : 'N/A',
+    };
+  };
+
   const createEasyRun = (id: string, dist: number): WorkoutSession => ({
     id: id, title: `Easy Run`, type: WorkoutType.EASY, sport: 'run', distance: dist,
     environment: 'road',
@@ -459,14 +874,9 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
     description: `Target Pace: ${secondsToTime(easyRange.low)}-${secondsToTime(easyRange.high)}/km`,
     warmup: 'N/A', cooldown: 'N/A'
   });
-  const bikeSpeedKmh = (type: WorkoutType): number => {
-    if (type === WorkoutType.THRESHOLD) return 34;
-    if (type === WorkoutType.LONG_RUN) return 31;
-    return 30;
-  };
   const createBikeEasy = (id: string): WorkoutSession => {
     const runEquivalentMin = Math.round(easyDist * (easyPace / 60));
-    const distanceKm = Math.max(20, Math.round((runEquivalentMin / 60) * bikeSpeedKmh(WorkoutType.EASY)));
+    const distanceKm = Math.max(20, Math.round((runEquivalentMin / 60) * getBikeSpeedKmh(WorkoutType.EASY)));
     return {
       id,
       title: 'Easy Ride',
@@ -485,42 +895,43 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
       cooldown: '5m easy spin',
     };
   };
-  const createBikeThreshold = (id: string, dayName: string): WorkoutSession => {
+  const createBikeThreshold = (id: string, dayName: string, repFactor = 1): WorkoutSession => {
     const templateIdx = Math.max(0, thresholdDays.indexOf(dayName));
-    const tpl = thresholdTemplates[templateIdx % thresholdTemplates.length];
-    const reps = tpl.reps;
-    const runPace = getIntervalPaceRange(profile, tpl.anchorDist, correctionSec).range.split('-')[0];
-    const runRepSec = tpl.durationSec;
-    const bikeRepKm = ((runRepSec / 3600) * bikeSpeedKmh(WorkoutType.THRESHOLD));
-    const bikeRepMeters = Math.max(1000, Math.round(bikeRepKm * 1000));
-    const rest = '120s';
-    const workMinutes = Math.round(((runRepSec * reps) / 60));
-    const duration = 15 + workMinutes + (Math.max(0, reps - 1) * 2) + 10;
+    const tpl = scaleTemplateReps(thresholdTemplates[templateIdx % thresholdTemplates.length], repFactor);
     const ftp = Number(profile.ftp) || 0;
     const targetPowerLow = ftp > 0 ? Math.round(ftp * 0.92) : undefined;
     const targetPowerHigh = ftp > 0 ? Math.round(ftp * 0.98) : undefined;
+    // Run reps translate to ride reps of equal time; distance-based reps use their run-pace duration.
+    const steps = tpl.steps.map((step) => {
+      const runRepSec = (Number(step.durationSec) || 0) > 0 ? Number(step.durationSec) : getStepRepKm(step) * getStepPaceSec(step);
+      const bikeRepKm = ((runRepSec / 3600) * getBikeSpeedKmh(WorkoutType.THRESHOLD));
+      return { step, runRepSec, bikeRepMeters: Math.max(200, Math.round(bikeRepKm * 1000)) };
+    });
+    const workMinutes = Math.round(steps.reduce((sum, s) => sum + (s.runRepSec * s.step.reps), 0) / 60);
+    const restMinutes = Math.round(steps.reduce((sum, s) => sum + (restToSeconds(s.step.rest) * Math.max(0, s.step.reps - 1)), 0) / 60);
+    const duration = 15 + workMinutes + restMinutes + 10;
     return {
       id,
-      title: `SubT ${reps}x${Math.round((bikeRepMeters / 1000) * 10) / 10}km`,
+      title: `SubT ${steps.map((s) => `${s.step.reps}x${Math.round((s.bikeRepMeters / 1000) * 10) / 10}km`).join(' + ')}`,
       type: WorkoutType.THRESHOLD,
       sport: 'bike',
       environment: 'road',
       useHeartRateTarget: true,
-      distance: Math.round(((bikeRepMeters * reps) / 1000) * 10) / 10,
+      distance: Math.round((steps.reduce((sum, s) => sum + (s.bikeRepMeters * s.step.reps), 0) / 1000) * 10) / 10,
       duration,
       description: ftp > 0
         ? `Subthreshold cycling. ${targetPowerLow}-${targetPowerHigh}w (92-98% FTP).`
         : 'Subthreshold cycling. Zone 3 effort.',
-      intervals: [{
-        distance: bikeRepMeters,
-        count: reps,
+      intervals: steps.map((s) => ({
+        distance: s.bikeRepMeters,
+        count: s.step.reps,
         pace: '',
-        rest,
+        rest: s.step.rest,
         description: ftp > 0 ? `${targetPowerLow}-${targetPowerHigh}w` : 'Zone 3',
         targetZone: 'Z3',
         targetPowerLow,
         targetPowerHigh,
-      }],
+      })),
       warmup: '15m easy spin',
       cooldown: '10m easy spin',
     };
@@ -537,7 +948,7 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
       distance: 0,
       duration: 120,
       description: ftp > 0 ? `Aerobic long ride ${Math.round(ftp * 0.56)}-${Math.round(ftp * 0.75)}w.` : 'Aerobic long ride in Zone 2.',
-      intervals: [{ distance: Math.round((120 / 60) * bikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: 'Zone 2', targetZone: 'Z2' }],
+      intervals: [{ distance: Math.round((120 / 60) * getBikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: 'Zone 2', targetZone: 'Z2' }],
       warmup: '10m easy spin',
       cooldown: '5m easy spin',
     };
@@ -552,9 +963,9 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
       duration: 120,
       description: ftp > 0 ? `Progressive ride with tempo finish (${Math.round(ftp * 0.8)}-${Math.round(ftp * 0.88)}w).` : 'Progressive ride finishing upper aerobic.',
       intervals: [
-        { distance: Math.round((60 / 60) * bikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: 'Zone 2', targetZone: 'Z2' },
-        { distance: Math.round((36 / 60) * bikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: ftp > 0 ? `${Math.round(ftp * 0.8)}-${Math.round(ftp * 0.88)}w` : 'Zone 3', targetZone: 'Z3', targetPowerLow: ftp > 0 ? Math.round(ftp * 0.8) : undefined, targetPowerHigh: ftp > 0 ? Math.round(ftp * 0.88) : undefined },
-        { distance: Math.round((24 / 60) * bikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: 'Zone 2', targetZone: 'Z2' }
+        { distance: Math.round((60 / 60) * getBikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: 'Zone 2', targetZone: 'Z2' },
+        { distance: Math.round((36 / 60) * getBikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: ftp > 0 ? `${Math.round(ftp * 0.8)}-${Math.round(ftp * 0.88)}w` : 'Zone 3', targetZone: 'Z3', targetPowerLow: ftp > 0 ? Math.round(ftp * 0.8) : undefined, targetPowerHigh: ftp > 0 ? Math.round(ftp * 0.88) : undefined },
+        { distance: Math.round((24 / 60) * getBikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 1, pace: '', rest: '0', description: 'Zone 2', targetZone: 'Z2' }
       ],
       warmup: '10m easy spin',
       cooldown: '5m easy spin',
@@ -569,26 +980,41 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
       distance: 0,
       duration: 130,
       description: ftp > 0 ? `3x20 min tempo at ${Math.round(ftp * 0.85)}-${Math.round(ftp * 0.92)}w.` : '3x20 min tempo in Zone 3.',
-      intervals: [{ distance: Math.round((20 / 60) * bikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 3, pace: '', rest: '300s', description: ftp > 0 ? `${Math.round(ftp * 0.85)}-${Math.round(ftp * 0.92)}w` : 'Zone 3', targetZone: 'Z3', targetPowerLow: ftp > 0 ? Math.round(ftp * 0.85) : undefined, targetPowerHigh: ftp > 0 ? Math.round(ftp * 0.92) : undefined }],
+      intervals: [{ distance: Math.round((20 / 60) * getBikeSpeedKmh(WorkoutType.LONG_RUN) * 1000), count: 3, pace: '', rest: '300s', description: ftp > 0 ? `${Math.round(ftp * 0.85)}-${Math.round(ftp * 0.92)}w` : 'Zone 3', targetZone: 'Z3', targetPowerLow: ftp > 0 ? Math.round(ftp * 0.85) : undefined, targetPowerHigh: ftp > 0 ? Math.round(ftp * 0.92) : undefined }],
       warmup: '15m easy spin',
       cooldown: '10m easy spin',
     };
     return { ...easyRide, variants: [easyRide, progRide, blockRide] };
   };
 
+  const createDoubleThreshold = (id: string, dayName: string, sport: TrainingSport): WorkoutSession[] => (
+    DOUBLE_THRESHOLD_SPLIT.map(({ label, startTime, repFactor }) => {
+      const sessionId = `${id}-${label.toLowerCase()}`;
+      const base = sport === 'bike'
+        ? createBikeThreshold(sessionId, dayName, repFactor)
+        : createThresholdSession(sessionId, dayName, repFactor);
+      return { ...base, startTime };
+    })
+  );
+
   const dayOrder = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
   const dailyPlans: DailyPlan[] = dayOrder.map(dayName => {
     const type = profile.schedule[dayName] || DayType.REST;
     const id = dayName.toLowerCase();
     let session: WorkoutSession | null = null;
     const sport = profile.scheduleSport?.[dayName] || 'run';
+    if (type === DayType.DOUBLE_THRESHOLD) {
+      const [am, ...rest] = createDoubleThreshold(id, dayName, sport);
+      return { day: dayName, type, session: am, extraSessions: rest };
+    }
     if (type === DayType.THRESHOLD) session = sport === 'bike' ? createBikeThreshold(id, dayName) : createThresholdSession(id, dayName);
     else if (type === DayType.LONG_RUN) session = sport === 'bike' ? createBikeLong(id) : createLongRun(id);
     else if (type === DayType.EASY) session = sport === 'bike' ? createBikeEasy(id) : (easyDist >= 4 ? createEasyRun(id, easyDist) : null);
+    else if (type === DayType.RACE && profile.goalRace) session = createRaceSession(id, profile.goalRace);
     return { day: dayName, type, session };
   });
 
-  const actualTotal = dailyPlans.reduce((sum, d) => sum + (d.session?.distance || 0), 0);
+  const actualTotal = dailyPlans.reduce((sum, d) => sum + getDaySessions(d).reduce((acc, s) => acc + (s.distance || 0), 0), 0);
   if (easyDays.length > 0 && actualTotal !== targetKm) {
     const delta = targetKm - actualTotal;
     const perEasyDelta = delta / easyDays.length;
@@ -598,6 +1024,137 @@ export const generatePlan = (profile: UserProfile, correctionSec = 0): WeeklyPla
       }
     });
   }
-  const newTotal = dailyPlans.reduce((sum, d) => sum + (d.session?.distance || 0), 0);
-  return { totalDistance: Math.round(newTotal * 10) / 10, days: dailyPlans };
+  const newTotal = dailyPlans.reduce((sum, d) => sum + getDaySessions(d).reduce((acc, s) => acc + (s.distance || 0), 0), 0);
+  return { totalDistance: Math.round(newTotal * 10) / 10, days: dailyPlans, phase: progression.phase };
+};
+
+/**
+ * Progression for one week of a block. Weeks are grouped in cycles of `deloadEvery`
+ * weeks: build weeks step volume and threshold reps up inside the cycle, the last week
+ * of each cycle is a deload, and every new cycle starts slightly above the previous one.
+ */
+export const getWeekProgression = (weekIndex: number, deloadEvery = DEFAULT_DELOAD_EVERY): WeekProgression => {
+  const cycleLength = Math.min(4, Math.max(3, Math.round(Number(deloadEvery) || DEFAULT_DELOAD_EVERY)));
+  const cycle = Math.floor(weekIndex / cycleLength);
+  const posInCycle = weekIndex % cycleLength;
+  const cycleBase = Math.min(0.15, cycle * 0.05);
+
+  if (posInCycle === cycleLength - 1) {
+    return { phase: 'deload', volumeFactor: 0.7 + cycleBase, thresholdRepFactor: 0.7 };
+  }
+
+  return {
+    phase: 'build',
+    volumeFactor: Math.min(1.25, 1 + cycleBase + (posInCycle * 0.05)),
+    thresholdRepFactor: Math.min(1.4, 1 + ((cycle + posInCycle) * 0.1)),
+  };
+};
+
+export const normalizeBlockWeeks = (weeks: unknown): number => {
+  const parsed = Math.round(Number(weeks));
+  if (!Number.isFinite(parsed)) return DEFAULT_BLOCK_WEEKS;
+  return Math.min(MAX_BLOCK_WEEKS, Math.max(MIN_BLOCK_WEEKS, parsed));
+};
+
+/** YYYY-MM-DD in the browser's time zone (toISOString would give the UTC date). */
+export const formatLocalDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export interface GoalRaceTimeline {
+  raceWeekIndex: number;
+  raceDayIndex: number;
+  taperWeeks: number;    // eased weeks before the race week
+  recoveryWeeks: number; // reverse-taper weeks after the race week
+}
+
+/**
+ * Taper length grows with race distance and priority (A races get the full 1-3 weeks before race week,
+ * C races only ease off in race week). Recovery weeks mirror it after the race.
+ */
+export const getGoalRaceTimeline = (race: GoalRace | undefined, blockStartDate: string): GoalRaceTimeline | null => {
+  if (!race?.date || !blockStartDate) return null;
+  const start = new Date(`${blockStartDate}T00:00:00`);
+  const raceDate = new Date(`${race.date}T00:00:00`);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(raceDate.getTime())) return null;
+  const offsetDays = Math.round((raceDate.getTime() - start.getTime()) / 86400000);
+  if (offsetDays < 0) return null;
+
+  const dist = Math.max(0, Number(race.distance) || 0);
+  const fullTaper = dist >= 30000 ? 3 : dist >= 10000 ? 2 : 1;
+  const fullRecovery = dist >= 42000 ? 3 : dist >= 21000 ? 2 : 1;
+  const taperWeeks = race.priority === 'A' ? fullTaper : race.priority === 'B' ? Math.max(1, fullTaper - 1) : 0;
+  const recoveryWeeks = race.priority === 'C' ? Math.max(0, fullRecovery - 1) : fullRecovery;
+
+  return {
+    raceWeekIndex: Math.floor(offsetDays / 7),
+    raceDayIndex: offsetDays % 7,
+    taperWeeks,
+    recoveryWeeks,
+  };
+};
+
+const TAPER_FACTORS = [0.5, 0.65, 0.8]; // indexed by weeks remaining until race week
+const RECOVERY_FACTORS = [
+  { volumeFactor: 0.5, thresholdRepFactor: 0 },
+  { volumeFactor: 0.7, thresholdRepFactor: 0.6 },
+  { volumeFactor: 0.85, thresholdRepFactor: 0.8 },
+];
+
+const replaceScheduleType = (schedule: UserSchedule, from: DayType, to: DayType): UserSchedule => (
+  Object.fromEntries(Object.entries(schedule).map(([day, type]) => [day, type === from ? to : type]))
+);
+
+export const generateTrainingBlock = (profile: UserProfile, correctionSec = 0, blockStartDate?: string): WeeklyPlan[] => {
+  const dayOrder = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+  const timeline = blockStartDate ? getGoalRaceTimeline(profile.goalRace, blockStartDate) : null;
+  const raceFits = !!timeline && timeline.raceWeekIndex < MAX_BLOCK_WEEKS;
+  const weeks = raceFits
+    ? Math.min(MAX_BLOCK_WEEKS, Math.max(normalizeBlockWeeks(profile.blockWeeks), timeline!.raceWeekIndex + 1 + timeline!.recoveryWeeks))
+    : normalizeBlockWeeks(profile.blockWeeks);
+
+  return Array.from({ length: weeks }, (_, weekIndex) => {
+    if (!raceFits || !timeline) {
+      return { ...generatePlan(profile, correctionSec, getWeekProgression(weekIndex, profile.deloadEvery)), weekIndex };
+    }
+
+    const weeksToRace = timeline.raceWeekIndex - weekIndex;
+    if (weeksToRace === 0) {
+      const schedule = { ...profile.schedule };
+      dayOrder.forEach((day, idx) => {
+        if (idx === timeline.raceDayIndex) schedule[day] = DayType.RACE;
+        else if (idx > timeline.raceDayIndex) schedule[day] = DayType.REST;
+        else if (schedule[day] === DayType.LONG_RUN) schedule[day] = DayType.EASY;
+        else if (idx === timeline.raceDayIndex - 1 && (schedule[day] === DayType.THRESHOLD || schedule[day] === DayType.DOUBLE_THRESHOLD)) schedule[day] = DayType.EASY;
+        else if (schedule[day] === DayType.DOUBLE_THRESHOLD) schedule[day] = DayType.THRESHOLD;
+      });
+      const progression: WeekProgression = { phase: 'race', volumeFactor: TAPER_FACTORS[0], thresholdRepFactor: TAPER_FACTORS[0] };
+      return { ...generatePlan({ ...profile, schedule }, correctionSec, progression), weekIndex };
+    }
+
+    if (weeksToRace > 0 && weeksToRace <= timeline.taperWeeks) {
+      const factor = TAPER_FACTORS[Math.min(TAPER_FACTORS.length - 1, weeksToRace)];
+      const progression: WeekProgression = { phase: 'taper', volumeFactor: factor, thresholdRepFactor: factor };
+      const schedule = replaceScheduleType(profile.schedule, DayType.DOUBLE_THRESHOLD, DayType.THRESHOLD);
+      return { ...generatePlan({ ...profile, schedule }, correctionSec, progression), weekIndex };
+    }
+
+    if (weeksToRace < 0 && -weeksToRace <= timeline.recoveryWeeks) {
+      const recovery = RECOVERY_FACTORS[Math.min(RECOVERY_FACTORS.length - 1, -weeksToRace - 1)];
+      // The first week back drops threshold work entirely; later weeks reintroduce shortened sessions.
+      const singles = replaceScheduleType(profile.schedule, DayType.DOUBLE_THRESHOLD, DayType.THRESHOLD);
+      const schedule = recovery.thresholdRepFactor > 0
+        ? singles
+        : replaceScheduleType(singles, DayType.THRESHOLD, DayType.EASY);
+      const progression: WeekProgression = { phase: 'recovery', ...recovery };
+      return { ...generatePlan({ ...profile, schedule }, correctionSec, progression), weekIndex };
+    }
+
+    // Once recovery is over the next build starts a fresh progression cycle.
+    const buildWeekIndex = weeksToRace < 0 ? weekIndex - (timeline.raceWeekIndex + 1 + timeline.recoveryWeeks) : weekIndex;
+    return { ...generatePlan(profile, correctionSec, getWeekProgression(buildWeekIndex, profile.deloadEvery)), weekIndex };
+  });
 };
@@ -0,0 +1,190 @@
+import { IcuActivitySummary, WorkoutSession, WorkoutType } from '../types';
+import { timeToSeconds } from './calculations';
+import { getIntervalRepProfile } from './lactate';
+
+// GPS pace wobbles a few seconds either side of the band even on a steady rep.
+const PACE_BAND_TOLERANCE_SEC = 5;
+const HR_BAND_TOLERANCE_BPM = 2;
+// Longer gaps between samples are pauses (auto-pause, GPS loss), not time spent in the band.
+const MAX_SAMPLE_GAP_SEC = 10;
+export const COMPLIANCE_GOOD = 85;
+export const COMPLIANCE_FAIR = 65;
+
+export interface ComplianceTargets {
+  kind: 'pace' | 'hr' | 'none';
+  bands: Array<[number, number]>; // sec/km (fast, slow) or bpm (low, high)
+  bandSec: number;                // planned time inside the band
+}
+
+export interface PlannedSessionRef {
+  key: string; // getComplianceKey(date, session)
+  date: string;
+  session: WorkoutSession;
+}
+
+export interface SessionCompliance {
+  key: string;
+  status: 'done' | 'missed' | 'pending';
+  activityId?: string;
+  activityName?: string;
+  score?: number;        // 0-100
+  durationPct?: number;  // actual / planned
+  distancePct?: number;
+  inBandPct?: number;    // time in target band / planned band time
+  actualSec?: number;
+  actualM?: number;
+}
+
+export interface WeekComplianceSummary {
+  planned: number;
+  done: number;
+  missed: number;
+  score?: number; // missed sessions count as 0
+}
+
+const parsePaceBand = (text: string): [number, number] | null => {
+  const parts = (text || '').replace(/\/km/gi, '').split('-').map((p) => timeToSeconds(p.trim())).filter((v) => v > 0);
+  return parts.length ? [Math.min(...parts), Math.max(...parts)] : null;
+};
+
+const isBikeActivity = (type: string): boolean => /ride|bike|cycl/i.test(type);
+
+// Keyed by session id so a score moves with its session, and drops when the session moves to another day.
+export const getComplianceKey = (date: string, session: WorkoutSession): string => `${date}:${session.id}`;
+
+// Seconds each sample stands for, from the `time` stream; smart recording logs every few seconds.
+const getSampleSeconds = (count: number, time?: number[]): number[] => {
+  if (!time || time.length !== count) return new Array<number>(count).fill(1);
+  return time.map((t, i) => (i === 0 ? 1 : Math.max(0, Math.min(MAX_SAMPLE_GAP_SEC, t - time[i - 1]))));
+};
+
+const sumInBand = (values: number[], time: number[] | undefined, inBand: (v: number) => boolean): number => {
+  const seconds = getSampleSeconds(values.length, time);
+  return values.reduce((sum, v, i) => (inBand(v) ? sum + seconds[i] : sum), 0);
+};
+
+/** What "on target" means for a planned session: rep paces, the easy pace range or the HR band. */
+export const getComplianceTargets = (session: WorkoutSession): ComplianceTargets => {
+  const plannedSec = Math.max(0, Number(session.duration) || 0) * 60;
+  const intervals = session.intervals || [];
+  const isThreshold = session.type === WorkoutType.THRESHOLD && intervals.length > 0;
+  const repSec = intervals.reduce((sum, int) => sum + (Math.max(1, Number(int.count) || 1) * getIntervalRepProfile(int).repDurationSec), 0);
+  const bandSec = isThreshold && repSec > 0 ? repSec : plannedSec;
+  if ((session.sport || 'run') === 'bike') return { kind: 'none', bands: [], bandSec: 0 };
+
+  if (session.useHeartRateTarget && session.targetHrLow && session.targetHrHigh) {
+    return { kind: 'hr', bands: [[session.targetHrLow, session.targetHrHigh]], bandSec };
+  }
+  const bands = intervals.map((int) => parsePaceBand(int.pace)).filter((b): b is [number, number] => !!b);
+  const easy = (session.description || '').match(/Target Pace:\s*(\d+:\d{2}(?:-\d+:\d{2})?)\/km/i);
+  const easyBand = easy ? parsePaceBand(easy[1]) : null;
+  if (!bands.length && easyBand) bands.push(easyBand);
+  return bands.length ? { kind: 'pace', bands, bandSec } : { kind: 'none', bands: [], bandSec: 0 };
+};
+
+/**
+ * Seconds of a speed (m/s) or heart-rate stream that fall inside any target band. Samples are weighted
+ * by the `time` stream (seconds from start); without it each sample counts as one second.
+ */
+export const getTimeInBandSec = (targets: ComplianceTargets, streams: Record<string, number[]>): number | undefined => {
+  if (targets.kind === 'pace') {
+    const speed = streams.velocity_smooth;
+    if (!speed?.length) return undefined;
+    return Math.round(sumInBand(speed, streams.time, (v) => {
+      if (v <= 0) return false;
+      const pace = 1000 / v;
+      return targets.bands.some(([fast, slow]) => pace >= fast - PACE_BAND_TOLERANCE_SEC && pace <= slow + PACE_BAND_TOLERANCE_SEC);
+    }));
+  }
+  if (targets.kind === 'hr') {
+    const hr = streams.heartrate;
+    if (!hr?.length) return undefined;
+    return Math.round(sumInBand(hr, streams.time, (v) => targets.bands.some(([low, high]) => v >= low - HR_BAND_TOLERANCE_BPM && v <= high + HR_BAND_TOLERANCE_BPM)));
+  }
+  return undefined;
+};
+
+/**
+ * Pairs planned sessions with completed activities. Intervals.icu's own pairing (paired_event_id)
+ * wins; otherwise the same-day activity of the same sport closest to the planned duration.
+ */
+export const matchActivitiesToSessions = (
+  planned: PlannedSessionRef[],
+  activities: IcuActivitySummary[]
+): Record<string, IcuActivitySummary> => {
+  const matches: Record<string, IcuActivitySummary> = {};
+  const used = new Set<string>();
+  planned.forEach((ref) => {
+    const paired = ref.session.icuEventId ? activities.find((a) => a.pairedEventId === ref.session.icuEventId) : undefined;
+    if (paired && !used.has(paired.id)) {
+      matches[ref.key] = paired;
+      used.add(paired.id);
+    }
+  });
+  planned.forEach((ref) => {
+    if (matches[ref.key]) return;
+    const isBike = (ref.session.sport || 'run') === 'bike';
+    const plannedSec = (Number(ref.session.duration) || 0) * 60;
+    const candidate = activities
+      .filter((a) => a.date === ref.date && !used.has(a.id) && isBikeActivity(a.type) === isBike && (isBike || /run/i.test(a.type)))
+      .sort((a, b) => Math.abs(a.movingSec - plannedSec) - Math.abs(b.movingSec - plannedSec))[0];
+    if (candidate) {
+      matches[ref.key] = candidate;
+      used.add(candidate.id);
+    }
+  });
+  return matches;
+};
+
+// 100 when actual matches plan, one point off per percent over or under.
+const ratioScore = (pct: number): number => Math.max(0, Math.min(100, 100 - Math.abs(pct - 100)));
+
+export const scoreSessionCompliance = (
+  ref: PlannedSessionRef,
+  activity: IcuActivitySummary | undefined,
+  today: string,
+  inBandSec?: number
+): SessionCompliance => {
+  if (!activity) return { key: ref.key, status: ref.date < today ? 'missed' : 'pending' };
+  const plannedSec = (Number(ref.session.duration) || 0) * 60;
+  const plannedM = (Number(ref.session.distance) || 0) * 1000;
+  const targets = getComplianceTargets(ref.session);
+  const durationPct = plannedSec > 0 ? (activity.movingSec / plannedSec) * 100 : undefined;
+  const distancePct = plannedM > 0 && activity.distanceM > 0 ? (activity.distanceM / plannedM) * 100 : undefined;
+  const inBandPct = inBandSec !== undefined && targets.bandSec > 0 ? Math.min(100, (inBandSec / targets.bandSec) * 100) : undefined;
+  const parts = [
+    durationPct !== undefined ? ratioScore(durationPct) : undefined,
+    distancePct !== undefined ? ratioScore(distancePct) : undefined,
+    inBandPct,
+  ].filter((v): v is number => v !== undefined);
+  return {
+    key: ref.key,
+    status: 'done',
+    activityId: activity.id,
+    activityName: activity.name,
+    score: parts.length ? Math.round(parts.reduce((sum, v) => sum + v, 0) / parts.length) : undefined,
+    durationPct: durationPct !== undefined ? Math.round(durationPct) : undefined,
+    distancePct: distancePct !== undefined ? Math.round(distancePct) : undefined,
+    inBandPct: inBandPct !== undefined ? Math.round(inBandPct) : undefined,
+    actualSec: activity.movingSec,
+    actualM: activity.distanceM,
+  };
+};
+
+export const summarizeWeekCompliance = (items: SessionCompliance[]): WeekComplianceSummary => {
+  const due = items.filter((c) => c.status !== 'pending');
+  const done = due.filter((c) => c.status === 'done');
+  return {
+    planned: items.length,
+    done: done.length,
+    missed: due.length - done.length,
+    score: due.length ? Math.round(due.reduce((sum, c) => sum + (c.score ?? 0), 0) / due.length) : undefined,
+  };
+};
+
+export const getComplianceTone = (score?: number): string => {
+  if (score === undefined) return 'text-slate-500 dark:text-slate-300 border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800';
+  if (score >= COMPLIANCE_GOOD) return 'text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-900/30';
+  if (score >= COMPLIANCE_FAIR) return 'text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30';
+  return 'text-rose-700 dark:text-rose-300 border-rose-200 dark:border-rose-800 bg-rose-50 dark:bg-rose-900/30';
+};
@@ -0,0 +1,72 @@
+import { TrailRoute } from '../types';
+
+// Resampling to fixed steps smooths GPS elevation noise before gain/loss are summed.
+const ROUTE_SAMPLE_M = 100;
+const EARTH_RADIUS_M = 6371000;
+
+interface TrackPoint {
+  lat: number;
+  lon: number;
+  ele: number;
+}
+
+const haversineM = (a: TrackPoint, b: TrackPoint): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = (Math.sin(dLat / 2) ** 2) + (Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * (Math.sin(dLon / 2) ** 2));
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/** Builds a resampled distance/elevation profile from GPX track or route points. Returns null without usable elevation. */
+export const parseGpxRoute = (xml: string, fallbackName = 'Route'): TrailRoute | null => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) return null;
+
+  const nodes = Array.from(doc.getElementsByTagName('trkpt')).concat(Array.from(doc.getElementsByTagName('rtept')));
+  const points: TrackPoint[] = nodes
+    .map((node) => ({
+      lat: Number(node.getAttribute('lat')),
+      lon: Number(node.getAttribute('lon')),
+      ele: Number(node.getElementsByTagName('ele')[0]?.textContent),
+    }))
+    .filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lon) && Number.isFinite(p.ele));
+  if (points.length < 2) return null;
+
+  const cumulative: Array<[number, number]> = [[0, points[0].ele]];
+  for (let i = 1; i < points.length; i += 1) {
+    cumulative.push([cumulative[i - 1][0] + haversineM(points[i - 1], points[i]), points[i].ele]);
+  }
+  const totalM = cumulative[cumulative.length - 1][0];
+  if (totalM <= 0) return null;
+
+  const profile: Array<[number, number]> = [];
+  let j = 0;
+  for (let d = 0; d <= totalM; d += ROUTE_SAMPLE_M) {
+    while (j < cumulative.length - 2 && cumulative[j + 1][0] < d) j += 1;
+    const [d0, e0] = cumulative[j];
+    const [d1, e1] = cumulative[j + 1];
+    const ele = d1 > d0 ? e0 + ((d - d0) / (d1 - d0)) * (e1 - e0) : e0;
+    profile.push([Math.round(d) / 1000, Math.round(ele)]);
+  }
+  if (profile[profile.length - 1][0] * 1000 < totalM) {
+    profile.push([Math.round(totalM) / 1000, Math.round(cumulative[cumulative.length - 1][1])]);
+  }
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i < profile.length; i += 1) {
+    const diff = profile[i][1] - profile[i - 1][1];
+    if (diff > 0) gain += diff;
+    else loss -= diff;
+  }
+
+  const name = doc.getElementsByTagName('name')[0]?.textContent?.trim() || fallbackName;
+  return {
+    name,
+    distanceKm: Math.round(totalM / 100) / 10,
+    elevationGainM: Math.round(gain),
+    elevationLossM: Math.round(loss),
+    profile,
+  };
+};
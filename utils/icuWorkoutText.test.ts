@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DayType, DistanceUnit, UserProfile, WorkoutType } from '../types';
+import { formatIcuWorkoutText } from '../services/intervalsService';
+import { generatePlan, getDaySessions } from './calculations';
+import { parseIcuWorkoutText } from './icuWorkoutText';
+
+const summarize = (text: string) => {
+  const parsed = parseIcuWorkoutText(text);
+  return parsed && {
+    type: parsed.session.type,
+    intervals: (parsed.session.intervals || []).map((int) => ({
+      count: int.count,
+      distance: int.distance,
+      durationSec: int.durationSec,
+      pace: int.pace,
+      rest: int.rest,
+      customPace: int.customPace,
+    })),
+    warmup: parsed.session.warmup,
+    cooldown: parsed.session.cooldown,
+    skipped: parsed.skipped,
+  };
+};
+
+describe('parseIcuWorkoutText', () => {
+  it('splits a mixed compact repeat into one block per work step with its own recovery', () => {
+    const result = summarize('3x[1km @ 4:00/km run / 400mtr jog / 500mtr @ 3:40/km run / 200mtr jog]');
+    expect(result?.type).toBe(WorkoutType.THRESHOLD);
+    expect(result?.intervals).toEqual([
+      { count: 3, distance: 1000, durationSec: undefined, pace: '4:00', rest: '0.4km', customPace: true },
+      { count: 3, distance: 500, durationSec: undefined, pace: '3:40', rest: '0.2km', customPace: true },
+    ]);
+  });
+
+  it('reads the multi-line form of the same repeat the same way', () => {
+    const compact = summarize('3x[1km @ 4:00/km run / 400mtr jog / 500mtr @ 3:40/km run / 200mtr jog]');
+    const multiLine = summarize('Main set 3x\n- 1km 4:00/km Pace\n- 400mtr jog\n- 500mtr 3:40/km Pace\n- 200mtr jog');
+    expect(multiLine?.intervals).toEqual(compact?.intervals);
+  });
+
+  it('keeps warmup and cooldown outside the repeat and the imported pace range', () => {
+    const result = summarize('Threshold\n\nWu 2km easy run; 5x[2km @ 4:10-4:20/km run / 60s recovery]; Cd 1km easy run');
+    expect(result?.intervals).toEqual([
+      { count: 5, distance: 2000, durationSec: undefined, pace: '4:10-4:20', rest: '60s', customPace: true },
+    ]);
+    expect(result?.warmup).toBe('2km easy');
+    expect(result?.cooldown).toBe('1km easy');
+  });
+
+  it('treats the first step of an untargeted repeat as work', () => {
+    expect(summarize('5x[3m / 1m]')?.intervals).toEqual([
+      { count: 5, distance: 0, durationSec: 180, pace: '', rest: '60s', customPace: undefined },
+    ]);
+  });
+
+  it('classifies an "easy" step inside a targeted repeat as recovery', () => {
+    const result = summarize('Warmup\n- 10m Z2\n\nMain set 4x\n- 5m 95%\n- 2m easy\n\nCooldown\n- 10m Z1');
+    expect(result?.intervals.map((int) => [int.count, int.durationSec, int.rest])).toEqual([[4, 300, '120s']]);
+    expect(result?.warmup).toBe('10m easy');
+    expect(result?.cooldown).toBe('10m easy');
+  });
+
+  it('reads a single steady step as an easy run', () => {
+    const result = summarize('Easy\n\n- 8km Z2');
+    expect(result?.type).toBe(WorkoutType.EASY);
+    expect(result?.intervals).toEqual([]);
+    expect(result?.skipped).toEqual([]);
+  });
+});
+
+describe('formatIcuWorkoutText round trip', () => {
+  const profile = {
+    name: 'Runner',
+    raceDistance: 5000,
+    raceTime: '20:00',
+    maxHR: 190,
+    weeklyVolume: 60,
+    unit: DistanceUnit.KM,
+    warmupDist: 2,
+    cooldownDist: 1,
+    schedule: {
+      Monday: DayType.EASY,
+      Tuesday: DayType.THRESHOLD,
+      Wednesday: DayType.EASY,
+      Thursday: DayType.THRESHOLD,
+      Friday: DayType.REST,
+      Saturday: DayType.THRESHOLD,
+      Sunday: DayType.LONG_RUN,
+    },
+  } as UserProfile;
+  const sessions = generatePlan(profile).days.flatMap((day) => getDaySessions(day));
+
+  it('reads a generated threshold session back with the same reps, paces and recoveries', () => {
+    const session = sessions.find((s) => s.type === WorkoutType.THRESHOLD)!;
+    const text = formatIcuWorkoutText(session);
+    const parsed = parseIcuWorkoutText(text);
+    expect(parsed?.skipped).toEqual([]);
+    expect(parsed?.session.type).toBe(WorkoutType.THRESHOLD);
+    expect(parsed?.session.title).toBe(session.title);
+    expect(parsed?.session.intervals?.map((int) => [int.count, int.durationSec, int.pace, int.rest])).toEqual(
+      session.intervals?.map((int) => [int.count, int.durationSec, int.pace, int.rest])
+    );
+    expect(formatIcuWorkoutText(parsed!.session)).toBe(text);
+  });
+
+  it('reads a generated easy session back with the same distance and pace range', () => {
+    const session = sessions.find((s) => s.type === WorkoutType.EASY)!;
+    const text = formatIcuWorkoutText(session);
+    const parsed = parseIcuWorkoutText(text);
+    expect(parsed?.session.type).toBe(WorkoutType.EASY);
+    expect(parsed?.session.distance).toBe(session.distance);
+    expect(parsed?.session.description).toBe(session.description);
+    expect(formatIcuWorkoutText(parsed!.session)).toBe(text);
+  });
+});
@@ -0,0 +1,222 @@
+import { WorkoutSession } from '../types';
+import { METERS_PER_MILE } from './units';
+import { buildSessionFromSteps, ParsedStep, StepGroup, StepRole } from './workoutSteps';
+
+export interface IcuTextParseOptions {
+  id?: string;
+  ftp?: number; // converts "%" power targets to watts
+}
+
+export interface ParsedIcuWorkout {
+  session: WorkoutSession;
+  notes: string[];    // free-text lines kept in the description
+  skipped: string[];  // step text that could not be read
+}
+
+// Intervals.icu units: "m" is minutes, meters are "mtr"; miles are checked before minutes.
+const DISTANCE_RE = /(\d+(?:\.\d+)?)\s*(km|mi(?:les?)?|mtr)\b/i;
+const DURATION_PART_RE = /(\d+(?:\.\d+)?)\s*(h|m|s)(?![a-z])/gi;
+const PACE_RE = /(\d+:\d{2})(?:\s*-\s*(\d+:\d{2}))?\s*\/\s*(km|mi)\b/i;
+const BPM_RE = /(\d{2,3})\s*(?:-\s*(\d{2,3})\s*)?bpm/i;
+const WATTS_RE = /(\d{2,4})\s*(?:-\s*(\d{2,4})\s*)?w\b/i;
+const FTP_PCT_RE = /(\d{2,3})\s*(?:-\s*(\d{2,3})\s*)?%(?!\s*(?:hr|lthr|pace))/i;
+const ZONE_RE = /\bZ([1-7])\b/i;
+const REPEAT_HEADER_RE = /(?:^|\s)(\d+)\s*x\s*$/i;
+const RECOVERY_RE = /\b(recovery|rest|float|jog)\b/;
+
+// Inside a repeat the step's target decides: pace, power, % or HR targets (or Z3+) are work; the rest is recovery.
+type RoleHint = StepRole | 'repeat';
+
+const hasIntensityTarget = (text: string, step: ParsedStep): boolean => (
+  !!(step.paceLowSec || step.powerLow || step.hrLow || /\d\s*%/.test(text) || (step.zone && Number(step.zone.slice(1)) >= 3))
+);
+
+const toSec = (token: string): number => {
+  const [m, s] = token.split(':').map(Number);
+  return (m * 60) + s;
+};
+
+const parseDistanceM = (text: string): number => {
+  const match = text.match(DISTANCE_RE);
+  if (!match) return 0;
+  const amount = Number(match[1]) || 0;
+  const unit = match[2].toLowerCase();
+  if (unit === 'mtr') return amount;
+  return unit.startsWith('mi') ? amount * METERS_PER_MILE : amount * 1000;
+};
+
+const parseDurationSec = (text: string): number => {
+  // Pace and distance tokens are removed first so "4:10/km" or "2km" never read as time.
+  const cleaned = text.replace(PACE_RE, ' ').replace(DISTANCE_RE, ' ');
+  let total = 0;
+  for (const match of cleaned.matchAll(DURATION_PART_RE)) {
+    const value = Number(match[1]) || 0;
+    const unit = match[2].toLowerCase();
+    total += unit === 'h' ? value * 3600 : unit === 'm' ? value * 60 : value;
+  }
+  return Math.round(total);
+};
+
+const parseStep = (raw: string, ftp: number, hint: RoleHint): ParsedStep | null => {
+  const text = raw.replace(/^[-•*]\s*/, '').trim();
+  const distanceM = parseDistanceM(text);
+  const durationSec = distanceM > 0 ? 0 : parseDurationSec(text);
+  if (!distanceM && !durationSec) return null;
+
+  const lower = text.toLowerCase();
+  const role: StepRole = /^(wu|warm\s*-?up)\b/.test(lower) ? 'warmup'
+    : /^(cd|cool\s*-?down)\b/.test(lower) ? 'cooldown'
+      : RECOVERY_RE.test(lower) ? 'recovery'
+        : hint === 'repeat' ? 'work' : hint;
+  const step: ParsedStep = { role, distanceM, durationSec, isRide: /\bride\b/.test(lower) };
+
+  const pace = text.match(PACE_RE);
+  if (pace) {
+    const perMile = pace[3].toLowerCase() === 'mi';
+    const values = [pace[1], pace[2]].filter(Boolean).map((p) => toSec(p as string) / (perMile ? METERS_PER_MILE / 1000 : 1));
+    step.paceLowSec = Math.round(Math.min(...values));
+    step.paceHighSec = Math.round(Math.max(...values));
+  }
+  const bpm = text.match(BPM_RE);
+  if (bpm) {
+    step.hrLow = Number(bpm[1]);
+    step.hrHigh = Number(bpm[2] || bpm[1]);
+  }
+  const watts = text.replace(BPM_RE, ' ').match(WATTS_RE);
+  const ftpPct = ftp > 0 ? text.match(FTP_PCT_RE) : null;
+  if (watts) {
+    step.powerLow = Number(watts[1]);
+    step.powerHigh = Number(watts[2] || watts[1]);
+  } else if (ftpPct) {
+    step.powerLow = Math.round((Number(ftpPct[1]) / 100) * ftp);
+    step.powerHigh = Math.round((Number(ftpPct[2] || ftpPct[1]) / 100) * ftp);
+  }
+  const zone = text.match(ZONE_RE);
+  if (zone) step.zone = `Z${zone[1]}`;
+  if (step.powerLow) step.isRide = true;
+  if (hint === 'repeat' && step.role === 'work' && (/\beasy\b/.test(lower) || !hasIntensityTarget(text, step))) step.role = 'recovery';
+  return step;
+};
+
+// A repeat without any targets ("5x[3m / 1m]") falls back to its first step being the work.
+const ensureRepeatWork = (group: StepGroup): void => {
+  if (group.reps <= 1 || group.steps.some((s) => s.role === 'work')) return;
+  const first = group.steps.find((s) => s.role === 'recovery');
+  if (first) first.role = 'work';
+};
+
+// Splits "a; 5x[b / c]; d" on top-level separators only.
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '[') depth += 1;
+    if (char === ']') depth = Math.max(0, depth - 1);
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim()).filter(Boolean);
+};
+
+/** Compact one-line syntax, as written by formatIcuWorkoutText. */
+const parseCompactLine = (line: string, ftp: number, skipped: string[]): StepGroup[] => (
+  splitTopLevel(line, ';').flatMap((chunk): StepGroup[] => {
+    const repeat = chunk.match(/^(\d+)\s*x\s*\[(.*)\]$/i);
+    // Work and recovery are separated by a spaced slash; "4:10/km" keeps its own.
+    const parts = repeat ? repeat[2].split(/\s+\/\s+/).map((p) => p.trim()).filter(Boolean) : [chunk];
+    const steps = parts
+      .map((part) => {
+        const step = parseStep(part, ftp, repeat ? 'repeat' : 'work');
+        if (!step) skipped.push(part);
+        return step;
+      })
+      .filter((s): s is ParsedStep => !!s);
+    if (!steps.length) return [];
+    const group = { reps: repeat ? Math.max(1, Number(repeat[1])) : 1, steps };
+    ensureRepeatWork(group);
+    return [group];
+  })
+);
+
+const looksLikeCompactSteps = (line: string): boolean => {
+  if (/\d+\s*x\s*\[/.test(line)) return true;
+  const hasSize = DISTANCE_RE.test(line) || /\d\s*[hms](?![a-z])/i.test(line);
+  return hasSize && (/;/.test(line) || /^(wu|cd)\s/i.test(line) || /\b(run|ride|recovery)$/i.test(line));
+};
+
+const collectGroups = (text: string, ftp: number) => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const groups: StepGroup[] = [];
+  const notes: string[] = [];
+  const skipped: string[] = [];
+  let title = '';
+  // Line-based syntax: "Main set 5x" headers followed by "- step" lines, ended by a blank line.
+  let section: { reps: number; role: StepRole; group?: StepGroup } | null = null;
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) {
+      section = null;
+      return;
+    }
+    if (/^[-•*]\s/.test(line)) {
+      const role = section?.role || 'work';
+      const inRepeat = (section?.reps || 1) > 1;
+      const step = parseStep(line, ftp, inRepeat ? 'repeat' : role);
+      if (!step) {
+        skipped.push(line);
+        return;
+      }
+      if (section && (inRepeat || role !== 'work')) {
+        if (!section.group) {
+          section.group = { reps: section.reps, steps: [] };
+          groups.push(section.group);
+        }
+        section.group.steps.push(step);
+      } else {
+        groups.push({ reps: 1, steps: [step] });
+      }
+      return;
+    }
+    const repeat = line.match(REPEAT_HEADER_RE);
+    if (repeat) {
+      section = { reps: Math.max(1, Number(repeat[1])), role: 'work' };
+      return;
+    }
+    if (/^(warm\s*-?up|wu)$/i.test(line)) {
+      section = { reps: 1, role: 'warmup' };
+      return;
+    }
+    if (/^(cool\s*-?down|cd)$/i.test(line)) {
+      section = { reps: 1, role: 'cooldown' };
+      return;
+    }
+    if (looksLikeCompactSteps(line)) {
+      groups.push(...parseCompactLine(line, ftp, skipped));
+      return;
+    }
+    if (!title && !groups.length) title = line;
+    else notes.push(line);
+    section = null;
+  });
+  groups.forEach(ensureRepeatWork);
+  return { title, groups, notes, skipped };
+};
+
+/**
+ * Reads Intervals.icu workout text back into a session: our own compact export
+ * ("Wu 2km easy run; 5x[2km @ 4:10-4:20/km run / 60s recovery]; Cd 1km easy run")
+ * and hand-written line-based workouts ("Main set 5x" / "- 2km 4:10/km Pace").
+ * Returns null when no step could be read.
+ */
+export const parseIcuWorkoutText = (text: string, options: IcuTextParseOptions = {}): ParsedIcuWorkout | null => {
+  const { title, groups, notes, skipped } = collectGroups(text || '', Number(options.ftp) || 0);
+  const session = buildSessionFromSteps(groups, { id: options.id, title, notes });
+  return session ? { session, notes, skipped } : null;
+};
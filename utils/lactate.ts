@@ -0,0 +1,128 @@
+import { Interval, LactateReading, UserProfile } from '../types';
+import { timeToSeconds } from './calculations';
+
+// Sub-threshold work is defined by lactate, roughly 2-3 mmol/L.
+export const DEFAULT_LACTATE_TARGET = { low: 2.0, high: 3.0 };
+// Rep durations are compared in buckets: short (~1 min), 3 min, 6 min and 10 min+ reps.
+export const LACTATE_DURATION_BUCKETS = [60, 180, 360, 600];
+
+const LACTATE_STORAGE_KEY_PREFIX = 'norskflow_lactate';
+export const LACTATE_NOTE_PREFIX = 'Lactate (mmol/L):';
+// Without enough personal history, assume ~0.15 mmol/L per sec/km near LT2.
+const DEFAULT_MMOL_PER_SEC = 0.15;
+const MAX_LACTATE_ADJUSTMENT_SEC = 10;
+
+export interface LactatePaceSuggestion {
+  deltaSec: number;     // positive = run slower next time
+  meanMmol: number;     // latest session's average in this duration bucket
+  readingCount: number;
+  basis: 'history' | 'default';
+}
+
+export const getLactateTarget = (profile: UserProfile): { low: number; high: number } => {
+  const low = Number(profile.lactateTarget?.low) || DEFAULT_LACTATE_TARGET.low;
+  const high = Number(profile.lactateTarget?.high) || DEFAULT_LACTATE_TARGET.high;
+  return high > low ? { low, high } : DEFAULT_LACTATE_TARGET;
+};
+
+const getLactateStorageKey = (uid?: string): string => `${LACTATE_STORAGE_KEY_PREFIX}_${uid || 'local'}`;
+
+export const loadLactateReadings = (uid?: string): LactateReading[] => {
+  try {
+    const raw = localStorage.getItem(getLactateStorageKey(uid));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLactateReadings = (uid: string | undefined, readings: LactateReading[]): void => {
+  localStorage.setItem(getLactateStorageKey(uid), JSON.stringify(readings));
+};
+
+export const getDurationBucket = (repDurationSec: number): number => {
+  const sec = Math.max(0, Number(repDurationSec) || 0);
+  if (sec <= 120) return LACTATE_DURATION_BUCKETS[0];
+  if (sec <= 270) return LACTATE_DURATION_BUCKETS[1];
+  if (sec <= 480) return LACTATE_DURATION_BUCKETS[2];
+  return LACTATE_DURATION_BUCKETS[3];
+};
+
+export const formatDurationBucket = (bucketSec: number): string => (
+  bucketSec >= LACTATE_DURATION_BUCKETS[3] ? '10 min+ reps' : `${Math.round(bucketSec / 60)} min reps`
+);
+
+const getPaceMidSec = (pace: string): number => {
+  const [low, high] = (pace || '').split('-').map((p) => timeToSeconds(p.trim()));
+  if (low > 0 && high > 0) return (low + high) / 2;
+  return low > 0 ? low : 0;
+};
+
+/** Prescribed rep pace (sec/km) and rep duration for an interval step. */
+export const getIntervalRepProfile = (interval: Interval): { paceSecPerKm: number; repDurationSec: number } => {
+  const paceSecPerKm = getPaceMidSec(interval.pace);
+  const durationSec = Number(interval.durationSec) || 0;
+  if (durationSec > 0) return { paceSecPerKm, repDurationSec: durationSec };
+  const distanceKm = (Number(interval.distance) || 0) / 1000;
+  return { paceSecPerKm, repDurationSec: paceSecPerKm > 0 ? Math.round(distanceKm * paceSecPerKm) : 0 };
+};
+
+/** Pace-to-lactate history for one rep-duration bucket, oldest first. */
+export const getLactateHistory = (readings: LactateReading[], repDurationSec: number): LactateReading[] => {
+  const bucket = getDurationBucket(repDurationSec);
+  return readings
+    .filter((r) => r.mmol > 0 && (r.paceSecPerKm || 0) > 0 && getDurationBucket(r.repDurationSec || 0) === bucket)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Suggests a pace change for a rep duration from the most recent session's readings before `beforeDate`.
+ * Uses the athlete's own pace-lactate slope when the history spans enough paces.
+ */
+export const suggestLactatePaceAdjustment = (
+  readings: LactateReading[],
+  repDurationSec: number,
+  target: { low: number; high: number },
+  beforeDate: string
+): LactatePaceSuggestion | null => {
+  const history = getLactateHistory(readings, repDurationSec).filter((r) => r.date < beforeDate);
+  if (!history.length) return null;
+
+  const latest = history[history.length - 1];
+  const latestSession = history.filter((r) => r.date === latest.date && r.sessionId === latest.sessionId);
+  const meanMmol = latestSession.reduce((sum, r) => sum + r.mmol, 0) / latestSession.length;
+  if (meanMmol >= target.low && meanMmol <= target.high) {
+    return { deltaSec: 0, meanMmol, readingCount: latestSession.length, basis: 'history' };
+  }
+
+  // Least-squares slope of mmol against pace; faster (smaller) paces should give higher lactate.
+  let mmolPerSec = -DEFAULT_MMOL_PER_SEC;
+  let basis: LactatePaceSuggestion['basis'] = 'default';
+  const paces = history.map((r) => r.paceSecPerKm || 0);
+  if (history.length >= 3 && Math.max(...paces) - Math.min(...paces) >= 4) {
+    const meanPace = paces.reduce((sum, p) => sum + p, 0) / paces.length;
+    const meanLactate = history.reduce((sum, r) => sum + r.mmol, 0) / history.length;
+    const sxx = paces.reduce((sum, p) => sum + ((p - meanPace) ** 2), 0);
+    const sxy = history.reduce((sum, r) => sum + (((r.paceSecPerKm || 0) - meanPace) * (r.mmol - meanLactate)), 0);
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    if (slope < -0.02) {
+      mmolPerSec = slope;
+      basis = 'history';
+    }
+  }
+
+  const targetMid = (target.low + target.high) / 2;
+  const rawDelta = (targetMid - meanMmol) / mmolPerSec;
+  const deltaSec = Math.round(Math.max(-MAX_LACTATE_ADJUSTMENT_SEC, Math.min(MAX_LACTATE_ADJUSTMENT_SEC, rawDelta)));
+  return { deltaSec, meanMmol, readingCount: latestSession.length, basis };
+};
+
+/** One-line summary used for Intervals.icu activity notes. */
+export const formatLactateNote = (readings: LactateReading[]): string => {
+  const parts = readings.map((r) => {
+    const where = r.intervalIndex === undefined ? 'session' : `set ${r.intervalIndex + 1}${r.rep ? ` rep ${r.rep}` : ''}`;
+    return `${where} ${r.mmol.toFixed(1)}`;
+  });
+  return `${LACTATE_NOTE_PREFIX} ${parts.join(', ')}`;
+};
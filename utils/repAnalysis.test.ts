@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { IcuActivityInterval, Interval } from '../types';
+import { analyzeReps } from './repAnalysis';
+
+const reps: Interval[] = [{ distance: 1000, count: 3, pace: '3:40-3:45', rest: '60s', description: '' }];
+const getTargetRange = (int: Interval) => int.pace;
+
+// Laps are laid end to end; pace in sec/km.
+const laps = (specs: Array<[IcuActivityInterval['kind'], number, number]>): IcuActivityInterval[] => {
+  let startSec = 0;
+  return specs.map(([kind, distanceM, paceSec]) => {
+    const movingSec = Math.round((distanceM / 1000) * paceSec);
+    const lap = { kind, startSec, movingSec, distanceM, avgSpeedMps: 1000 / paceSec };
+    startSec += movingSec;
+    return lap;
+  });
+};
+
+describe('analyzeReps', () => {
+  it('flags reps run faster than the band and counts them', () => {
+    const result = analyzeReps(reps, laps([['work', 1000, 222], ['recovery', 200, 400], ['work', 1000, 210], ['recovery', 200, 400], ['work', 1000, 228]]), getTargetRange);
+    expect(result.reps.map((r) => [r.status, r.paceDeltaSec])).toEqual([['ok', 0], ['fast', -10], ['ok', 3]]);
+    expect(result.tooFast).toBe(1);
+    expect(result.tooSlow).toBe(0);
+  });
+
+  it('skips warmup and cooldown laps when matching plain laps', () => {
+    const result = analyzeReps(
+      reps,
+      laps([
+        ['lap', 1000, 330], ['lap', 1000, 320],
+        ['lap', 1000, 222], ['lap', 200, 400], ['lap', 1000, 221], ['lap', 200, 400], ['lap', 1000, 223],
+        ['lap', 1000, 330],
+      ]),
+      getTargetRange,
+      { warmup: '2km Easy', cooldown: '1km Easy' }
+    );
+    expect(result.matched).toBe(3);
+    expect(result.reps.map((r) => r.paceSec)).toEqual([222, 221, 223]);
+  });
+
+  it('skips a warmup recorded by time and reports reps it cannot find', () => {
+    const result = analyzeReps(reps, laps([['lap', 2000, 330], ['lap', 1000, 222], ['lap', 1000, 255]]), getTargetRange, { warmup: '10m easy' });
+    expect(result.reps.map((r) => [r.status, r.paceSec])).toEqual([['ok', 222], ['slow', 255], ['missing', undefined]]);
+    expect(result.tooSlow).toBe(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { IcuActivityInterval, Interval } from '../types';
+import { timeToSeconds } from './calculations';
+import { METERS_PER_MILE } from './units';
+
+// A rep a couple of seconds quicker than the band is still sub-threshold; beyond that it is racing the rep.
+const REP_FAST_TOLERANCE_SEC = 2;
+const REP_SLOW_TOLERANCE_SEC = 5;
+// Laps outside this share of the planned rep size are warmups, recoveries or strides.
+const REP_SIZE_MIN_RATIO = 0.6;
+const REP_SIZE_MAX_RATIO = 1.5;
+// A lap starting before this share of the warmup (or after it of the cooldown) is part of that step.
+const STEP_WINDOW_RATIO = 0.9;
+
+export type RepStatus = 'fast' | 'ok' | 'slow' | 'missing';
+
+export interface RepAnalysis {
+  intervalIndex: number;
+  rep: number; // 1-based within its interval block
+  plannedM: number;
+  plannedSec: number;
+  targetLowSec: number; // sec/km, fast end of the band
+  targetHighSec: number;
+  actual?: IcuActivityInterval;
+  paceSec?: number;
+  paceDeltaSec?: number; // distance outside the band; negative = faster than the band
+  hrDriftBpm?: number;   // avg HR against the first matched rep
+  status: RepStatus;
+}
+
+export interface RepAnalysisSummary {
+  reps: RepAnalysis[];
+  matched: number;
+  tooFast: number;
+  tooSlow: number;
+  hrDriftBpm?: number; // last matched rep vs first
+}
+
+const parseBand = (range: string): [number, number] => {
+  const parts = (range || '').replace(/\/km/gi, '').split('-').map((p) => timeToSeconds(p.trim())).filter((v) => v > 0);
+  return parts.length ? [Math.min(...parts), Math.max(...parts)] : [0, 0];
+};
+
+// Warmup/cooldown text such as "2km easy" or "10m easy spin"; only one of the two sizes is set.
+const parseStepSize = (text?: string): { meters: number; sec: number } => {
+  const value = (text || '').toLowerCase();
+  const distance = value.match(/(\d+(?:\.\d+)?)\s*(mi(?:les?)?|km)\b/);
+  if (distance) return { meters: Number(distance[1]) * (distance[2].startsWith('mi') ? METERS_PER_MILE : 1000), sec: 0 };
+  const minutes = value.match(/(\d+(?:\.\d+)?)\s*m(?:in)?\b/);
+  return { meters: 0, sec: minutes ? Number(minutes[1]) * 60 : 0 };
+};
+
+/** How many of `laps`, from the front, start inside a step of the given size. */
+const countStepLaps = (laps: IcuActivityInterval[], text?: string): number => {
+  const step = parseStepSize(text);
+  const size = step.meters || step.sec;
+  if (!size) return 0;
+  let covered = 0;
+  let count = 0;
+  for (const lap of laps) {
+    if (covered >= size * STEP_WINDOW_RATIO) break;
+    covered += step.meters ? lap.distanceM : lap.movingSec;
+    count += 1;
+  }
+  return count;
+};
+
+/** Laps of the planned main set: the leading warmup and trailing cooldown laps are dropped. */
+const getMainSetLaps = (laps: IcuActivityInterval[], warmup?: string, cooldown?: string): IcuActivityInterval[] => {
+  const main = laps.slice(countStepLaps(laps, warmup));
+  return main.slice(0, main.length - countStepLaps([...main].reverse(), cooldown));
+};
+
+const getRepSizeRatio = (planned: { plannedM: number; plannedSec: number }, lap: IcuActivityInterval): number => {
+  if (planned.plannedSec > 0) return lap.movingSec / planned.plannedSec;
+  return planned.plannedM > 0 && lap.distanceM > 0 ? lap.distanceM / planned.plannedM : 0;
+};
+
+/**
+ * Lines detected work intervals (or main-set laps, when Intervals.icu found none) up with the planned reps
+ * in order and rates each rep's pace against its target band. `getTargetRange` returns the rep's pace band
+ * ("m:ss-m:ss", sec/km) as the card shows it; `steps` holds the session's warmup and cooldown text.
+ */
+export const analyzeReps = (
+  intervals: Interval[],
+  activityIntervals: IcuActivityInterval[],
+  getTargetRange: (interval: Interval) => string,
+  steps: { warmup?: string; cooldown?: string } = {}
+): RepAnalysisSummary => {
+  const work = activityIntervals.filter((i) => i.kind === 'work');
+  const candidates = work.length
+    ? work
+    : getMainSetLaps(activityIntervals.filter((i) => i.kind === 'lap'), steps.warmup, steps.cooldown);
+  let cursor = 0;
+  let firstHr: number | undefined;
+
+  const reps: RepAnalysis[] = intervals.flatMap((int, intervalIndex) => {
+    const [targetLowSec, targetHighSec] = parseBand(getTargetRange(int));
+    const plannedSec = Number(int.durationSec) || 0;
+    const plannedM = plannedSec > 0 ? 0 : Number(int.distance) || 0;
+    return Array.from({ length: Math.max(1, Number(int.count) || 1) }, (_, repIdx): RepAnalysis => {
+      const base = { intervalIndex, rep: repIdx + 1, plannedM, plannedSec, targetLowSec, targetHighSec };
+      const offset = candidates.slice(cursor).findIndex((lap) => {
+        const ratio = getRepSizeRatio(base, lap);
+        return ratio >= REP_SIZE_MIN_RATIO && ratio <= REP_SIZE_MAX_RATIO;
+      });
+      if (offset < 0) return { ...base, status: 'missing' };
+      const actual = candidates[cursor + offset];
+      cursor += offset + 1;
+      const paceSec = actual.avgSpeedMps ? Math.round(1000 / actual.avgSpeedMps) : undefined;
+      if (firstHr === undefined && actual.avgHr) firstHr = actual.avgHr;
+      const hrDriftBpm = actual.avgHr && firstHr ? Math.round(actual.avgHr - firstHr) : undefined;
+      if (!paceSec || !targetLowSec) return { ...base, actual, paceSec, hrDriftBpm, status: 'ok' };
+      const paceDeltaSec = paceSec < targetLowSec ? paceSec - targetLowSec : paceSec > targetHighSec ? paceSec - targetHighSec : 0;
+      const status: RepStatus = paceDeltaSec < -REP_FAST_TOLERANCE_SEC ? 'fast' : paceDeltaSec > REP_SLOW_TOLERANCE_SEC ? 'slow' : 'ok';
+      return { ...base, actual, paceSec, paceDeltaSec, hrDriftBpm, status };
+    });
+  });
+
+  const matched = reps.filter((r) => r.actual);
+  const lastHrDrift = [...matched].reverse().find((r) => r.hrDriftBpm !== undefined)?.hrDriftBpm;
+  return {
+    reps,
+    matched: matched.length,
+    tooFast: reps.filter((r) => r.status === 'fast').length,
+    tooSlow: reps.filter((r) => r.status === 'slow').length,
+    hrDriftBpm: matched.length > 1 ? lastHrDrift : undefined,
+  };
+};
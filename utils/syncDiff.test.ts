@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { IcuEventSummary } from '../types';
+import { buildSyncDiff, diffLines, hashWorkoutText, PlannedSyncItem } from './syncDiff';
+
+const PREFIX = 'norskflow:u1:';
+
+const planned = (overrides: Partial<PlannedSyncItem> = {}): PlannedSyncItem => ({
+  externalId: `${PREFIX}2026-01-05:0`,
+  date: '2026-01-05',
+  startLocal: '2026-01-05T06:30',
+  label: 'Monday',
+  name: 'SubT 5x6min',
+  description: '- 2km Z1\n5x\n- 6m 3:40-3:45/km Pace\n- 1m Z1',
+  ...overrides,
+});
+
+const existing = (overrides: Partial<IcuEventSummary> = {}): IcuEventSummary => ({
+  id: 101,
+  date: '2026-01-05',
+  startLocal: '2026-01-05T06:30',
+  name: 'SubT 5x6min',
+  category: 'WORKOUT',
+  externalId: `${PREFIX}2026-01-05:0`,
+  description: '- 2km Z1\n5x\n- 6m 3:40-3:45/km Pace\n- 1m Z1',
+  ...overrides,
+});
+
+describe('diffLines', () => {
+  it('marks added and removed lines around the common ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'remove', text: 'b' },
+      { kind: 'add', text: 'x' },
+      { kind: 'same', text: 'c' },
+    ]);
+  });
+
+  it('ignores trailing whitespace and blank trailing lines', () => {
+    expect(diffLines('a  \nb\n\n', 'a\r\nb').every((l) => l.kind === 'same')).toBe(true);
+  });
+});
+
+describe('hashWorkoutText', () => {
+  it('is stable across line endings and trailing blanks', () => {
+    expect(hashWorkoutText('a\r\nb\n')).toBe(hashWorkoutText('a\nb'));
+    expect(hashWorkoutText('a\nb')).not.toBe(hashWorkoutText('a\nc'));
+  });
+});
+
+describe('buildSyncDiff', () => {
+  it('creates sessions Intervals.icu does not have yet', () => {
+    const [change] = buildSyncDiff([planned()], [], PREFIX);
+    expect(change.kind).toBe('create');
+    expect(change.externalId).toBe(`${PREFIX}2026-01-05:0`);
+  });
+
+  it('skips events that already match', () => {
+    const [change] = buildSyncDiff([planned()], [existing()], PREFIX);
+    expect(change.kind).toBe('unchanged');
+    expect(change.eventId).toBe(101);
+    expect(change.changedFields).toEqual([]);
+  });
+
+  it('updates when only the start time moved', () => {
+    const [change] = buildSyncDiff([planned()], [existing({ startLocal: '2026-01-05T17:00' })], PREFIX);
+    expect(change.kind).toBe('update');
+    expect(change.changedFields).toEqual(['start']);
+  });
+
+  it('updates when the name or the workout steps changed', () => {
+    expect(buildSyncDiff([planned()], [existing({ name: 'SubT 4x6min' })], PREFIX)[0].changedFields).toEqual(['name']);
+    const [change] = buildSyncDiff([planned()], [existing({ description: '- 2km Z1\n4x\n- 6m 3:40-3:45/km Pace\n- 1m Z1' })], PREFIX);
+    expect(change.changedFields).toEqual(['workout']);
+    expect(change.textDiff.filter((l) => l.kind !== 'same')).toEqual([
+      { kind: 'remove', text: '4x' },
+      { kind: 'add', text: '5x' },
+    ]);
+  });
+
+  it('falls back to the remembered event id and flags it as matched by id', () => {
+    const [change] = buildSyncDiff([planned({ eventId: 7 })], [existing({ id: 7, externalId: undefined })], PREFIX);
+    expect(change.kind).toBe('unchanged');
+    expect(change.matchedById).toBe(true);
+  });
+
+  it('deletes only owned or stale events that no session matched', () => {
+    const changes = buildSyncDiff(
+      [planned()],
+      [
+        existing(),
+        existing({ id: 102, externalId: `${PREFIX}2026-01-05:0:1`, startLocal: '2026-01-05T17:00' }),
+        existing({ id: 103, externalId: 'other-app:1' }),
+        existing({ id: 104, externalId: undefined }),
+      ],
+      PREFIX,
+      [104]
+    );
+    expect(changes.filter((c) => c.kind === 'delete').map((c) => c.eventId)).toEqual([102, 104]);
+  });
+});
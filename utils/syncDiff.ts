@@ -0,0 +1,147 @@
+import { IcuEventSummary } from '../types';
+
+export type SyncChangeKind = 'create' | 'update' | 'unchanged' | 'delete';
+
+export interface DiffLine {
+  kind: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+export interface PlannedSyncItem {
+  externalId: string;
+  date: string;
+  startLocal: string; // YYYY-MM-DDTHH:MM
+  label: string;
+  name: string;
+  description: string;
+  eventId?: number; // id the plan remembers from an earlier sync
+}
+
+// What differs between the planned and the existing event. Intervals.icu computes moving time from the
+// steps itself, so duration is not compared: a text change already covers a changed workout.
+export type SyncField = 'start' | 'name' | 'workout';
+
+export interface SyncChange {
+  kind: SyncChangeKind;
+  date: string;
+  label: string;
+  externalId?: string;
+  eventId?: number;
+  // Matched on the remembered id only; bulk upsert by external id would duplicate it.
+  matchedById?: boolean;
+  before?: { name: string; description: string; date: string; startLocal: string };
+  after?: { name: string; description: string; startLocal: string };
+  changedFields: SyncField[];
+  textDiff: DiffLine[];
+}
+
+const normalizeLines = (text: string): string[] => {
+  const lines = (text || '').replace(/\r\n/g, '\n').split('\n').map((l) => l.trimEnd());
+  while (lines.length && !lines[lines.length - 1]) lines.pop();
+  return lines;
+};
+
+// FNV-1a over the normalized text; equal hashes mean the workout steps are unchanged.
+export const hashWorkoutText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  const normalized = normalizeLines(text).join('\n');
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+/** Line diff (LCS) of two workout texts. */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = normalizeLines(before);
+  const b = normalizeLines(after);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ kind: 'remove', text: a[i++] });
+    } else {
+      out.push({ kind: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ kind: 'remove', text: a[i++] });
+  while (j < b.length) out.push({ kind: 'add', text: b[j++] });
+  return out;
+};
+
+/**
+ * Compares the planned events with what Intervals.icu already has in the range.
+ * Only events this app owns are deleted: ones carrying `ownedExternalIdPrefix`, or ids listed in
+ * `staleEventIds` (rest days that still point at an event).
+ */
+export const buildSyncDiff = (
+  planned: PlannedSyncItem[],
+  existing: IcuEventSummary[],
+  ownedExternalIdPrefix: string,
+  staleEventIds: number[] = []
+): SyncChange[] => {
+  const matchedIds = new Set<number>();
+  const changes: SyncChange[] = planned.map((item) => {
+    const byExternalId = existing.find((e) => e.externalId === item.externalId && !matchedIds.has(e.id));
+    const event = byExternalId || (item.eventId ? existing.find((e) => e.id === item.eventId && !matchedIds.has(e.id)) : undefined);
+    const after = { name: item.name, description: item.description, startLocal: item.startLocal };
+    if (!event) {
+      return {
+        kind: 'create',
+        date: item.date,
+        label: item.label,
+        externalId: item.externalId,
+        after,
+        changedFields: [],
+        textDiff: diffLines('', item.description),
+      };
+    }
+    matchedIds.add(event.id);
+    const before = { name: event.name, description: event.description || '', date: event.date, startLocal: event.startLocal };
+    const changedFields: SyncField[] = [];
+    if (before.startLocal !== item.startLocal) changedFields.push('start');
+    if (before.name.trim() !== item.name.trim()) changedFields.push('name');
+    if (hashWorkoutText(before.description) !== hashWorkoutText(item.description)) changedFields.push('workout');
+    return {
+      kind: changedFields.length ? 'update' : 'unchanged',
+      date: item.date,
+      label: item.label,
+      externalId: item.externalId,
+      eventId: event.id,
+      matchedById: !byExternalId,
+      before,
+      after,
+      changedFields,
+      textDiff: diffLines(before.description, item.description),
+    };
+  });
+
+  const stale = new Set(staleEventIds);
+  existing
+    .filter((e) => !matchedIds.has(e.id) && ((e.externalId || '').startsWith(ownedExternalIdPrefix) || stale.has(e.id)))
+    .forEach((e) => {
+      changes.push({
+        kind: 'delete',
+        date: e.date,
+        label: e.name,
+        externalId: e.externalId,
+        eventId: e.id,
+        before: { name: e.name, description: e.description || '', date: e.date, startLocal: e.startLocal },
+        changedFields: [],
+        textDiff: diffLines(e.description || '', ''),
+      });
+    });
+  return changes.sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,126 @@
+import { DistanceUnit, Interval, Treadmill, UserProfile, WorkoutSession } from '../types';
+import { DEFAULT_TREADMILL_INCLINE, getTreadmillPaceDeltaSeconds, MAX_TREADMILL_INCLINE, MIN_TREADMILL_INCLINE, timeToSeconds } from './calculations';
+import { formatRepDistance, kmToDisplay, speedUnitLabel } from './units';
+
+export const MIN_TREADMILL_CALIBRATION = 0.85;
+export const MAX_TREADMILL_CALIBRATION = 1.15;
+export const TREADMILL_TABLE_INCLINES = [0, 1, 2, 3, 4, 5, 6, 8, 10];
+
+export interface TreadmillSpeedRow {
+  label: string;
+  flatPaceSec: number;
+  speeds: number[]; // console speed per incline column
+}
+
+// Corrected paces as a workout card shows them; stored session paces are used when omitted.
+export interface TreadmillTargetPaces {
+  interval: (int: Interval) => string;
+  easy: string;
+}
+
+const clampIncline = (inclinePct?: number): number => {
+  const parsed = Number(inclinePct);
+  const raw = Number.isFinite(parsed) ? parsed : DEFAULT_TREADMILL_INCLINE;
+  return Math.min(MAX_TREADMILL_INCLINE, Math.max(MIN_TREADMILL_INCLINE, raw));
+};
+
+/** Table columns: the common inclines plus the session's own. */
+export const getTreadmillTableInclines = (inclinePct?: number): number[] => (
+  Array.from(new Set([...TREADMILL_TABLE_INCLINES, clampIncline(inclinePct)])).sort((a, b) => a - b)
+);
+
+export const getTreadmillUnit = (profile: UserProfile): DistanceUnit => profile.treadmillUnit || profile.unit;
+
+/** The session's treadmill, falling back to the profile default. Unknown ids count as unset. */
+export const getSessionTreadmill = (profile: UserProfile, session?: WorkoutSession): Treadmill | undefined => {
+  const treadmills = profile.treadmills || [];
+  return treadmills.find((t) => t.id === session?.treadmillId)
+    || treadmills.find((t) => t.id === profile.treadmillId);
+};
+
+export const normalizeTreadmillCalibration = (value: number): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return 1;
+  return Math.min(MAX_TREADMILL_CALIBRATION, Math.max(MIN_TREADMILL_CALIBRATION, parsed));
+};
+
+/** Speed to dial in on the console for a true pace: a belt that runs fast needs a lower setting. */
+export const paceToConsoleSpeed = (secPerKm: number, unit?: DistanceUnit, calibration = 1): number => {
+  if (!Number.isFinite(secPerKm) || secPerKm <= 0) return 0;
+  return kmToDisplay(3600 / secPerKm, unit) / normalizeTreadmillCalibration(calibration);
+};
+
+export const formatConsoleSpeed = (speed: number): string => (Math.round(speed * 10) / 10).toFixed(1);
+
+/** "4:10-4:20" (sec/km text) -> "13.8-14.4 km/h". Non-pace text passes through unchanged. */
+export const convertPaceTextToSpeed = (pace: string, unit?: DistanceUnit, calibration = 1): string => {
+  const parts = (pace || '').replace(/\/km/gi, '').split('-').map((p) => p.trim()).filter(Boolean);
+  if (!parts.length || !parts.every((p) => /^\d+:\d{2}(?::\d{2})?$/.test(p))) return pace;
+  const speeds = parts.map((p) => paceToConsoleSpeed(timeToSeconds(p), unit, calibration)).sort((a, b) => a - b);
+  const text = speeds.length > 1 && formatConsoleSpeed(speeds[0]) !== formatConsoleSpeed(speeds[speeds.length - 1])
+    ? `${formatConsoleSpeed(speeds[0])}-${formatConsoleSpeed(speeds[speeds.length - 1])}`
+    : formatConsoleSpeed(speeds[0]);
+  return `${text} ${speedUnitLabel(unit)}`;
+};
+
+// Exact inverse of getTreadmillPaceDeltaSeconds: 0.2 * v_flat = (0.2 + 0.9 * grade) * v_grade.
+export const getFlatPaceForIncline = (paceSec: number, inclinePct?: number): number => (
+  paceSec > 0 ? (paceSec * 0.2) / (0.2 + (0.9 * (clampIncline(inclinePct) / 100))) : 0
+);
+
+const paceTextMidSec = (pace: string): number => {
+  const parts = (pace || '').replace(/\/km/gi, '').split('-').map((p) => timeToSeconds(p.trim())).filter((v) => v > 0);
+  return parts.length ? parts.reduce((sum, v) => sum + v, 0) / parts.length : 0;
+};
+
+/** Target paces of a session as [label, pace text], using interval paces or the easy pace in the description. */
+const getSessionTargetPaces = (session: WorkoutSession, unit?: DistanceUnit, paces?: TreadmillTargetPaces): Array<[string, string]> => {
+  const targets = (session.intervals || [])
+    .map((int): [Interval, string] => [int, paces ? paces.interval(int) : int.pace])
+    .filter(([, pace]) => paceTextMidSec(pace) > 0)
+    .map(([int, pace]): [string, string] => {
+      const reps = Math.max(1, Number(int.count) || 1);
+      const durationSec = Number(int.durationSec) || 0;
+      const size = durationSec > 0 ? `${Math.round(durationSec / 60)}min` : formatRepDistance(int.distance, unit);
+      return [reps > 1 ? `${reps}x${size}` : size, pace];
+    });
+  if (targets.length) return targets;
+  const easy = (session.description || '').match(/(\d+:\d{2}\s*-\s*\d+:\d{2})/);
+  if (!easy) return [];
+  return [['Easy', paces ? paces.easy : easy[1].replace(/\s/g, '')]];
+};
+
+/**
+ * Console speeds for each target pace across common inclines. Session paces already include the
+ * incline correction, so they are first taken back to their flat equivalent.
+ */
+export const buildTreadmillSpeedTable = (
+  session: WorkoutSession,
+  profile: UserProfile,
+  inclines: number[] = getTreadmillTableInclines(session.treadmillInclinePct),
+  paces?: TreadmillTargetPaces,
+): TreadmillSpeedRow[] => {
+  const unit = getTreadmillUnit(profile);
+  const calibration = getSessionTreadmill(profile, session)?.calibration;
+  return getSessionTargetPaces(session, profile.unit, paces).map(([label, pace]) => {
+    const flatPaceSec = getFlatPaceForIncline(paceTextMidSec(pace), session.treadmillInclinePct);
+    return {
+      label,
+      flatPaceSec,
+      speeds: inclines.map((incline) => (
+        paceToConsoleSpeed(flatPaceSec + getTreadmillPaceDeltaSeconds(incline, flatPaceSec), unit, calibration)
+      )),
+    };
+  });
+};
+
+/** One-line console summary for exports, e.g. "Treadmill 1% (Gym): 4x2km 14.1-14.4 km/h". */
+export const describeTreadmillTargets = (session: WorkoutSession, profile: UserProfile): string => {
+  const unit = getTreadmillUnit(profile);
+  const treadmill = getSessionTreadmill(profile, session);
+  const targets = getSessionTargetPaces(session, profile.unit)
+    .map(([label, pace]) => `${label} ${convertPaceTextToSpeed(pace, unit, treadmill?.calibration)}`);
+  if (!targets.length) return '';
+  const name = treadmill ? ` (${treadmill.name})` : '';
+  return `Treadmill ${clampIncline(session.treadmillInclinePct)}%${name}: ${targets.join('; ')}`;
+};
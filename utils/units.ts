@@ -0,0 +1,72 @@
+import { DistanceUnit } from '../types';
+import { secondsToTime, timeToSeconds } from './calculations';
+
+// Plans are generated and stored in metric (km, meters, sec/km); these helpers convert at the edges.
+export const KM_PER_MILE = 1.609344;
+export const METERS_PER_MILE = 1609.344;
+
+export const isMiles = (unit?: DistanceUnit): boolean => unit === DistanceUnit.MILES;
+
+export const distanceUnitLabel = (unit?: DistanceUnit): string => (isMiles(unit) ? 'mi' : 'km');
+export const paceUnitLabel = (unit?: DistanceUnit): string => `/${distanceUnitLabel(unit)}`;
+export const speedUnitLabel = (unit?: DistanceUnit): string => (isMiles(unit) ? 'mph' : 'km/h');
+
+export const kmToDisplay = (km: number, unit?: DistanceUnit): number => (
+  isMiles(unit) ? (Number(km) || 0) / KM_PER_MILE : (Number(km) || 0)
+);
+export const displayToKm = (value: number, unit?: DistanceUnit): number => (
+  isMiles(unit) ? (Number(value) || 0) * KM_PER_MILE : (Number(value) || 0)
+);
+
+export const formatDistance = (km: number, unit?: DistanceUnit, digits = 1): string => {
+  const factor = 10 ** digits;
+  return `${Math.round(kmToDisplay(km, unit) * factor) / factor} ${distanceUnitLabel(unit)}`;
+};
+
+/** Track-style rep label: sub-1000m reps stay in meters in both unit systems. */
+export const formatRepDistance = (meters: number, unit?: DistanceUnit): string => {
+  const m = Math.max(0, Number(meters) || 0);
+  if (m < 1000) return `${Math.round(m)}m`;
+  if (isMiles(unit)) return `${Math.round((m / METERS_PER_MILE) * 100) / 100}mi`;
+  return `${Math.round((m / 1000) * 10) / 10}km`;
+};
+
+export const paceToDisplaySec = (secPerKm: number, unit?: DistanceUnit): number => (
+  isMiles(unit) ? secPerKm * KM_PER_MILE : secPerKm
+);
+
+/** sec/km -> "m:ss" in the display unit (no suffix). */
+export const formatPace = (secPerKm: number, unit?: DistanceUnit): string => secondsToTime(paceToDisplaySec(secPerKm, unit));
+
+/** Signed pace correction in the display unit, e.g. "+7s/km". */
+export const formatPaceDelta = (secPerKm: number, unit?: DistanceUnit): string => {
+  const display = Math.round(paceToDisplaySec(secPerKm, unit));
+  return `${display > 0 ? '+' : ''}${display}s${paceUnitLabel(unit)}`;
+};
+
+/**
+ * Converts per-km pace text such as "4:10-4:20" or "4:15/km" into the display unit.
+ * Non-pace text (zones, HR labels) passes through unchanged.
+ */
+export const convertPaceText = (pace: string, unit?: DistanceUnit): string => {
+  const value = (pace || '').trim();
+  if (!isMiles(unit) || !value) return value;
+  const hasSuffix = /\/km/i.test(value);
+  const cleaned = value.replace(/\/km/gi, '').trim();
+  const parts = cleaned.split('-').map((p) => p.trim()).filter(Boolean);
+  if (!parts.length || !parts.every((p) => /^\d+:\d{2}(?::\d{2})?$/.test(p))) return value;
+  const joined = parts.map((p) => formatPace(timeToSeconds(p), unit)).join('-');
+  return hasSuffix ? `${joined}/mi` : joined;
+};
+
+export const formatSpeed = (kmh: number, unit?: DistanceUnit): string => (
+  `${Math.round(kmToDisplay(kmh, unit))} ${speedUnitLabel(unit)}`
+);
+
+/** Rewrites "4:10-4:20/km" and "2km" mentions in generated workout text for display in miles. */
+export const localizeWorkoutText = (text: string, unit?: DistanceUnit): string => {
+  if (!isMiles(unit) || !text) return text;
+  return text
+    .replace(/(\d+:\d{2}(?:-\d+:\d{2})?)\/km/gi, (_, pace: string) => `${convertPaceText(pace, unit)}/mi`)
+    .replace(/(\d+(?:\.\d+)?)\s*km\b(?!\/h)/gi, (_, km: string) => `${Math.round(kmToDisplay(Number(km), unit) * 100) / 100}mi`);
+};
@@ -0,0 +1,317 @@
+import { DailyForecast, DayWeatherOverride, DistanceUnit, HourlyForecast, ManualWeather, UserProfile, WeatherOverrides, WorkoutSession, WorkoutType } from '../types';
+import { formatSpeed, paceToDisplaySec, paceUnitLabel } from './units';
+
+// Runners' "temperature + dew point" rule (both in °F): % slower for a ~60 min hard effort.
+const HEAT_PCT_BY_COMBINED_F: Array<[number, number]> = [
+  [100, 0], [110, 0.5], [120, 1], [130, 2], [140, 3], [150, 4.5], [160, 6], [170, 8], [180, 10],
+];
+const MAX_HEAT_PCT = 12;
+const REFERENCE_DURATION_MIN = 60;
+const MIN_DURATION_FACTOR = 0.5;
+const MAX_DURATION_FACTOR = 1.3;
+// Easier running produces less heat, so the same conditions cost less pace.
+const INTENSITY_HEAT_FACTOR: Partial<Record<WorkoutType, number>> = {
+  [WorkoutType.THRESHOLD]: 1,
+  [WorkoutType.RACE]: 1,
+  [WorkoutType.LONG_RUN]: 0.85,
+  [WorkoutType.EASY]: 0.7,
+};
+const DEFAULT_INTENSITY_FACTOR = 0.85;
+const COLD_THRESHOLD_C = 5;
+const WIND_THRESHOLD_KMH = 12;
+const MAX_WEATHER_DELTA_SEC = 30;
+
+// Daily temperature curve: coldest around 06:00, warmest around 15:00.
+const DIURNAL_MIN_HOUR = 6;
+const DIURNAL_MAX_HOUR = 15;
+const DEFAULT_START_HOUR = 12;
+// Start times considered when suggesting a slot for a flexible session.
+const EARLIEST_SLOT_HOUR = 5;
+const LATEST_SLOT_HOUR = 21;
+const MIN_SLOT_SAVING_SEC = 2;
+
+// Forecast key for navigator.geolocation; saved locations use their own ids.
+export const DEVICE_LOCATION_ID = 'device';
+const WEATHER_OVERRIDES_KEY_PREFIX = 'norskflow_weather_overrides';
+
+export interface WeatherConditions {
+  temperatureC: number;
+  dewPointC?: number;
+  humidityPct: number;
+  windKmh: number;
+}
+
+export interface WeatherSessionContext {
+  durationMin?: number;
+  type?: WorkoutType;
+}
+
+export interface WeatherSlotSuggestion {
+  startTime: string;
+  adjustment: WeatherPaceAdjustment;
+  savingSec: number;     // vs the default midday start
+  reason: 'coolest' | 'warmest' | 'least windy';
+}
+
+export interface WeatherPaceAdjustment {
+  totalSec: number;        // sec/km added to the base pace
+  heatSec: number;
+  coldSec: number;
+  windSec: number;
+  temperatureC: number;
+  dewPointC: number;
+  windKmh: number;
+  combinedF: number;       // temperature °F + dew point °F
+  heatPct: number;         // table value before duration/intensity scaling
+  durationMin: number;
+  durationFactor: number;
+  intensityFactor: number;
+  type?: WorkoutType;
+}
+
+const toFahrenheit = (c: number): number => (c * 9) / 5 + 32;
+
+/** Magnus approximation, used when a forecast has no dew point. */
+export const estimateDewPointC = (temperatureC: number, humidityPct: number): number => {
+  const rh = Math.min(100, Math.max(1, Number(humidityPct) || 0));
+  const gamma = Math.log(rh / 100) + (17.62 * temperatureC) / (243.12 + temperatureC);
+  return (243.12 * gamma) / (17.62 - gamma);
+};
+
+const getHeatPct = (combinedF: number): number => {
+  const table = HEAT_PCT_BY_COMBINED_F;
+  if (combinedF <= table[0][0]) return 0;
+  for (let i = 1; i < table.length; i += 1) {
+    const [x1, y1] = table[i];
+    if (combinedF <= x1) {
+      const [x0, y0] = table[i - 1];
+      return y0 + ((combinedF - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  const [xLast, yLast] = table[table.length - 1];
+  return Math.min(MAX_HEAT_PCT, yLast + ((combinedF - xLast) / 10) * 2);
+};
+
+/**
+ * Breaks the weather pace cost into heat (temperature + dew point, scaled by session length and intensity),
+ * cold and wind parts. All values are sec/km on top of `basePaceSec`.
+ */
+export const getWeatherPaceAdjustment = (
+  basePaceSec: number,
+  conditions: WeatherConditions,
+  context: WeatherSessionContext = {}
+): WeatherPaceAdjustment => {
+  const temperatureC = Number(conditions.temperatureC) || 0;
+  const dewPointC = Number.isFinite(conditions.dewPointC)
+    ? Math.min(temperatureC, Number(conditions.dewPointC))
+    : estimateDewPointC(temperatureC, conditions.humidityPct);
+  const windKmh = Math.max(0, Number(conditions.windKmh) || 0);
+  const durationMin = Math.max(0, Number(context.durationMin) || REFERENCE_DURATION_MIN);
+  const combinedF = toFahrenheit(temperatureC) + toFahrenheit(dewPointC);
+  const heatPct = getHeatPct(combinedF);
+  const durationFactor = Math.min(MAX_DURATION_FACTOR, Math.max(MIN_DURATION_FACTOR, Math.sqrt(durationMin / REFERENCE_DURATION_MIN)));
+  const intensityFactor = (context.type && INTENSITY_HEAT_FACTOR[context.type]) || DEFAULT_INTENSITY_FACTOR;
+
+  const adjustment: WeatherPaceAdjustment = {
+    totalSec: 0,
+    heatSec: 0,
+    coldSec: 0,
+    windSec: 0,
+    temperatureC,
+    dewPointC,
+    windKmh,
+    combinedF,
+    heatPct,
+    durationMin,
+    durationFactor,
+    intensityFactor,
+    type: context.type,
+  };
+  if (!isFinite(basePaceSec) || basePaceSec <= 0) return adjustment;
+
+  adjustment.heatSec = Math.round(basePaceSec * (heatPct / 100) * durationFactor * intensityFactor);
+  if (temperatureC < COLD_THRESHOLD_C) adjustment.coldSec = Math.round((COLD_THRESHOLD_C - temperatureC) * 0.25);
+  // Generic wind drag penalty beyond light breeze.
+  if (windKmh > WIND_THRESHOLD_KMH) adjustment.windSec = Math.round((windKmh - WIND_THRESHOLD_KMH) * 0.12);
+  adjustment.totalSec = Math.min(MAX_WEATHER_DELTA_SEC, adjustment.heatSec + adjustment.coldSec + adjustment.windSec);
+  return adjustment;
+};
+
+const parseStartHour = (startTime?: string): number => {
+  const match = (startTime || '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return DEFAULT_START_HOUR;
+  return Math.min(23, Number(match[1])) + Math.min(59, Number(match[2])) / 60;
+};
+
+/** Interpolates the daily min/max along a simple diurnal curve. */
+export const estimateTemperatureAtHour = (forecast: DailyForecast, hour: number): number => {
+  const max = Number(forecast.temperatureMaxC);
+  const min = Number(forecast.temperatureMinC);
+  if (!Number.isFinite(max) || !Number.isFinite(min)) return forecast.temperatureC;
+  const h = ((hour % 24) + 24) % 24;
+  const warmingHours = DIURNAL_MAX_HOUR - DIURNAL_MIN_HOUR;
+  const fraction = h >= DIURNAL_MIN_HOUR && h <= DIURNAL_MAX_HOUR
+    ? (1 - Math.cos((Math.PI * (h - DIURNAL_MIN_HOUR)) / warmingHours)) / 2
+    : (1 + Math.cos((Math.PI * (((h - DIURNAL_MAX_HOUR) + 24) % 24)) / (24 - warmingHours))) / 2;
+  return min + (max - min) * fraction;
+};
+
+/** Averages the hourly samples covering [startHour, startHour + duration). */
+const getHourlyWindowConditions = (hourly: HourlyForecast[], startHour: number, durationMin: number): WeatherConditions | null => {
+  const endHour = startHour + Math.max(1, durationMin) / 60;
+  const samples = hourly.filter((h) => h.hour + 1 > startHour && h.hour < endHour);
+  if (!samples.length) return null;
+  const mean = (pick: (h: HourlyForecast) => number) => samples.reduce((sum, h) => sum + pick(h), 0) / samples.length;
+  return {
+    temperatureC: mean((h) => h.temperatureC),
+    dewPointC: mean((h) => h.dewPointC),
+    humidityPct: mean((h) => h.humidityPct),
+    windKmh: mean((h) => h.windKmh),
+  };
+};
+
+const getConditionsAt = (forecast: DailyForecast, startHour: number, durationMin: number): WeatherConditions => {
+  const hourlyConditions = forecast.hourly?.length
+    ? getHourlyWindowConditions(forecast.hourly, startHour, durationMin)
+    : null;
+  if (hourlyConditions) return hourlyConditions;
+  return {
+    temperatureC: estimateTemperatureAtHour(forecast, startHour + durationMin / 120),
+    dewPointC: forecast.dewPointC,
+    humidityPct: forecast.humidityPct,
+    windKmh: forecast.windKmh,
+  };
+};
+
+/** Conditions over a planned session's own time window; falls back to the daily curve without hourly data. */
+export const getSessionWeatherConditions = (forecast: DailyForecast, session: WorkoutSession): WeatherConditions => (
+  getConditionsAt(forecast, parseStartHour(session.startTime), Math.max(0, Number(session.duration) || 0))
+);
+
+export const getSessionWeatherAdjustment = (
+  forecast: DailyForecast,
+  session: WorkoutSession,
+  basePaceSec: number
+): WeatherPaceAdjustment => getWeatherPaceAdjustment(
+  basePaceSec,
+  getSessionWeatherConditions(forecast, session),
+  { durationMin: session.duration, type: session.type }
+);
+
+/**
+ * For sessions without a planned start time: the start hour with the smallest weather cost,
+ * when it saves at least a couple of seconds per km over the default midday start.
+ */
+export const suggestWeatherSlot = (
+  forecast: DailyForecast,
+  session: WorkoutSession,
+  basePaceSec: number
+): WeatherSlotSuggestion | null => {
+  if (!forecast.hourly?.length) return null;
+  const durationMin = Math.max(0, Number(session.duration) || 0);
+  const context = { durationMin: session.duration, type: session.type };
+  const baseline = getWeatherPaceAdjustment(basePaceSec, getConditionsAt(forecast, DEFAULT_START_HOUR, durationMin), context);
+
+  let best: WeatherPaceAdjustment | null = null;
+  let bestHour = DEFAULT_START_HOUR;
+  for (let hour = EARLIEST_SLOT_HOUR; hour <= LATEST_SLOT_HOUR; hour += 1) {
+    const adjustment = getWeatherPaceAdjustment(basePaceSec, getConditionsAt(forecast, hour, durationMin), context);
+    if (!best || adjustment.totalSec < best.totalSec || (adjustment.totalSec === best.totalSec && adjustment.temperatureC < best.temperatureC)) {
+      best = adjustment;
+      bestHour = hour;
+    }
+  }
+  if (!best) return null;
+  const savingSec = baseline.totalSec - best.totalSec;
+  if (savingSec < MIN_SLOT_SAVING_SEC) return null;
+  const windSaving = baseline.windSec - best.windSec;
+  const heatSaving = baseline.heatSec - best.heatSec;
+  const coldSaving = baseline.coldSec - best.coldSec;
+  const reason: WeatherSlotSuggestion['reason'] = windSaving > heatSaving && windSaving > coldSaving
+    ? 'least windy'
+    : coldSaving > heatSaving ? 'warmest' : 'coolest';
+  return {
+    startTime: `${String(bestHour).padStart(2, '0')}:00`,
+    adjustment: best,
+    savingSec,
+    reason,
+  };
+};
+
+const formatSignedSec = (sec: number, unit?: DistanceUnit): string => {
+  const display = Math.round(paceToDisplaySec(sec, unit));
+  return `${display > 0 ? '+' : ''}${display}s`;
+};
+
+/** One-line explanation, e.g. "+7s/km — heat +6s (24C, dew 18C → 2.6% for 45 min threshold) · wind +1s (20 km/h)". */
+export const describeWeatherAdjustment = (adjustment: WeatherPaceAdjustment, unit?: DistanceUnit): string => {
+  const t = Math.round(adjustment.temperatureC);
+  const dew = Math.round(adjustment.dewPointC);
+  if (adjustment.totalSec === 0) return `no adjustment (${t}C, dew ${dew}C)`;
+
+  const parts: string[] = [];
+  if (adjustment.heatSec) {
+    const scaledPct = adjustment.heatPct * adjustment.durationFactor * adjustment.intensityFactor;
+    const sessionLabel = `${Math.round(adjustment.durationMin)} min${adjustment.type ? ` ${adjustment.type.toLowerCase()}` : ''}`;
+    parts.push(`heat ${formatSignedSec(adjustment.heatSec, unit)} (${t}C, dew ${dew}C → ${scaledPct.toFixed(1)}% for ${sessionLabel})`);
+  }
+  if (adjustment.coldSec) parts.push(`cold ${formatSignedSec(adjustment.coldSec, unit)} (${t}C)`);
+  if (adjustment.windSec) parts.push(`wind ${formatSignedSec(adjustment.windSec, unit)} (${formatSpeed(adjustment.windKmh, unit)})`);
+  return `${formatSignedSec(adjustment.totalSec, unit)}${paceUnitLabel(unit)} — ${parts.join(' · ')}`;
+};
+
+const getWeatherOverridesKey = (uid?: string): string => `${WEATHER_OVERRIDES_KEY_PREFIX}_${uid || 'local'}`;
+
+export const EMPTY_WEATHER_OVERRIDES: WeatherOverrides = { weeks: {}, days: {} };
+
+export const loadWeatherOverrides = (uid?: string): WeatherOverrides => {
+  try {
+    const raw = localStorage.getItem(getWeatherOverridesKey(uid));
+    const parsed = raw ? JSON.parse(raw) : null;
+    return { weeks: parsed?.weeks || {}, days: parsed?.days || {} };
+  } catch {
+    return EMPTY_WEATHER_OVERRIDES;
+  }
+};
+
+export const saveWeatherOverrides = (uid: string | undefined, overrides: WeatherOverrides): void => {
+  localStorage.setItem(getWeatherOverridesKey(uid), JSON.stringify(overrides));
+};
+
+/** Day override, then week override, then the profile default; unknown ids fall back to the device. */
+export const resolveWeatherLocationId = (
+  profile: UserProfile,
+  overrides: WeatherOverrides,
+  weekStartDate: string,
+  date: string
+): string => {
+  const known = new Set((profile.weatherLocations || []).map((l) => l.id));
+  const candidates = [overrides.days[date]?.locationId, overrides.weeks[weekStartDate], profile.weatherLocationId];
+  return candidates.find((id) => !!id && known.has(id)) || DEVICE_LOCATION_ID;
+};
+
+/** Manual conditions as a flat forecast for the day, keeping the forecast's sky icon when there is one. */
+export const manualWeatherToForecast = (date: string, manual: ManualWeather, base?: DailyForecast): DailyForecast => ({
+  date,
+  temperatureC: manual.temperatureC,
+  dewPointC: estimateDewPointC(manual.temperatureC, manual.humidityPct),
+  humidityPct: manual.humidityPct,
+  windKmh: manual.windKmh,
+  weatherCode: base?.weatherCode ?? 0,
+});
+
+export const applyDayWeatherOverride = (
+  date: string,
+  override: DayWeatherOverride | undefined,
+  forecast?: DailyForecast
+): DailyForecast | undefined => (override?.manual ? manualWeatherToForecast(date, override.manual, forecast) : forecast);
+
+/** Accepts "59.91, 10.75" or "59.91 10.75". */
+export const parseCoordinates = (text: string): { latitude: number; longitude: number } | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
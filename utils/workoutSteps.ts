@@ -0,0 +1,125 @@
+import { Interval, WorkoutSession, WorkoutType } from '../types';
+import { secondsToTime } from './calculations';
+
+// Step model shared by the workout importers (Intervals.icu text, FIT workout files).
+export type StepRole = 'warmup' | 'cooldown' | 'work' | 'recovery';
+
+export interface ParsedStep {
+  role: StepRole;
+  distanceM: number;
+  durationSec: number;
+  paceLowSec?: number;  // sec/km, fastest
+  paceHighSec?: number; // sec/km, slowest
+  hrLow?: number;
+  hrHigh?: number;
+  powerLow?: number;
+  powerHigh?: number;
+  zone?: string;
+  isRide: boolean;
+}
+
+export interface StepGroup {
+  reps: number;
+  steps: ParsedStep[];
+}
+
+export interface StepSessionOptions {
+  id?: string;
+  title?: string;
+  notes?: string[]; // free-text lines kept in the description
+}
+
+// Used only to estimate totals for steps that carry no pace.
+const FALLBACK_RUN_PACE_SEC = 330;
+const FALLBACK_RIDE_KMH = 30;
+
+const estimateStepSec = (step: ParsedStep): number => {
+  if (step.durationSec > 0) return step.durationSec;
+  const km = step.distanceM / 1000;
+  if (step.isRide) return (km / FALLBACK_RIDE_KMH) * 3600;
+  const pace = step.paceLowSec && step.paceHighSec ? (step.paceLowSec + step.paceHighSec) / 2 : FALLBACK_RUN_PACE_SEC;
+  return km * pace;
+};
+
+const estimateStepKm = (step: ParsedStep): number => {
+  if (step.distanceM > 0) return step.distanceM / 1000;
+  if (step.isRide) return (step.durationSec / 3600) * FALLBACK_RIDE_KMH;
+  const pace = step.paceLowSec && step.paceHighSec ? (step.paceLowSec + step.paceHighSec) / 2 : FALLBACK_RUN_PACE_SEC;
+  return step.durationSec / pace;
+};
+
+const formatStepSize = (step: ParsedStep): string => {
+  if (step.distanceM > 0) return `${Math.round(step.distanceM) / 1000}km`;
+  return step.durationSec % 60 === 0 ? `${step.durationSec / 60}m` : `${step.durationSec}s`;
+};
+
+const toInterval = (work: ParsedStep, reps: number, recovery?: ParsedStep): Interval => ({
+  distance: Math.round(work.distanceM),
+  durationSec: work.durationSec > 0 ? work.durationSec : undefined,
+  count: reps,
+  pace: work.paceLowSec && work.paceHighSec
+    ? (work.paceLowSec === work.paceHighSec ? secondsToTime(work.paceLowSec) : `${secondsToTime(work.paceLowSec)}-${secondsToTime(work.paceHighSec)}`)
+    : '',
+  rest: !recovery ? '0' : recovery.distanceM > 0 ? formatStepSize(recovery) : `${recovery.durationSec}s`,
+  description: work.powerLow ? `${work.powerLow}-${work.powerHigh}w` : work.zone || (work.hrLow ? `${work.hrLow}-${work.hrHigh} bpm` : 'Work'),
+  targetZone: work.zone,
+  targetPowerLow: work.powerLow,
+  targetPowerHigh: work.powerHigh,
+  customPace: work.paceLowSec && !work.isRide ? true : undefined,
+});
+
+/**
+ * Turns warmup/work/recovery/cooldown steps into a session. Repeat groups with several work
+ * steps are flattened so each work step keeps the group's rep count and its following recovery.
+ * Returns null when there are no steps.
+ */
+export const buildSessionFromSteps = (groups: StepGroup[], options: StepSessionOptions = {}): WorkoutSession | null => {
+  const allSteps = groups.flatMap((g) => g.steps.map((step) => ({ step, reps: g.reps })));
+  if (!allSteps.length) return null;
+  const title = options.title || '';
+  const notes = options.notes || [];
+
+  const warmups = allSteps.filter(({ step }) => step.role === 'warmup').map(({ step }) => step);
+  const cooldowns = allSteps.filter(({ step }) => step.role === 'cooldown').map(({ step }) => step);
+  const intervals: Interval[] = [];
+  groups.forEach((group) => {
+    const steps = group.steps.filter((s) => s.role === 'work' || s.role === 'recovery');
+    steps.forEach((step, idx) => {
+      if (step.role !== 'work') return;
+      const next = steps[idx + 1];
+      intervals.push(toInterval(step, group.reps, next?.role === 'recovery' ? next : undefined));
+    });
+  });
+
+  const isRide = allSteps.some(({ step }) => step.isRide);
+  const hrStep = allSteps.find(({ step }) => step.hrLow)?.step;
+  const totalSec = allSteps.reduce((sum, { step, reps }) => sum + (estimateStepSec(step) * reps), 0);
+  const totalKm = allSteps.reduce((sum, { step, reps }) => sum + (estimateStepKm(step) * reps), 0);
+  const hasRepeats = intervals.some((int) => int.count > 1);
+  const durationMin = Math.round(totalSec / 60);
+  const type = /long/i.test(title) ? WorkoutType.LONG_RUN
+    : hasRepeats ? WorkoutType.THRESHOLD
+      : durationMin >= 90 ? WorkoutType.LONG_RUN
+        : WorkoutType.EASY;
+  // A single steady run is stored like generated easy runs: no intervals, pace in the description.
+  const steadyRun = !isRide && type !== WorkoutType.THRESHOLD && intervals.length === 1 && intervals[0].rest === '0';
+  const steadyPace = steadyRun && intervals[0].pace ? `Target Pace: ${intervals[0].pace.includes('-') ? intervals[0].pace : `${intervals[0].pace}-${intervals[0].pace}`}/km` : '';
+  const firstWork = allSteps.find(({ step }) => step.role === 'work');
+  const sizeLabel = (steps: ParsedStep[]) => (steps.length ? `${formatStepSize(steps[0])} easy` : undefined);
+
+  return {
+    id: options.id || `import-${Date.now().toString(36)}`,
+    title: title || (firstWork ? `${firstWork.reps > 1 ? `${firstWork.reps}x` : ''}${formatStepSize(firstWork.step)}` : 'Imported workout'),
+    type,
+    sport: isRide ? 'bike' : 'run',
+    useHeartRateTarget: hrStep ? true : undefined,
+    targetHrLow: hrStep?.hrLow,
+    targetHrHigh: hrStep?.hrHigh,
+    distance: Math.round(totalKm * 10) / 10,
+    duration: durationMin,
+    description: [steadyPace, ...notes].filter(Boolean).join('\n'),
+    intervals: steadyRun ? [] : intervals,
+    warmup: sizeLabel(warmups) || 'N/A',
+    cooldown: sizeLabel(cooldowns) || 'N/A',
+  };
+};